@@ -0,0 +1,51 @@
+-- Migration: Structured post-call summary on call_logs (dashboard filters by category / callback needed)
+
+ALTER TABLE public.call_logs
+ADD COLUMN IF NOT EXISTS category text,
+ADD COLUMN IF NOT EXISTS sentiment text,
+ADD COLUMN IF NOT EXISTS urgency text,
+ADD COLUMN IF NOT EXISTS follow_up_action text,
+ADD COLUMN IF NOT EXISTS needs_callback boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS summary_data jsonb;
+
+ALTER TABLE public.call_logs
+DROP CONSTRAINT IF EXISTS call_logs_category_check;
+
+ALTER TABLE public.call_logs
+ADD CONSTRAINT call_logs_category_check
+CHECK (category IS NULL OR category IN ('予約', '問い合わせ', 'クレーム', '営業', 'その他'));
+
+ALTER TABLE public.call_logs
+DROP CONSTRAINT IF EXISTS call_logs_sentiment_check;
+
+ALTER TABLE public.call_logs
+ADD CONSTRAINT call_logs_sentiment_check
+CHECK (sentiment IS NULL OR sentiment IN ('positive', 'neutral', 'negative'));
+
+ALTER TABLE public.call_logs
+DROP CONSTRAINT IF EXISTS call_logs_urgency_check;
+
+ALTER TABLE public.call_logs
+ADD CONSTRAINT call_logs_urgency_check
+CHECK (urgency IS NULL OR urgency IN ('low', 'medium', 'high'));
+
+ALTER TABLE public.call_logs
+DROP CONSTRAINT IF EXISTS call_logs_follow_up_action_check;
+
+ALTER TABLE public.call_logs
+ADD CONSTRAINT call_logs_follow_up_action_check
+CHECK (follow_up_action IS NULL OR follow_up_action IN ('none', 'callback', 'confirm_reservation', 'other'));
+
+CREATE INDEX IF NOT EXISTS idx_call_logs_user_category
+  ON public.call_logs (user_id, category, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_call_logs_needs_callback
+  ON public.call_logs (user_id, created_at DESC)
+  WHERE needs_callback;
+
+COMMENT ON COLUMN public.call_logs.category IS '用件の種類 (予約 / 問い合わせ / クレーム / 営業 / その他)。要約モデルが判定';
+COMMENT ON COLUMN public.call_logs.sentiment IS 'お客様の様子 (positive / neutral / negative)';
+COMMENT ON COLUMN public.call_logs.urgency IS '店舗が対応すべき緊急度 (low / medium / high)';
+COMMENT ON COLUMN public.call_logs.follow_up_action IS '店舗側に必要な対応 (none / callback / confirm_reservation / other)';
+COMMENT ON COLUMN public.call_logs.needs_callback IS '折り返しが必要 (follow_up_action = callback、または take_message で折り返し依頼を受付)';
+COMMENT ON COLUMN public.call_logs.summary_data IS '構造化要約の全体 (見出し・補足メモ・抽出した顧客情報 entities)。summary はここから生成した見出し';
@@ -0,0 +1,6 @@
+-- Migration: Keep the consent exchange (request_confirmation) on reservation_requests
+
+ALTER TABLE public.reservation_requests
+ADD COLUMN IF NOT EXISTS confirmation_audit jsonb;
+
+COMMENT ON COLUMN public.reservation_requests.confirmation_audit IS '送信確認の記録 (request_confirmation の復唱内容・お客様の返答と判定 intent/corrections の履歴)';
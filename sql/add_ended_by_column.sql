@@ -0,0 +1,13 @@
+-- Migration: Record who ended the call on call_logs
+
+ALTER TABLE public.call_logs
+ADD COLUMN IF NOT EXISTS ended_by text;
+
+ALTER TABLE public.call_logs
+DROP CONSTRAINT IF EXISTS call_logs_ended_by_check;
+
+ALTER TABLE public.call_logs
+ADD CONSTRAINT call_logs_ended_by_check
+CHECK (ended_by IS NULL OR ended_by IN ('caller', 'ai', 'timeout', 'error'));
+
+COMMENT ON COLUMN public.call_logs.ended_by IS '通話を終了した側 (caller: お客様 / ai: end_call ツール / timeout: 無音・最大通話時間 / error: AI接続エラー等)';
@@ -0,0 +1,10 @@
+-- Migration: Record the language the caller spoke (detected during the call)
+
+ALTER TABLE public.call_logs
+ADD COLUMN IF NOT EXISTS language text;
+
+ALTER TABLE public.reservation_requests
+ADD COLUMN IF NOT EXISTS language text;
+
+COMMENT ON COLUMN public.call_logs.language IS 'お客様の言語 (ja / en / zh / ko)';
+COMMENT ON COLUMN public.reservation_requests.language IS 'お客様の言語 (ja / en / zh / ko)。承認・却下SMSの文面に使用';
@@ -0,0 +1,10 @@
+-- Migration: Allow ended_by = 'operator' (force-terminated from the admin API)
+
+ALTER TABLE public.call_logs
+DROP CONSTRAINT IF EXISTS call_logs_ended_by_check;
+
+ALTER TABLE public.call_logs
+ADD CONSTRAINT call_logs_ended_by_check
+CHECK (ended_by IS NULL OR ended_by IN ('caller', 'ai', 'timeout', 'error', 'operator'));
+
+COMMENT ON COLUMN public.call_logs.ended_by IS '通話を終了した側 (caller: お客様 / ai: end_call ツール / timeout: 無音・最大通話時間 / error: AI接続エラー等 / operator: 管理APIによる強制終了)';
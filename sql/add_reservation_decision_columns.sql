@@ -0,0 +1,8 @@
+-- Migration: Store approve/reject decisions made through POST /reservations/:id/decision
+
+ALTER TABLE public.reservation_requests
+ADD COLUMN IF NOT EXISTS decision_message text,
+ADD COLUMN IF NOT EXISTS decided_at timestamptz;
+
+COMMENT ON COLUMN public.reservation_requests.decision_message IS '承認/却下時に店舗からお客様へ伝えるメッセージ（SMSに含める）';
+COMMENT ON COLUMN public.reservation_requests.decided_at IS 'pending から approved/rejected へ遷移した日時';
@@ -0,0 +1,16 @@
+-- Migration: Flag reservations recovered from the transcript after the call (source = phone_call_realtime_fallback)
+-- Requires sql/add_realtime_source_values.sql (phone_call_realtime_fallback in reservation_requests_source_check)
+
+ALTER TABLE public.reservation_requests
+ADD COLUMN IF NOT EXISTS needs_review boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_reservation_requests_needs_review
+  ON public.reservation_requests (user_id, created_at DESC)
+  WHERE needs_review;
+
+-- One reservation per call: finalize_reservation and the post-call recovery rely on the unique violation
+-- (DuplicateRecordError) so that a call never creates a second reservation. Remove existing duplicates first.
+CREATE UNIQUE INDEX IF NOT EXISTS reservation_requests_call_sid_key
+  ON public.reservation_requests (call_sid);
+
+COMMENT ON COLUMN public.reservation_requests.needs_review IS '要確認: AIが finalize_reservation を呼ばずに終わった通話から、通話後に会話内容を読み直して復元した予約。承認前にお客様へ内容を確認する';
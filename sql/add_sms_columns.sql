@@ -0,0 +1,9 @@
+-- Migration: SMS delivery tracking on reservation_requests
+-- sms_body_sent / sms_sent_at hold the last SMS texted to the caller (receipt, then approval/rejection)
+
+ALTER TABLE public.reservation_requests
+ADD COLUMN IF NOT EXISTS sms_body_sent text,
+ADD COLUMN IF NOT EXISTS sms_sent_at timestamptz;
+
+COMMENT ON COLUMN public.reservation_requests.sms_body_sent IS '最後にお客様へ送信したSMS本文';
+COMMENT ON COLUMN public.reservation_requests.sms_sent_at IS '最後にお客様へSMSを送信した日時（受付SMSは call_sid ごとに1回のみ）';
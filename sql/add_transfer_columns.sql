@@ -0,0 +1,12 @@
+-- Migration: Record live transfers (transfer_to_staff tool) and voicemail on call_logs
+
+ALTER TABLE public.call_logs
+ADD COLUMN IF NOT EXISTS transferred_at timestamptz,
+ADD COLUMN IF NOT EXISTS transfer_turn integer,
+ADD COLUMN IF NOT EXISTS transfer_reason text,
+ADD COLUMN IF NOT EXISTS voicemail_recording_url text;
+
+COMMENT ON COLUMN public.call_logs.transferred_at IS 'スタッフへ転送した日時（転送なしは NULL）';
+COMMENT ON COLUMN public.call_logs.transfer_turn IS '転送時点の会話ターン番号（transcript 上の位置）';
+COMMENT ON COLUMN public.call_logs.transfer_reason IS '転送理由 (manager_request / complaint / allergy / other)';
+COMMENT ON COLUMN public.call_logs.voicemail_recording_url IS '転送不在時の留守番電話録音URL (Twilio Recording)';
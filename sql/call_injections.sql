@@ -0,0 +1,29 @@
+-- ============================================================
+-- Call Injections Migration
+-- ============================================================
+-- Purpose: Audit trail of instructions injected into live AI calls by store staff / operators
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.call_injections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- NULL when the call's store is not known (every injection is recorded)
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+  call_sid TEXT NOT NULL,
+  -- Dashboard user id (store owner) or 'admin' (ADMIN_API_TOKEN)
+  injected_by TEXT NOT NULL,
+  mode TEXT NOT NULL CHECK (mode IN ('system_message', 'response')),
+  instructions TEXT NOT NULL,
+  turn INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_call_injections_call_sid
+  ON public.call_injections (call_sid, created_at);
+
+ALTER TABLE public.call_injections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own call injections" ON public.call_injections
+  FOR SELECT USING (auth.uid() = user_id);
+
+COMMENT ON TABLE public.call_injections IS '通話中のAIへスタッフが送った指示の監査ログ';
+COMMENT ON COLUMN public.call_injections.mode IS 'system_message: 以降の応答に反映 / response: 指示に沿って即座に発話';
@@ -0,0 +1,35 @@
+-- ============================================================
+-- Callback Requests Migration
+-- ============================================================
+-- Purpose: Messages left with the AI (take_message tool), listed separately from reservations
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.callback_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  call_sid TEXT NOT NULL,
+  call_log_id UUID REFERENCES public.call_logs(id) ON DELETE SET NULL,
+  caller_name TEXT,
+  callback_number TEXT,
+  topic TEXT NOT NULL,
+  category TEXT NOT NULL DEFAULT 'other' CHECK (category IN ('reservation_issue', 'inquiry', 'other')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'done')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- One message per call
+  CONSTRAINT callback_requests_call_sid_key UNIQUE (call_sid)
+);
+
+CREATE INDEX IF NOT EXISTS idx_callback_requests_user_status
+  ON public.callback_requests (user_id, status, created_at DESC);
+
+ALTER TABLE public.callback_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own callback requests" ON public.callback_requests
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own callback requests" ON public.callback_requests
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+COMMENT ON TABLE public.callback_requests IS 'AIが受け付けた折り返し依頼（伝言）。予約リクエストとは別管理';
+COMMENT ON COLUMN public.callback_requests.category IS 'reservation_issue: 予約送信失敗 / inquiry: 問い合わせ / other: その他';
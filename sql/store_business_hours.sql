@@ -0,0 +1,47 @@
+-- ============================================================
+-- Store Business Hours / Holidays Migration
+-- ============================================================
+-- Purpose: Per-store opening hours used for the closed-hours greeting,
+--          reservation time validation (finalize_reservation) and the get_business_hours tool
+-- ============================================================
+
+-- One row per opening period (lunch / dinner = two rows). Weekdays without rows are regular closed days.
+CREATE TABLE IF NOT EXISTS public.store_business_hours (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  open_time TIME NOT NULL,
+  close_time TIME NOT NULL,
+  last_order_time TIME,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT store_business_hours_period_unique UNIQUE (user_id, weekday, open_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_store_business_hours_user
+  ON public.store_business_hours (user_id);
+
+-- Special closed dates (年末年始, 臨時休業 ...)
+CREATE TABLE IF NOT EXISTS public.store_holidays (
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  label TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, date)
+);
+
+-- RLS: owners manage their own hours (call engine uses service role)
+ALTER TABLE public.store_business_hours ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.store_holidays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own business hours" ON public.store_business_hours
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own holidays" ON public.store_holidays
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+COMMENT ON TABLE public.store_business_hours IS '店舗の営業時間（曜日ごと、複数行で昼・夜営業）。行のない曜日は定休日';
+COMMENT ON COLUMN public.store_business_hours.weekday IS '曜日 (0=日 ... 6=土)';
+COMMENT ON COLUMN public.store_business_hours.close_time IS '閉店時刻（open_time より前なら翌日にまたがる深夜営業）';
+COMMENT ON COLUMN public.store_business_hours.last_order_time IS '予約可能な最終時刻（NULL は close_time まで）';
+COMMENT ON TABLE public.store_holidays IS '臨時休業日・年末年始などの特別休業日';
@@ -0,0 +1,39 @@
+-- ============================================================
+-- Store Capacity Rules Migration
+-- ============================================================
+-- Purpose: Per-store seat capacity used by the check_availability tool
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.store_capacity_rules (
+  user_id UUID PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  slot_minutes INTEGER NOT NULL DEFAULT 30 CHECK (slot_minutes > 0),
+  seats_per_slot INTEGER NOT NULL CHECK (seats_per_slot > 0),
+  stay_minutes INTEGER NOT NULL DEFAULT 120 CHECK (stay_minutes > 0),
+  open_time TIME NOT NULL DEFAULT '17:00',
+  last_order_time TIME NOT NULL DEFAULT '21:30',
+  closed_weekdays SMALLINT[] NOT NULL DEFAULT '{}',
+  closed_dates DATE[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- Slots are counted within one calendar date: overnight hours (last order past midnight) are not supported
+  CONSTRAINT store_capacity_rules_last_order_after_open CHECK (last_order_time >= open_time)
+);
+
+-- Availability lookups scan reservations of one store and date
+CREATE INDEX IF NOT EXISTS idx_reservation_requests_user_date
+  ON public.reservation_requests (user_id, requested_date);
+
+-- RLS: owners manage their own rules (call engine uses service role)
+ALTER TABLE public.store_capacity_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own capacity rules" ON public.store_capacity_rules
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own capacity rules" ON public.store_capacity_rules
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+COMMENT ON TABLE public.store_capacity_rules IS '店舗ごとの席数ルール（check_availability ツールで使用）';
+COMMENT ON COLUMN public.store_capacity_rules.seats_per_slot IS '同時に案内できる席数';
+COMMENT ON COLUMN public.store_capacity_rules.stay_minutes IS '1件の予約が席を占有する時間（分）';
+COMMENT ON COLUMN public.store_capacity_rules.closed_weekdays IS '定休曜日 (0=日 ... 6=土)';
+COMMENT ON COLUMN public.store_capacity_rules.last_order_time IS '予約可能な最終時刻（ラストオーダー、open_time 以降の同日の時刻）';
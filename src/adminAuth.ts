@@ -0,0 +1,66 @@
+import crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { config } from './config';
+
+/**
+ * Check an Authorization: Bearer <token> header (constant-time comparison).
+ */
+function isValidBearerToken(header: string | undefined, token: string | undefined): boolean {
+    if (!token) {
+        return false;
+    }
+    const match = (header ?? '').match(/^Bearer\s+(.+)$/i);
+    if (!match) {
+        return false;
+    }
+
+    const provided = crypto.createHash('sha256').update(match[1]).digest();
+    const expected = crypto.createHash('sha256').update(token).digest();
+    return crypto.timingSafeEqual(provided, expected);
+}
+
+/**
+ * Check an Authorization: Bearer <ADMIN_API_TOKEN> header.
+ */
+export function isValidAdminToken(header: string | undefined): boolean {
+    return isValidBearerToken(header, config.adminApiToken);
+}
+
+/**
+ * Express middleware for operator endpoints (/admin/*).
+ * Disabled (503) until ADMIN_API_TOKEN is configured.
+ */
+export function requireAdminToken(req: Request, res: Response, next: NextFunction): void {
+    if (!config.adminApiToken) {
+        res.status(503).json({ error: 'Admin API is not configured' });
+        return;
+    }
+
+    if (!isValidAdminToken(req.header('Authorization'))) {
+        console.warn(`🚫 Admin API request rejected: ${req.method} ${req.path}`);
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+    }
+
+    next();
+}
+
+/**
+ * Express middleware for GET /metrics: Bearer <METRICS_TOKEN> (for the scraper) or <ADMIN_API_TOKEN>.
+ * Disabled (503) until one of them is configured.
+ */
+export function requireMetricsToken(req: Request, res: Response, next: NextFunction): void {
+    if (!config.metricsToken && !config.adminApiToken) {
+        res.status(503).json({ error: 'Metrics endpoint is not configured' });
+        return;
+    }
+
+    const header = req.header('Authorization');
+    if (!isValidBearerToken(header, config.metricsToken) && !isValidAdminToken(header)) {
+        console.warn('🚫 Metrics request rejected');
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+    }
+
+    next();
+}
@@ -0,0 +1,92 @@
+import express, { Request, Response, Router } from 'express';
+import { callMonitor } from './callMonitor';
+import { DebugObserver } from './debugObserver';
+import { RealtimeSession } from './realtimeSession';
+
+/** What the operator API needs from the live call map of server.ts */
+export interface ActiveCall {
+  streamSid: string;
+  realtime?: RealtimeSession;
+  debugObserver?: DebugObserver;
+}
+
+/** +819012345678 -> +********5678 (non-numbers such as the web demo caller are kept) */
+export const maskPhoneNumber = (phone?: string | null): string | null => {
+  if (!phone) return null;
+  return phone.replace(/\d(?=\d{4})/g, '*');
+};
+
+/** Look a call up by CallSid or StreamSid */
+export const findCall = (calls: Map<string, ActiveCall>, id: string): ActiveCall | undefined => {
+  return calls.get(id) ?? [...calls.values()].find(call => call.realtime?.getSnapshot().callSid === id);
+};
+
+/**
+ * Operator API over the calls handled by this process (mounted at /admin/calls, ADMIN_API_TOKEN).
+ * - GET  /                     active calls (?user_id= to filter by tenant)
+ * - GET  /:callSid/transcript  live transcript of one call
+ * - POST /:callSid/terminate   hang up a stuck call right away (ended_by = operator)
+ */
+export function createAdminCallsRouter(calls: Map<string, ActiveCall>): Router {
+  const router = express.Router();
+
+  router.get('/', (req: Request, res: Response) => {
+    const userId = typeof req.query.user_id === 'string' ? req.query.user_id : undefined;
+
+    const result = [...calls.values()]
+      .filter(call => call.realtime)
+      .map(call => ({ snapshot: call.realtime!.getSnapshot(), call }))
+      .filter(({ snapshot }) => !userId || snapshot.userId === userId)
+      .sort((a, b) => a.snapshot.startedAt.localeCompare(b.snapshot.startedAt))
+      .map(({ snapshot, call }) => ({
+        call_sid: snapshot.callSid,
+        stream_sid: snapshot.streamSid,
+        user_id: snapshot.userId ?? null,
+        caller_number: maskPhoneNumber(snapshot.callerNumber),
+        channel: snapshot.channel,
+        started_at: snapshot.startedAt,
+        duration_seconds: snapshot.durationSeconds,
+        phase: snapshot.phase,
+        turn_count: snapshot.turnCount,
+        language: snapshot.language,
+        consent_state: snapshot.consentState,
+        reconnecting: snapshot.reconnecting,
+        reservation_created: snapshot.reservationCreated,
+        transferred: snapshot.transferred,
+        media_stats: call.debugObserver?.getStats() ?? null,
+      }));
+
+    res.json({ calls: result });
+  });
+
+  router.get('/:callSid/transcript', (req: Request<{ callSid: string }>, res: Response) => {
+    const call = findCall(calls, req.params.callSid);
+    if (!call?.realtime) {
+      res.status(404).json({ error: 'Call not found' });
+      return;
+    }
+
+    const snapshot = call.realtime.getSnapshot();
+    res.json({ call_sid: snapshot.callSid, phase: snapshot.phase, transcript: call.realtime.getTranscript() });
+  });
+
+  router.post('/:callSid/terminate', async (req: Request<{ callSid: string }>, res: Response) => {
+    const call = findCall(calls, req.params.callSid);
+    if (!call?.realtime) {
+      res.status(404).json({ error: 'Call not found' });
+      return;
+    }
+
+    const { callSid } = call.realtime.getSnapshot();
+    await call.realtime.terminateByOperator();
+
+    // Clean up now: for a stuck call the media socket may never report its close
+    call.realtime.close();
+    calls.delete(call.streamSid);
+    callMonitor.end(call.streamSid);
+
+    res.json({ ok: true, call_sid: callSid });
+  });
+
+  return router;
+}
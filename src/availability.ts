@@ -0,0 +1,166 @@
+/**
+ * Seat availability evaluation based on per-store capacity rules.
+ * Pure functions (no DB access) so the logic can be reused by tools and the dashboard API.
+ */
+
+/** store_capacity_rules row */
+export interface CapacityRules {
+  /** Slot granularity in minutes (e.g. 30 = 17:00, 17:30, ...) */
+  slot_minutes: number;
+  /** Seats available at the same time */
+  seats_per_slot: number;
+  /** How long one reservation occupies its seats */
+  stay_minutes: number;
+  /** First bookable time (HH:mm) */
+  open_time: string;
+  /** Last bookable time / last order (HH:mm, same date as open_time: overnight hours are not supported) */
+  last_order_time: string;
+  /** Regular closed weekdays (0=Sun ... 6=Sat) */
+  closed_weekdays: number[];
+  /** Extra closed dates (YYYY-MM-DD) */
+  closed_dates?: string[] | null;
+}
+
+/** Existing reservation occupying seats (reservation_requests in pending/approved state) */
+export interface ExistingReservation {
+  requested_time: string | null;
+  party_size: number | null;
+}
+
+export interface AvailabilityRequest {
+  date: string;   // YYYY-MM-DD
+  time: string;   // HH:mm
+  partySize: number;
+}
+
+export type UnavailableReason = 'closed_day' | 'before_open' | 'after_last_order' | 'full' | 'party_too_large';
+
+export interface AvailabilityResult {
+  available: boolean;
+  reason?: UnavailableReason;
+  /** Alternative start times on the same date (HH:mm), closest to the requested time first */
+  alternatives: string[];
+}
+
+const MAX_ALTERNATIVES = 3;
+
+/** "19:30" / "19:30:00" -> 1170 */
+export const timeToMinutes = (time: string): number => {
+  const [h, m] = time.split(':').map(v => parseInt(v, 10));
+  return h * 60 + (m || 0);
+};
+
+/** 1170 -> "19:30" */
+export const minutesToTime = (minutes: number): string => {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+};
+
+/** "19:30" -> "19時半", "19:15" -> "19時15分" (for spoken responses) */
+export const formatTimeJa = (time: string): string => {
+  const minutes = timeToMinutes(time);
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  if (m === 0) return `${h}時`;
+  if (m === 30) return `${h}時半`;
+  return `${h}時${m}分`;
+};
+
+/** Weekday of a calendar date (0=Sun ... 6=Sat), independent of the server timezone */
+export const weekdayOf = (date: string): number => {
+  const [y, mo, d] = date.split('-').map(v => parseInt(v, 10));
+  return new Date(Date.UTC(y, mo - 1, d)).getUTCDay();
+};
+
+const isClosedDate = (rules: CapacityRules, date: string): boolean => {
+  return rules.closed_weekdays.includes(weekdayOf(date)) || (rules.closed_dates ?? []).includes(date);
+};
+
+/**
+ * Why the rules cannot be evaluated, or undefined when they are usable.
+ * Slots are counted within one calendar date, so a last order past midnight (e.g. 18:00 -> 01:00)
+ * would make every request before_open / after_last_order: such rules are rejected instead.
+ */
+export function findCapacityRulesProblem(rules: CapacityRules): string | undefined {
+  if (timeToMinutes(rules.last_order_time) < timeToMinutes(rules.open_time)) {
+    return `last_order_time ${rules.last_order_time} is before open_time ${rules.open_time} (overnight hours are not supported)`;
+  }
+  return undefined;
+}
+
+/**
+ * Max number of seats already taken during [start, start + stay_minutes).
+ * Checked per slot because reservations overlap partially.
+ */
+const peakOccupancy = (rules: CapacityRules, existing: ExistingReservation[], start: number): number => {
+  const slot = Math.max(rules.slot_minutes, 1);
+  let peak = 0;
+  for (let t = start; t < start + rules.stay_minutes; t += slot) {
+    let occupied = 0;
+    for (const r of existing) {
+      if (!r.requested_time || !r.party_size) continue;
+      const rStart = timeToMinutes(r.requested_time);
+      if (rStart <= t && t < rStart + rules.stay_minutes) {
+        occupied += r.party_size;
+      }
+    }
+    peak = Math.max(peak, occupied);
+  }
+  return peak;
+};
+
+const hasRoom = (rules: CapacityRules, existing: ExistingReservation[], start: number, partySize: number): boolean => {
+  return peakOccupancy(rules, existing, start) + partySize <= rules.seats_per_slot;
+};
+
+/**
+ * Evaluate whether a party can be seated at the requested date/time.
+ * When not available, suggests up to 3 alternative slots on the same date.
+ */
+export function evaluateAvailability(
+  rules: CapacityRules,
+  existing: ExistingReservation[],
+  request: AvailabilityRequest,
+): AvailabilityResult {
+  if (isClosedDate(rules, request.date)) {
+    return { available: false, reason: 'closed_day', alternatives: [] };
+  }
+
+  if (request.partySize > rules.seats_per_slot) {
+    return { available: false, reason: 'party_too_large', alternatives: [] };
+  }
+
+  const open = timeToMinutes(rules.open_time);
+  const lastOrder = timeToMinutes(rules.last_order_time);
+  const requested = timeToMinutes(request.time);
+
+  let reason: UnavailableReason | undefined;
+  if (requested < open) {
+    reason = 'before_open';
+  } else if (requested > lastOrder) {
+    reason = 'after_last_order';
+  } else if (!hasRoom(rules, existing, requested, request.partySize)) {
+    reason = 'full';
+  }
+
+  if (!reason) {
+    return { available: true, alternatives: [] };
+  }
+
+  // Alternatives: bookable slots ordered by distance from the requested time
+  const slot = Math.max(rules.slot_minutes, 1);
+  const candidates: number[] = [];
+  for (let t = open; t <= lastOrder; t += slot) {
+    if (t !== requested && hasRoom(rules, existing, t, request.partySize)) {
+      candidates.push(t);
+    }
+  }
+  candidates.sort((a, b) => Math.abs(a - requested) - Math.abs(b - requested) || a - b);
+
+  return {
+    available: false,
+    reason,
+    alternatives: candidates.slice(0, MAX_ALTERNATIVES).map(minutesToTime),
+  };
+}
@@ -0,0 +1,201 @@
+import { formatTimeJa, minutesToTime, timeToMinutes, weekdayOf } from './availability';
+import { addDays, formatDateJa } from './jstDate';
+
+/**
+ * Store business hours and holidays (store_business_hours / store_holidays).
+ * Pure functions (no DB access). Dates and times are JST wall-clock values (YYYY-MM-DD / HH:mm).
+ */
+
+/** store_business_hours row: one opening period of a weekday (several rows = split shifts, e.g. lunch and dinner) */
+export interface BusinessHoursPeriod {
+  /** 0=Sun ... 6=Sat */
+  weekday: number;
+  open_time: string;
+  /** Earlier than open_time = closes after midnight */
+  close_time: string;
+  /** Last bookable time. Defaults to close_time */
+  last_order_time?: string | null;
+}
+
+/** store_holidays row: special closed date (年末年始, 臨時休業 ...) */
+export interface StoreHoliday {
+  date: string;
+  label?: string | null;
+}
+
+export interface BusinessCalendar {
+  hours: BusinessHoursPeriod[];
+  /** Upcoming holidays */
+  holidays: StoreHoliday[];
+}
+
+export type ClosedReason = 'holiday' | 'regular_closed_day' | 'outside_hours';
+
+export interface DayHours {
+  date: string;
+  weekday: number;
+  closed: boolean;
+  closedReason?: 'holiday' | 'regular_closed_day';
+  holidayLabel?: string;
+  /** Opening periods ordered by open_time (empty when closed) */
+  periods: BusinessHoursPeriod[];
+}
+
+export interface OpenStatus {
+  open: boolean;
+  reason?: ClosedReason;
+  today: DayHours;
+  /** Next opening when closed (searched up to NEXT_OPEN_SEARCH_DAYS ahead) */
+  nextOpen?: { date: string; time: string };
+}
+
+export type ReservationTimeCheck =
+  | { ok: true }
+  | { ok: false; reason: ClosedReason; day: DayHours };
+
+const WEEKDAY_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
+/** Monday first, as stores usually list their hours */
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+const NEXT_OPEN_SEARCH_DAYS = 14;
+const MAX_PROMPT_HOLIDAYS = 5;
+const MINUTES_PER_DAY = 24 * 60;
+
+/** "17:00:00" (Postgres TIME) -> "17:00" */
+const normalizeTime = (time: string): string => minutesToTime(timeToMinutes(time));
+
+/** Minutes from midnight of the period's own date (past-midnight values are > 1440) */
+const periodRange = (period: BusinessHoursPeriod) => {
+  const open = timeToMinutes(period.open_time);
+  const afterOpen = (time: string) => {
+    const minutes = timeToMinutes(time);
+    return minutes <= open ? minutes + MINUTES_PER_DAY : minutes;
+  };
+  const close = afterOpen(period.close_time);
+  const lastOrder = period.last_order_time ? Math.min(afterOpen(period.last_order_time), close) : close;
+  return { open, close, lastOrder };
+};
+
+export function getDayHours(calendar: BusinessCalendar, date: string): DayHours {
+  const weekday = weekdayOf(date);
+  const holiday = calendar.holidays.find(h => h.date === date);
+  if (holiday) {
+    return { date, weekday, closed: true, closedReason: 'holiday', holidayLabel: holiday.label ?? undefined, periods: [] };
+  }
+
+  const periods = calendar.hours
+    .filter(p => p.weekday === weekday)
+    .sort((a, b) => timeToMinutes(a.open_time) - timeToMinutes(b.open_time));
+  if (periods.length === 0) {
+    return { date, weekday, closed: true, closedReason: 'regular_closed_day', periods: [] };
+  }
+  return { date, weekday, closed: false, periods };
+}
+
+/**
+ * Whether `minutes` (of `date`) falls into a period, including periods of the previous day that run past midnight.
+ * `until` picks the end of the period: close (open now?) or last order (bookable?).
+ */
+const isWithinHours = (calendar: BusinessCalendar, date: string, minutes: number, until: 'close' | 'lastOrder'): boolean => {
+  const today = getDayHours(calendar, date).periods.some(p => {
+    const range = periodRange(p);
+    return range.open <= minutes && (until === 'close' ? minutes < range.close : minutes <= range.lastOrder);
+  });
+  const overnight = getDayHours(calendar, addDays(date, -1)).periods.some(p => {
+    const range = periodRange(p);
+    const shifted = minutes + MINUTES_PER_DAY;
+    return until === 'close' ? shifted < range.close : shifted <= range.lastOrder;
+  });
+  return today || overnight;
+};
+
+const findNextOpen = (calendar: BusinessCalendar, date: string, minutes: number) => {
+  for (let offset = 0; offset <= NEXT_OPEN_SEARCH_DAYS; offset++) {
+    const day = getDayHours(calendar, addDays(date, offset));
+    const period = day.periods.find(p => offset > 0 || timeToMinutes(p.open_time) > minutes);
+    if (period) {
+      return { date: day.date, time: normalizeTime(period.open_time) };
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Is the store open at the given JST date/time?
+ */
+export function getOpenStatus(calendar: BusinessCalendar, date: string, time: string): OpenStatus {
+  const today = getDayHours(calendar, date);
+  const minutes = timeToMinutes(time);
+  if (isWithinHours(calendar, date, minutes, 'close')) {
+    return { open: true, today };
+  }
+  return {
+    open: false,
+    reason: today.closed ? today.closedReason : 'outside_hours',
+    today,
+    nextOpen: findNextOpen(calendar, date, minutes),
+  };
+}
+
+/**
+ * Can a reservation start at date/time? Must be within opening hours, no later than the last order.
+ * Without a time (form has no time field) only the date is checked.
+ */
+export function checkReservationTime(calendar: BusinessCalendar, date: string, time?: string): ReservationTimeCheck {
+  const day = getDayHours(calendar, date);
+  const bookable = time === undefined
+    ? !day.closed
+    : isWithinHours(calendar, date, timeToMinutes(time), 'lastOrder');
+  if (bookable) {
+    return { ok: true };
+  }
+  return { ok: false, reason: day.closed ? day.closedReason! : 'outside_hours', day };
+}
+
+/** "11時半から14時、17時から23時（ラストオーダー22時半）" */
+export function describePeriods(periods: BusinessHoursPeriod[]): string {
+  return periods.map(p => {
+    const hours = `${formatTimeJa(p.open_time)}から${formatTimeJa(p.close_time)}`;
+    return p.last_order_time && normalizeTime(p.last_order_time) !== normalizeTime(p.close_time)
+      ? `${hours}（ラストオーダー${formatTimeJa(p.last_order_time)}）`
+      : hours;
+  }).join('、');
+}
+
+/** "10月20日（火）は17時から23時の営業です" / "10月21日（水）は定休日です" */
+export function describeDay(day: DayHours): string {
+  if (day.closedReason === 'holiday') {
+    return `${formatDateJa(day.date)}は${day.holidayLabel ? `${day.holidayLabel}のため` : ''}休業日です`;
+  }
+  if (day.closed) {
+    return `${formatDateJa(day.date)}は定休日です`;
+  }
+  return `${formatDateJa(day.date)}は${describePeriods(day.periods)}の営業です`;
+}
+
+/**
+ * Business hours section of the system prompt: weekly hours, upcoming holidays and whether the store is open now.
+ */
+export function buildBusinessHoursPrompt(calendar: BusinessCalendar, now: { date: string; time: string }): string {
+  const weekly = WEEKDAY_ORDER.map(weekday => {
+    const periods = calendar.hours
+      .filter(p => p.weekday === weekday)
+      .sort((a, b) => timeToMinutes(a.open_time) - timeToMinutes(b.open_time));
+    return `${WEEKDAY_LABELS[weekday]}: ${periods.length > 0 ? describePeriods(periods) : '定休日'}`;
+  });
+
+  const holidays = calendar.holidays
+    .filter(h => h.date >= now.date)
+    .slice(0, MAX_PROMPT_HOLIDAYS)
+    .map(h => `${formatDateJa(h.date)}${h.label ? `（${h.label}）` : ''}`);
+
+  const status = getOpenStatus(calendar, now.date, now.time);
+  const statusLine = status.open
+    ? '現在は営業時間内'
+    : `現在は営業時間外${status.nextOpen ? `（次の営業開始: ${formatDateJa(status.nextOpen.date)}${formatTimeJa(status.nextOpen.time)}）` : ''}`;
+
+  return `【営業時間】
+${weekly.join('\n')}
+臨時休業日: ${holidays.join('、') || 'なし'}
+${statusLine}
+営業時間外・休業日の日時では予約を受け付けない`;
+}
@@ -0,0 +1,69 @@
+import { Request, Response } from 'express';
+import { isValidAdminToken } from './adminAuth';
+import { ActiveCall, findCall } from './adminCalls';
+import { authenticateDashboardRequest } from './dashboardAuth';
+import { CallInjectionMode, Storage } from './storage';
+
+const MODES: CallInjectionMode[] = ['system_message', 'response'];
+const MAX_INSTRUCTIONS_LENGTH = 500;
+
+/**
+ * POST /calls/:callSid/instructions
+ * Body: { mode: 'system_message' | 'response', instructions: string }
+ * Authorization: Bearer <Supabase access token> (calls of the owner's store) or <ADMIN_API_TOKEN> (any call)
+ *
+ * Whisper takeover: store staff steer the AI during a live call. Every injection is recorded in
+ * call_injections (who, what, when) before it is sent, in addition to the call's NDJSON log.
+ */
+export const createCallInstructionsHandler = (calls: Map<string, ActiveCall>, storage: Storage) => async (
+    req: Request<{ callSid: string }>,
+    res: Response,
+) => {
+    const isAdmin = isValidAdminToken(req.header('Authorization'));
+    const user = isAdmin ? null : await authenticateDashboardRequest(storage, req);
+    if (!isAdmin && !user) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+    }
+
+    const mode = req.body?.mode as CallInjectionMode;
+    const instructions = typeof req.body?.instructions === 'string' ? req.body.instructions.trim() : '';
+
+    if (!MODES.includes(mode)) {
+        res.status(400).json({ error: 'mode must be "system_message" or "response"' });
+        return;
+    }
+    if (!instructions) {
+        res.status(400).json({ error: 'instructions is required' });
+        return;
+    }
+    if (instructions.length > MAX_INSTRUCTIONS_LENGTH) {
+        res.status(400).json({ error: `instructions must be at most ${MAX_INSTRUCTIONS_LENGTH} characters` });
+        return;
+    }
+
+    // Calls of other stores are reported as not found (same as /monitor)
+    const session = findCall(calls, req.params.callSid)?.realtime;
+    const snapshot = session?.getSnapshot();
+    if (!session || !snapshot || (!isAdmin && snapshot.userId !== user?.userId)) {
+        res.status(404).json({ error: 'Call not found' });
+        return;
+    }
+
+    const injectedBy = isAdmin ? 'admin' : user!.userId;
+    const result = await session.injectStaffInstruction({ mode, text: instructions, injectedBy });
+    if (result.status === 'not_recorded') {
+        res.status(500).json({ error: 'Failed to record the instruction, it was not sent' });
+        return;
+    }
+    if (result.status === 'unavailable') {
+        res.status(409).json({ error: 'Call is not accepting instructions (ending or reconnecting)' });
+        return;
+    }
+    if (result.status === 'busy') {
+        res.status(409).json({ error: 'AI is speaking, retry when the response is done' });
+        return;
+    }
+
+    res.json({ ok: true, call_sid: snapshot.callSid, injection_id: result.injectionId });
+};
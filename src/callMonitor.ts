@@ -0,0 +1,117 @@
+import { IncomingMessage } from 'http';
+import WebSocket from 'ws';
+import { isValidAdminToken } from './adminAuth';
+import { ActiveCall } from './adminCalls';
+import { authenticateDashboardToken } from './dashboardAuth';
+import { Storage } from './storage';
+
+/** Messages sent to a listener (Twilio-like media events, plus the transcript events of the web demo) */
+export type MonitorMessage =
+  | { event: 'start'; streamSid: string; callSid: string; channel: string }
+  | { event: 'media'; track: 'inbound' | 'outbound'; payload: string }
+  | { event: 'clear' }
+  | { event: 'transcript'; text: string; speaker: 'user' | 'ai'; isFinal: boolean; turn: number }
+  | { event: 'stop' };
+
+/** A listener that cannot keep up loses audio frames instead of buffering without bound */
+const MAX_LISTENER_BUFFERED_BYTES = 1024 * 1024;
+
+/** Close codes (4001 = same as the web demo for an invalid token) */
+const CLOSE_INVALID_TOKEN = 4001;
+const CLOSE_CALL_NOT_FOUND = 4404;
+
+/**
+ * Read-only listen-in on ongoing calls: fans out the caller audio (inbound), the AI audio (outbound)
+ * and the transcript of a call to the supervisors connected to /monitor.
+ * Listeners only receive: nothing they send reaches the call, and marks / barge-in stay between Twilio and the session.
+ */
+export class CallMonitor {
+  private readonly listeners = new Map<string, Set<WebSocket>>();
+
+  attach(streamSid: string, socket: WebSocket): void {
+    let set = this.listeners.get(streamSid);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(streamSid, set);
+    }
+    set.add(socket);
+
+    socket.on('close', () => {
+      set.delete(socket);
+      if (set.size === 0 && this.listeners.get(streamSid) === set) {
+        this.listeners.delete(streamSid);
+      }
+    });
+  }
+
+  publish(streamSid: string, message: MonitorMessage): void {
+    const set = this.listeners.get(streamSid);
+    if (!set) return;
+
+    const data = JSON.stringify(message);
+    for (const socket of set) {
+      if (socket.readyState !== WebSocket.OPEN) continue;
+      if (message.event === 'media' && socket.bufferedAmount > MAX_LISTENER_BUFFERED_BYTES) continue;
+      try {
+        socket.send(data);
+      } catch {
+        // Ignore send errors (e.g., socket closing)
+      }
+    }
+  }
+
+  /** The call ended: tell the listeners and disconnect them */
+  end(streamSid: string): void {
+    const set = this.listeners.get(streamSid);
+    if (!set) return;
+    this.publish(streamSid, { event: 'stop' });
+    this.listeners.delete(streamSid);
+    for (const socket of set) {
+      socket.close(1000, 'Call ended');
+    }
+  }
+}
+
+export const callMonitor = new CallMonitor();
+
+/**
+ * WS /monitor?streamSid=...&token=...
+ * token: Supabase access token of the store owner (only the calls of their own store),
+ * or ADMIN_API_TOKEN (any call). Also accepted as Authorization: Bearer <token>.
+ */
+export async function handleMonitorConnection(
+  socket: WebSocket,
+  req: IncomingMessage,
+  calls: Map<string, ActiveCall>,
+  storage: Storage,
+): Promise<void> {
+  const url = new URL(req.url || '', `http://${req.headers.host}`);
+  const streamSid = url.searchParams.get('streamSid') ?? '';
+  const header = req.headers.authorization ?? '';
+  const token = url.searchParams.get('token') || header.match(/^Bearer\s+(.+)$/i)?.[1] || '';
+
+  // Read-only: anything the listener sends is dropped
+  socket.on('message', () => {});
+
+  const isAdmin = isValidAdminToken(`Bearer ${token}`);
+  const user = isAdmin ? null : await authenticateDashboardToken(storage, token);
+  if (!isAdmin && !user) {
+    console.warn('🚫 Monitor connection rejected: invalid token');
+    socket.close(CLOSE_INVALID_TOKEN, 'Invalid token');
+    return;
+  }
+
+  // Calls of other stores are reported as not found
+  const snapshot = calls.get(streamSid)?.realtime?.getSnapshot();
+  if (!snapshot || (!isAdmin && snapshot.userId !== user?.userId)) {
+    console.warn(`🚫 Monitor connection rejected: call not found (${streamSid})`);
+    socket.close(CLOSE_CALL_NOT_FOUND, 'Call not found');
+    return;
+  }
+
+  if (socket.readyState !== WebSocket.OPEN) return;
+  console.log(`👂 Monitor attached to ${streamSid} (${isAdmin ? 'admin' : `user ${user!.userId.slice(0, 8)}...`})`);
+  callMonitor.attach(streamSid, socket);
+  const start: MonitorMessage = { event: 'start', streamSid, callSid: snapshot.callSid, channel: snapshot.channel };
+  socket.send(JSON.stringify(start));
+}
@@ -0,0 +1,187 @@
+import OpenAI from 'openai';
+import { parseEnumSetting, Parsed } from './configSchema';
+import { SUMMARY_SYSTEM_PROMPT } from './prompts';
+
+/**
+ * Post-call summary: structured JSON (category, sentiment, urgency, follow-up, entities) validated here
+ * and stored in dedicated call_logs columns so that the dashboard can filter calls and flag callbacks.
+ * call_logs.summary keeps the one-line headline (plus notes) derived from it.
+ */
+
+export const CALL_CATEGORIES = ['予約', '問い合わせ', 'クレーム', '営業', 'その他'] as const;
+export type CallCategory = typeof CALL_CATEGORIES[number];
+
+export const CALL_SENTIMENTS = ['positive', 'neutral', 'negative'] as const;
+export type CallSentiment = typeof CALL_SENTIMENTS[number];
+
+export const CALL_URGENCIES = ['low', 'medium', 'high'] as const;
+export type CallUrgency = typeof CALL_URGENCIES[number];
+
+export const FOLLOW_UP_ACTIONS = ['none', 'callback', 'confirm_reservation', 'other'] as const;
+export type FollowUpAction = typeof FOLLOW_UP_ACTIONS[number];
+
+/** What the caller told us (null = not mentioned) */
+export interface CallSummaryEntities {
+  customer_name: string | null;
+  visit_date: string | null;
+  visit_time: string | null;
+  party_size: number | null;
+  callback_number: string | null;
+  topic: string | null;
+}
+
+/** Saved as call_logs.summary_data (the enums also have their own columns) */
+export interface CallSummary {
+  headline: string;
+  category: CallCategory;
+  sentiment: CallSentiment;
+  urgency: CallUrgency;
+  follow_up_action: FollowUpAction;
+  follow_up_note: string | null;
+  notes: string[];
+  entities: CallSummaryEntities;
+}
+
+const ENTITY_KEYS = ['customer_name', 'visit_date', 'visit_time', 'party_size', 'callback_number', 'topic'] as const;
+
+const nullable = (type: string) => ({ type: [type, 'null'] });
+
+const CALL_SUMMARY_SCHEMA = {
+  type: 'object',
+  properties: {
+    headline: { type: 'string' },
+    category: { type: 'string', enum: CALL_CATEGORIES },
+    sentiment: { type: 'string', enum: CALL_SENTIMENTS },
+    urgency: { type: 'string', enum: CALL_URGENCIES },
+    follow_up_action: { type: 'string', enum: FOLLOW_UP_ACTIONS },
+    follow_up_note: nullable('string'),
+    notes: { type: 'array', items: { type: 'string' } },
+    entities: {
+      type: 'object',
+      properties: {
+        customer_name: nullable('string'),
+        visit_date: nullable('string'),
+        visit_time: nullable('string'),
+        party_size: nullable('integer'),
+        callback_number: nullable('string'),
+        topic: nullable('string'),
+      },
+      required: ENTITY_KEYS,
+      additionalProperties: false,
+    },
+  },
+  required: ['headline', 'category', 'sentiment', 'urgency', 'follow_up_action', 'follow_up_note', 'notes', 'entities'],
+  additionalProperties: false,
+};
+
+export interface CallSummaryResult {
+  /** null when the model output did not match the schema */
+  structured: CallSummary | null;
+  /** call_logs.summary: derived from `structured`, or the raw model output when it could not be parsed */
+  text: string;
+}
+
+/**
+ * Summarize a call transcript ("user: ...\nassistant: ...") with the summary model.
+ * Returns null when the request failed or came back empty (the call log is saved without a summary).
+ */
+export async function generateCallSummary(
+  openai: OpenAI,
+  model: string,
+  transcript: string,
+): Promise<CallSummaryResult | null> {
+  try {
+    const completion = await openai.chat.completions.create({
+      model,
+      messages: [
+        { role: 'developer', content: SUMMARY_SYSTEM_PROMPT },
+        { role: 'user', content: transcript },
+      ],
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'call_summary', strict: true, schema: CALL_SUMMARY_SCHEMA },
+      },
+      max_completion_tokens: 1000,
+    });
+
+    const content = completion.choices[0]?.message?.content?.trim();
+    if (!content) {
+      console.warn('⚠️ Summary generation returned empty content.');
+      return null;
+    }
+
+    const parsed = parseCallSummary(content);
+    if ('error' in parsed) {
+      console.warn(`⚠️ Summary did not match the schema (${parsed.error}), keeping it as free text`);
+      return { structured: null, text: content };
+    }
+    return { structured: parsed.value, text: formatSummaryText(parsed.value) };
+  } catch (err) {
+    console.error('⚠️ Failed to generate summary:', err);
+    return null;
+  }
+}
+
+const optionalString = (raw: unknown): string | null => {
+  return typeof raw === 'string' && raw.trim() !== '' ? raw.trim() : null;
+};
+
+/** Validate the summary JSON. Enums and the headline are required, entities and notes are best effort. */
+export function parseCallSummary(content: string): Parsed<CallSummary> {
+  let raw: any;
+  try {
+    raw = JSON.parse(content);
+  } catch {
+    return { error: 'not JSON' };
+  }
+  if (!raw || typeof raw !== 'object') {
+    return { error: 'not an object' };
+  }
+
+  const headline = optionalString(raw.headline);
+  if (!headline) {
+    return { error: 'headline is missing' };
+  }
+
+  const category = parseEnumSetting(raw.category, CALL_CATEGORIES);
+  if ('error' in category) return { error: `category ${category.error}` };
+  const sentiment = parseEnumSetting(raw.sentiment, CALL_SENTIMENTS);
+  if ('error' in sentiment) return { error: `sentiment ${sentiment.error}` };
+  const urgency = parseEnumSetting(raw.urgency, CALL_URGENCIES);
+  if ('error' in urgency) return { error: `urgency ${urgency.error}` };
+  const followUpAction = parseEnumSetting(raw.follow_up_action, FOLLOW_UP_ACTIONS);
+  if ('error' in followUpAction) return { error: `follow_up_action ${followUpAction.error}` };
+
+  const entities = raw.entities && typeof raw.entities === 'object' ? raw.entities : {};
+  const partySize = Number(entities.party_size);
+
+  return {
+    value: {
+      headline,
+      category: category.value,
+      sentiment: sentiment.value,
+      urgency: urgency.value,
+      follow_up_action: followUpAction.value,
+      follow_up_note: optionalString(raw.follow_up_note),
+      notes: Array.isArray(raw.notes) ? raw.notes.map(optionalString).filter((note: string | null): note is string => !!note) : [],
+      entities: {
+        customer_name: optionalString(entities.customer_name),
+        visit_date: optionalString(entities.visit_date),
+        visit_time: optionalString(entities.visit_time),
+        party_size: entities.party_size !== null && Number.isInteger(partySize) && partySize > 0 ? partySize : null,
+        callback_number: optionalString(entities.callback_number),
+        topic: optionalString(entities.topic),
+      },
+    },
+  };
+}
+
+/**
+ * call_logs.summary in the format the dashboard list already shows:
+ * 【予約】明日10時来店希望
+ * ・10時で予約確定が必要
+ */
+export function formatSummaryText(summary: CallSummary): string {
+  const headline = summary.headline.replace(/^【[^】]*】/, '');
+  return [`【${summary.category}】${headline}`, ...summary.notes.map(note => `・${note.replace(/^・/, '')}`)].join('\n');
+}
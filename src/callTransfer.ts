@@ -0,0 +1,116 @@
+import { Request, Response } from 'express';
+import { config } from './config';
+import { Storage } from './storage';
+import { getTwilioClient } from './twilioClient';
+import { buildCallbackUrl, escapeXml, sayAndHangupTwiml, twimlResponse, voicemailTwiml } from './twiml';
+
+const MAX_WHISPER_LENGTH = 200;
+
+export interface TransferRequest {
+  callSid: string;
+  /** Store staff number (E.164) */
+  forwardingNumber: string;
+  /** Short summary played to the staff member before the call is bridged */
+  whisperSummary: string;
+}
+
+/**
+ * Redirect a live call from the Media Stream to the store staff.
+ * The stream ends as soon as Twilio applies the new TwiML, so the handoff phrase is spoken by <Say>.
+ * If nobody answers, /transfer/status falls back to voicemail.
+ */
+export async function transferCallToStaff(request: TransferRequest): Promise<void> {
+  const client = getTwilioClient();
+  if (!client) {
+    throw new Error('Twilio REST client is not configured');
+  }
+
+  const whisperUrl = buildCallbackUrl('/transfer/whisper', {
+    summary: request.whisperSummary.slice(0, MAX_WHISPER_LENGTH),
+  });
+  const statusUrl = buildCallbackUrl('/transfer/status');
+
+  const twiml = twimlResponse(`  <Say language="ja-JP">担当者にお繋ぎします。少々お待ちください。</Say>
+  <Dial timeout="${config.transferDialTimeoutSeconds}" action="${escapeXml(statusUrl)}">
+    <Number url="${escapeXml(whisperUrl)}">${escapeXml(request.forwardingNumber)}</Number>
+  </Dial>`);
+
+  await client.calls(request.callSid).update({ twiml });
+  console.log(`📲 Call ${request.callSid} redirected to staff`);
+}
+
+/**
+ * Replace the live call (Media Stream) with voicemail recording.
+ * Used when the AI cannot continue the call (e.g. OpenAI Realtime is unreachable).
+ */
+export async function redirectCallToVoicemail(callSid: string, intro: string): Promise<void> {
+  const client = getTwilioClient();
+  if (!client) {
+    throw new Error('Twilio REST client is not configured');
+  }
+
+  await client.calls(callSid).update({ twiml: voicemailTwiml(intro) });
+  console.log(`📼 Call ${callSid} redirected to voicemail`);
+}
+
+/**
+ * Hang up a live call from the server side (e.g. after the AI said goodbye on a timeout).
+ */
+export async function hangUpCall(callSid: string): Promise<void> {
+  const client = getTwilioClient();
+  if (!client) {
+    throw new Error('Twilio REST client is not configured');
+  }
+
+  await client.calls(callSid).update({ status: 'completed' });
+  console.log(`📴 Call ${callSid} hung up`);
+}
+
+/**
+ * POST /transfer/whisper
+ * Played to the staff member only (before bridging).
+ */
+export const handleTransferWhisper = (req: Request, res: Response) => {
+  const summary = typeof req.query.summary === 'string' ? req.query.summary : '';
+  const message = summary
+    ? `AI受付からの転送です。用件は、${summary}。`
+    : 'AI受付からの転送です。';
+  res.type('text/xml').send(twimlResponse(`  <Say language="ja-JP">${escapeXml(message)}</Say>`));
+};
+
+/**
+ * POST /transfer/status (<Dial action>)
+ * Staff answered -> end after the bridged call. Otherwise -> voicemail.
+ */
+export const handleTransferStatus = (req: Request, res: Response) => {
+  const dialStatus = req.body.DialCallStatus;
+  console.log(`📲 Transfer dial status for ${req.body.CallSid}: ${dialStatus}`);
+
+  if (dialStatus === 'completed') {
+    res.type('text/xml').send(twimlResponse('  <Hangup/>'));
+    return;
+  }
+
+  res.type('text/xml').send(voicemailTwiml());
+};
+
+/**
+ * POST /voicemail/complete (<Record action>)
+ * Stores the recording URL on the call log of this call.
+ */
+export const createVoicemailCompleteHandler = (storage: Storage) => async (req: Request, res: Response) => {
+  const callSid = req.body.CallSid;
+  const recordingUrl = req.body.RecordingUrl;
+  const recordingDuration = parseInt(req.body.RecordingDuration ?? '0', 10);
+
+  if (callSid && recordingUrl && recordingDuration > 0) {
+    try {
+      await storage.callLogs.updateByCallSid(callSid, { voicemail_recording_url: recordingUrl });
+      console.log(`📼 Voicemail recorded for ${callSid} (${recordingDuration}s)`);
+    } catch (err) {
+      console.error('❌ Failed to save voicemail recording URL:', err);
+    }
+  }
+
+  res.type('text/xml').send(sayAndHangupTwiml('メッセージを承りました。担当者より折り返しご連絡いたします。'));
+};
@@ -1,14 +1,27 @@
 import dotenv from 'dotenv';
 import path from 'path';
 import crypto from 'crypto';
+import {
+  ConfigError,
+  NumberRule,
+  Parsed,
+  parseFlagSetting,
+  parseNumberSetting,
+  parseUrlSetting,
+  REALTIME_TUNING_SETTINGS,
+  RealtimeTuning,
+} from './configSchema';
 
 dotenv.config();
 
+// Every invalid / missing variable is collected and reported together at the end of this module
+const configErrors: string[] = [];
 
 const requiredEnv = (key: string, defaultValue?: string): string => {
   const value = process.env[key] ?? defaultValue;
   if (!value) {
-    throw new Error(`Environment variable ${key} is required`);
+    configErrors.push(`${key} is required`);
+    return '';
   }
   return value;
 };
@@ -17,21 +30,55 @@ const optionalEnv = (key: string, defaultValue?: string): string | undefined =>
   return process.env[key] || defaultValue;
 };
 
+/** Env value checked against a rule of src/configSchema.ts (falls back to the default after recording the error) */
+const parsedEnv = <T>(key: string, defaultValue: string, parse: (raw: unknown) => Parsed<T>): T => {
+  const result = parse(optionalEnv(key, defaultValue));
+  if ('error' in result) {
+    configErrors.push(`${key} ${result.error}`);
+    return (parse(defaultValue) as { value: T }).value;
+  }
+  return result.value;
+};
+
+const intEnv = (key: string, defaultValue: string, rule: NumberRule = {}) =>
+  parsedEnv(key, defaultValue, (raw) => parseNumberSetting(raw, { ...rule, integer: true }));
+const numberEnv = (key: string, defaultValue: string, rule: NumberRule = {}) =>
+  parsedEnv(key, defaultValue, (raw) => parseNumberSetting(raw, rule));
+const flagEnv = (key: string, defaultValue: '0' | '1') => parsedEnv(key, defaultValue, parseFlagSetting);
+const urlEnv = (key: string, defaultValue: string, protocols: string[]) =>
+  parsedEnv(key, defaultValue, (raw) => parseUrlSetting(raw, protocols));
+const tuningEnv = <K extends keyof RealtimeTuning>(field: K, defaultValue: string): RealtimeTuning[K] =>
+  parsedEnv(REALTIME_TUNING_SETTINGS[field].env, defaultValue, REALTIME_TUNING_SETTINGS[field].parse);
+
+// Storage backend: 'supabase' (default) or 'memory' (offline development / tests)
+const storageBackend = optionalEnv('STORAGE_BACKEND', 'supabase') as 'supabase' | 'memory';
+if (storageBackend !== 'supabase' && storageBackend !== 'memory') {
+  configErrors.push(`STORAGE_BACKEND must be "supabase" or "memory" (got "${storageBackend}")`);
+}
+
 export const config = {
   // PORT: Cloud Run が自動的に注入する環境変数を優先
   // ローカル開発時は未設定の場合のみ 3100 にフォールバック
-  port: parseInt(requiredEnv('PORT', '3100'), 10),
+  port: intEnv('PORT', '3100', { min: 1, max: 65535 }),
   publicUrl: requiredEnv('PUBLIC_URL'), // Required for callback URLs
   webAppUrl: requiredEnv('WEB_APP_URL'), // Required for dashboard link
   openAiApiKey: requiredEnv('OPENAI_API_KEY'),
-  openAiRealtimeModel: requiredEnv('OPENAI_REALTIME_MODEL', 'gpt-realtime'),
+  openAiRealtimeModel: tuningEnv('model', 'gpt-realtime'),
   openAiSummaryModel: requiredEnv('OPENAI_MODEL_MINI', 'gpt-5-mini'),
-  openAiRealtimeVoice: requiredEnv('OPENAI_REALTIME_VOICE', 'marin'),
+  openAiRealtimeVoice: tuningEnv('voice', 'marin'),
+  // Endpoint overrides (e.g. the offline call simulator in test/simulator)
+  openAiRealtimeUrl: urlEnv('OPENAI_REALTIME_URL', 'wss://api.openai.com/v1/realtime', ['ws:', 'wss:']),
+  openAiBaseUrl: optionalEnv('OPENAI_BASE_URL'),
+  openAiTtsModel: requiredEnv('OPENAI_TTS_MODEL', 'gpt-4o-mini-tts'), // Filler audio while reconnecting
   logDir: requiredEnv('LOG_DIR', path.join(process.cwd(), 'call_logs')),
-  twilioAuthToken: requiredEnv('TWILIO_AUTH_TOKEN', ''), // Used? If empty, make sure it doesn't break unless used. Kept as required-ish with default empty for now if code depends on it being string.
+  twilioAuthToken: requiredEnv('TWILIO_AUTH_TOKEN', ''), // Webhook signature validation + stream token signing (empty = all Twilio requests rejected while validation is ON)
   twilioAccountSid: requiredEnv('TWILIO_ACCOUNT_SID', ''),
-  supabaseUrl: requiredEnv('SUPABASE_URL'),
-  supabaseServiceRoleKey: requiredEnv('SUPABASE_SERVICE_ROLE_KEY'),
+  twilioApiBaseUrl: optionalEnv('TWILIO_API_BASE_URL'), // REST endpoint override (e.g. the call simulator)
+  storageBackend,
+  memoryStorageSeedFile: optionalEnv('MEMORY_STORAGE_SEED_FILE'),
+  // Supabase credentials are only required for the supabase storage backend
+  supabaseUrl: storageBackend === 'supabase' ? requiredEnv('SUPABASE_URL') : optionalEnv('SUPABASE_URL', 'http://localhost:54321')!,
+  supabaseServiceRoleKey: storageBackend === 'supabase' ? requiredEnv('SUPABASE_SERVICE_ROLE_KEY') : optionalEnv('SUPABASE_SERVICE_ROLE_KEY', 'memory')!,
 
   // Optional / Future
   stripeSecretKey: optionalEnv('STRIPE_SECRET_KEY'),
@@ -39,7 +86,7 @@ export const config = {
 
   // Notification (Email / LINE) - All Optional
   smtpHost: optionalEnv('SMTP_HOST'),
-  smtpPort: parseInt(optionalEnv('SMTP_PORT', '587')!, 10),
+  smtpPort: intEnv('SMTP_PORT', '587', { min: 1, max: 65535 }),
   smtpUser: optionalEnv('SMTP_USER'),
   smtpPass: optionalEnv('SMTP_PASS'),
   emailFrom: optionalEnv('EMAIL_FROM'),
@@ -49,29 +96,78 @@ export const config = {
 
 
   // Debug Observability Flags (default OFF)
-  debugRealtimeEvents: optionalEnv('DEBUG_REALTIME_EVENTS') === '1',
-  debugTwilioMedia: optionalEnv('DEBUG_TWILIO_MEDIA') === '1',
-  debugMediaSamples: parseInt(optionalEnv('DEBUG_MEDIA_SAMPLES', '5')!, 10),
-  debugRealtimeSummaryIntervalMs: parseInt(optionalEnv('DEBUG_REALTIME_SUMMARY_INTERVAL_MS', '5000')!, 10),
-  debugTiming: optionalEnv('DEBUG_TIMING') === '1',
-  debugMarkEvents: optionalEnv('DEBUG_MARK_EVENTS') === '1',
+  debugRealtimeEvents: flagEnv('DEBUG_REALTIME_EVENTS', '0'),
+  debugTwilioMedia: flagEnv('DEBUG_TWILIO_MEDIA', '0'),
+  debugMediaSamples: intEnv('DEBUG_MEDIA_SAMPLES', '5', { min: 0 }),
+  debugRealtimeSummaryIntervalMs: intEnv('DEBUG_REALTIME_SUMMARY_INTERVAL_MS', '5000', { min: 100 }),
+  debugTiming: flagEnv('DEBUG_TIMING', '0'),
+  debugMarkEvents: flagEnv('DEBUG_MARK_EVENTS', '0'),
 
   // Feature Flags (Rollback Switches) - default ON
-  enableBase64Passthrough: optionalEnv('ENABLE_BASE64_PASSTHROUGH', '1') === '1',
-  enableSmartCancel: optionalEnv('ENABLE_SMART_CANCEL', '1') === '1',
+  enableBase64Passthrough: flagEnv('ENABLE_BASE64_PASSTHROUGH', '1'),
+  enableSmartCancel: flagEnv('ENABLE_SMART_CANCEL', '1'),
+  enableTwilioSignatureValidation: flagEnv('ENABLE_TWILIO_SIGNATURE_VALIDATION', '1'),
+  enableRealtimeReconnect: flagEnv('ENABLE_REALTIME_RECONNECT', '1'),
+  enableLanguageDetection: flagEnv('ENABLE_LANGUAGE_DETECTION', '1'),
+  enableReservationRecovery: flagEnv('ENABLE_RESERVATION_RECOVERY', '1'),
+
+  // OpenAI Realtime reconnection (backoff: base, 2x base, 4x base, ...)
+  realtimeReconnectMaxAttempts: intEnv('REALTIME_RECONNECT_MAX_ATTEMPTS', '3', { min: 0, max: 10 }),
+  realtimeReconnectBaseDelayMs: intEnv('REALTIME_RECONNECT_BASE_DELAY_MS', '500', { min: 0 }),
+  // A connect (or reconnect attempt) fails if the WebSocket upgrade does not complete in time
+  realtimeHandshakeTimeoutMs: intEnv('REALTIME_HANDSHAKE_TIMEOUT_MS', '10000', { min: 100 }),
+
+  // Twilio stream token (signed <Parameter> checked on /twilio-media start)
+  twilioStreamTokenExpirySeconds: intEnv('TWILIO_STREAM_TOKEN_EXPIRY_SECONDS', '60', { min: 1 }),
 
   // VAD tuning (lower = faster response, but more interruptions)
-  vadThreshold: parseFloat(optionalEnv('VAD_THRESHOLD', '0.8')!),
-  vadSilenceDurationMs: parseInt(optionalEnv('VAD_SILENCE_DURATION_MS', '700')!, 10),
+  vadThreshold: tuningEnv('vadThreshold', '0.8'),
+  vadSilenceDurationMs: tuningEnv('vadSilenceDurationMs', '700'),
 
   // Barge-in debounce settings (noise filtering)
-  bargeInDebounceMs: parseInt(optionalEnv('BARGE_IN_DEBOUNCE_MS', '1000')!, 10),
-  bargeInMinRemainMs: parseInt(optionalEnv('BARGE_IN_MIN_REMAIN_MS', '2000')!, 10),
+  bargeInDebounceMs: tuningEnv('bargeInDebounceMs', '1000'),
+  bargeInMinRemainMs: tuningEnv('bargeInMinRemainMs', '2000'),
+
+  // Call timeouts (0 = disabled), overridable per tenant via config_metadata
+  callIdleTimeoutSeconds: numberEnv('CALL_IDLE_TIMEOUT_SECONDS', '15', { min: 0 }),
+  callMaxDurationSeconds: numberEnv('CALL_MAX_DURATION_SECONDS', '900', { min: 0 }),
+
+  // Latest bookable date = today (JST) + N days, overridable per tenant via config_metadata.booking_horizon_days
+  bookingHorizonDays: intEnv('BOOKING_HORIZON_DAYS', '60', { min: 1 }),
+
+  // Tenant config cache (profiles / user_prompts / reservation_form_fields / business hours), 0 = disabled
+  tenantConfigCacheTtlSeconds: numberEnv('TENANT_CONFIG_CACHE_TTL_SECONDS', '60', { min: 0 }),
+
+  // Operator API (/admin/*), disabled when unset
+  adminApiToken: optionalEnv('ADMIN_API_TOKEN'),
+  metricsToken: optionalEnv('METRICS_TOKEN'),
+
+  // SMS to callers (reservation receipt / decision)
+  twilioSmsFrom: optionalEnv('TWILIO_SMS_FROM'),
+  enableReservationSms: flagEnv('ENABLE_RESERVATION_SMS', '1'),
+
+  // Live transfer to staff (transfer_to_staff tool)
+  transferDialTimeoutSeconds: intEnv('TRANSFER_DIAL_TIMEOUT_SECONDS', '20', { min: 5, max: 600 }),
+  voicemailMaxLengthSeconds: intEnv('VOICEMAIL_MAX_LENGTH_SECONDS', '120', { min: 1, max: 14400 }),
 
   // Web Demo Authentication
   webDemoSharedSecret: optionalEnv('WEB_DEMO_SHARED_SECRET'),
-  webDemoTokenExpirySeconds: parseInt(optionalEnv('WEB_DEMO_TOKEN_EXPIRY_SECONDS', '300')!, 10),
-  webDemoMaxSessionMinutes: parseInt(optionalEnv('WEB_DEMO_MAX_SESSION_MINUTES', '5')!, 10),
+  webDemoTokenExpirySeconds: intEnv('WEB_DEMO_TOKEN_EXPIRY_SECONDS', '300', { min: 1 }),
+  webDemoMaxSessionMinutes: intEnv('WEB_DEMO_MAX_SESSION_MINUTES', '5', { min: 1 }),
+};
+
+if (configErrors.length > 0) {
+  throw new ConfigError(configErrors);
+}
+
+/** Process-wide Realtime settings, overridable per tenant via config_metadata (resolveRealtimeTuning) */
+export const defaultRealtimeTuning: RealtimeTuning = {
+  model: config.openAiRealtimeModel,
+  voice: config.openAiRealtimeVoice,
+  vadThreshold: config.vadThreshold,
+  vadSilenceDurationMs: config.vadSilenceDurationMs,
+  bargeInDebounceMs: config.bargeInDebounceMs,
+  bargeInMinRemainMs: config.bargeInMinRemainMs,
 };
 
 type Config = typeof config;
@@ -0,0 +1,154 @@
+/**
+ * Setting rules shared by the process config (env, src/config.ts) and the per-tenant
+ * overrides in user_prompts.config_metadata. Parsers return an error message instead of
+ * throwing, so that every invalid value can be reported at once.
+ */
+
+export type Parsed<T> = { value: T } | { error: string };
+
+export interface NumberRule {
+  integer?: boolean;
+  min?: number;
+  max?: number;
+}
+
+/** Thrown at startup with every invalid or missing environment variable */
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid configuration:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+/** Strict number: "0.8" / 0.8 are fine, "0,8", "700ms" and "" are not (parseFloat would silently accept or give NaN) */
+export function parseNumberSetting(raw: unknown, rule: NumberRule = {}): Parsed<number> {
+  const value = typeof raw === 'number' ? raw
+    : typeof raw === 'string' && raw.trim() !== '' ? Number(raw.trim())
+      : NaN;
+  if (!Number.isFinite(value)) {
+    return { error: `must be a number (got ${JSON.stringify(raw)})` };
+  }
+  if (rule.integer && !Number.isInteger(value)) {
+    return { error: `must be an integer (got ${JSON.stringify(raw)})` };
+  }
+  if (rule.min !== undefined && value < rule.min) {
+    return { error: `must be >= ${rule.min} (got ${value})` };
+  }
+  if (rule.max !== undefined && value > rule.max) {
+    return { error: `must be <= ${rule.max} (got ${value})` };
+  }
+  return { value };
+}
+
+/** Feature flags are "1" (on) or "0" (off) */
+export function parseFlagSetting(raw: unknown): Parsed<boolean> {
+  const value = String(raw ?? '').trim();
+  if (value === '1' || value === '0') {
+    return { value: value === '1' };
+  }
+  return { error: `must be "1" or "0" (got ${JSON.stringify(raw)})` };
+}
+
+export function parseEnumSetting<T extends string>(raw: unknown, values: readonly T[]): Parsed<T> {
+  if (typeof raw === 'string' && values.includes(raw as T)) {
+    return { value: raw as T };
+  }
+  return { error: `must be one of ${values.join(', ')} (got ${JSON.stringify(raw)})` };
+}
+
+export function parseUrlSetting(raw: unknown, protocols: readonly string[]): Parsed<string> {
+  try {
+    const url = new URL(String(raw));
+    if (protocols.includes(url.protocol)) {
+      return { value: String(raw) };
+    }
+  } catch {
+    // fall through
+  }
+  return { error: `must be a ${protocols.join(' / ')} URL (got ${JSON.stringify(raw)})` };
+}
+
+/** Model names end up in the Realtime WebSocket URL */
+export function parseModelSetting(raw: unknown): Parsed<string> {
+  if (typeof raw === 'string' && /^[A-Za-z0-9._-]+$/.test(raw)) {
+    return { value: raw };
+  }
+  return { error: `must be a model name (got ${JSON.stringify(raw)})` };
+}
+
+// ================== Realtime tuning (env default + per-tenant override) ==================
+
+export const REALTIME_VOICES = ['alloy', 'ash', 'ballad', 'coral', 'echo', 'sage', 'shimmer', 'verse', 'marin', 'cedar'] as const;
+export type RealtimeVoice = typeof REALTIME_VOICES[number];
+
+/** Per-call audio settings: background noise differs a lot between stores */
+export interface RealtimeTuning {
+  model: string;
+  voice: RealtimeVoice;
+  vadThreshold: number;
+  vadSilenceDurationMs: number;
+  bargeInDebounceMs: number;
+  bargeInMinRemainMs: number;
+}
+
+interface TuningSetting<T> {
+  env: string;
+  metadataKey: string;
+  parse: (raw: unknown) => Parsed<T>;
+}
+
+export const REALTIME_TUNING_SETTINGS: { [K in keyof RealtimeTuning]: TuningSetting<RealtimeTuning[K]> } = {
+  model: { env: 'OPENAI_REALTIME_MODEL', metadataKey: 'realtime_model', parse: parseModelSetting },
+  voice: { env: 'OPENAI_REALTIME_VOICE', metadataKey: 'voice', parse: (raw) => parseEnumSetting(raw, REALTIME_VOICES) },
+  vadThreshold: { env: 'VAD_THRESHOLD', metadataKey: 'vad_threshold', parse: (raw) => parseNumberSetting(raw, { min: 0, max: 1 }) },
+  vadSilenceDurationMs: {
+    env: 'VAD_SILENCE_DURATION_MS',
+    metadataKey: 'vad_silence_duration_ms',
+    parse: (raw) => parseNumberSetting(raw, { integer: true, min: 100, max: 5000 }),
+  },
+  bargeInDebounceMs: {
+    env: 'BARGE_IN_DEBOUNCE_MS',
+    metadataKey: 'barge_in_debounce_ms',
+    parse: (raw) => parseNumberSetting(raw, { integer: true, min: 0, max: 10000 }),
+  },
+  bargeInMinRemainMs: {
+    env: 'BARGE_IN_MIN_REMAIN_MS',
+    metadataKey: 'barge_in_min_remain_ms',
+    parse: (raw) => parseNumberSetting(raw, { integer: true, min: 0, max: 60000 }),
+  },
+};
+
+export interface ResolvedTuning {
+  tuning: RealtimeTuning;
+  /** config_metadata keys that replaced the env default */
+  overridden: string[];
+  /** Invalid overrides (ignored, the env default is used) */
+  errors: string[];
+}
+
+/**
+ * Layer config_metadata overrides on top of the process defaults.
+ * An invalid override never fails the call: it is reported and the default is kept.
+ */
+export function resolveRealtimeTuning(defaults: RealtimeTuning, metadata: Record<string, unknown> | null | undefined): ResolvedTuning {
+  const overrides: Partial<RealtimeTuning> = {};
+  const overridden: string[] = [];
+  const errors: string[] = [];
+
+  const applyOverride = <K extends keyof RealtimeTuning>(field: K) => {
+    const setting = REALTIME_TUNING_SETTINGS[field];
+    const raw = metadata?.[setting.metadataKey];
+    if (raw === undefined || raw === null || raw === '') return;
+
+    const parsed = setting.parse(raw);
+    if ('error' in parsed) {
+      errors.push(`config_metadata.${setting.metadataKey} ${parsed.error}`);
+    } else {
+      overrides[field] = parsed.value;
+      overridden.push(setting.metadataKey);
+    }
+  };
+  (Object.keys(REALTIME_TUNING_SETTINGS) as (keyof RealtimeTuning)[]).forEach(applyOverride);
+
+  return { tuning: { ...defaults, ...overrides }, overridden, errors };
+}
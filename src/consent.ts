@@ -0,0 +1,200 @@
+import OpenAI from 'openai';
+
+/**
+ * Reservation consent: the confirmation step before finalize_reservation.
+ *
+ * idle --request_confirmation--> awaiting --confirm--> confirmed --finalize--> finalized
+ *                                  |  ^
+ *            correct / decline ----+  +---- unclear (keep waiting)
+ *            (back to idle)
+ *
+ * The caller's reply is classified by a small model (intent + corrections) instead of keyword matching,
+ * so "はい、でも時間は8時で" is a correction and English callers are understood.
+ * Every step is kept in `audit` and saved on the reservation (confirmation_audit).
+ */
+
+export type ConsentState = 'idle' | 'awaiting' | 'confirmed' | 'finalized';
+
+export type ConsentIntent = 'confirm' | 'correct' | 'decline' | 'unclear';
+
+export interface ConsentCorrection {
+  /** field_key of the reservation form (or a short description when it does not match a field) */
+  field: string;
+  value: string;
+}
+
+export interface ConsentClassification {
+  intent: ConsentIntent;
+  corrections: ConsentCorrection[];
+}
+
+export interface ConsentAuditEntry {
+  at: string;
+  type: 'requested' | 'reply' | 'finalized';
+  /** State after this entry */
+  state: ConsentState;
+  /** requested: read-back sentence and the answers it covers */
+  summary?: string;
+  answers?: Record<string, any>;
+  /** reply: caller's words and how they were classified */
+  text?: string;
+  intent?: ConsentIntent;
+  corrections?: ConsentCorrection[];
+  /** finalized: reservation_requests.id */
+  reservation_id?: string;
+}
+
+export interface ConsentRequest {
+  id: number;
+  summary: string;
+  answers: Record<string, any>;
+}
+
+const CLASSIFICATION_SCHEMA = {
+  type: 'object',
+  properties: {
+    intent: { type: 'string', enum: ['confirm', 'correct', 'decline', 'unclear'] },
+    corrections: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          field: { type: 'string' },
+          value: { type: 'string' },
+        },
+        required: ['field', 'value'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['intent', 'corrections'],
+  additionalProperties: false,
+};
+
+const CLASSIFIER_PROMPT = `You classify a phone caller's reply to a restaurant reservation confirmation ("Shall I send this to the store?").
+The reply may be in any language. Output JSON only.
+- confirm: the caller agrees without changing anything (はい / お願いします / yes / sounds good)
+- correct: the caller agrees or answers but changes or adds something (e.g. 「はい、でも時間は8時で」). List every change in corrections, using the field keys of the answers when possible
+- decline: the caller does not want to send the reservation (いいえ / やめておきます / no / cancel)
+- unclear: unrelated, a question, or too short to decide (e.g. 「えっと」「ちょっと待って」)
+corrections must be empty unless intent is correct.`;
+
+/**
+ * Classify the caller's reply with the mini model.
+ * Errors and malformed output are reported as unclear (the model simply asks again).
+ */
+export async function classifyConsentReply(
+  openai: OpenAI,
+  model: string,
+  request: ConsentRequest,
+  reply: string,
+): Promise<ConsentClassification> {
+  try {
+    const completion = await openai.chat.completions.create({
+      model,
+      messages: [
+        { role: 'developer', content: CLASSIFIER_PROMPT },
+        {
+          role: 'user',
+          content: JSON.stringify({ read_back: request.summary, answers: request.answers, caller_reply: reply }),
+        },
+      ],
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'consent_classification', strict: true, schema: CLASSIFICATION_SCHEMA },
+      },
+      max_completion_tokens: 500,
+    });
+    return parseClassification(completion.choices[0]?.message?.content);
+  } catch (err) {
+    console.error('⚠️ [Consent] Classification failed, treating reply as unclear:', err);
+    return { intent: 'unclear', corrections: [] };
+  }
+}
+
+/** Validate the classifier JSON (anything unexpected -> unclear) */
+export function parseClassification(content: string | null | undefined): ConsentClassification {
+  try {
+    const parsed = JSON.parse(content ?? '');
+    const intent: ConsentIntent = ['confirm', 'correct', 'decline', 'unclear'].includes(parsed?.intent) ? parsed.intent : 'unclear';
+    const corrections: ConsentCorrection[] = Array.isArray(parsed?.corrections)
+      ? parsed.corrections
+        .filter((c: any) => typeof c?.field === 'string' && c.value !== undefined && c.value !== null)
+        .map((c: any) => ({ field: c.field, value: String(c.value) }))
+      : [];
+    return { intent, corrections };
+  } catch {
+    return { intent: 'unclear', corrections: [] };
+  }
+}
+
+/**
+ * Explicit consent state for one call. No I/O: the session classifies replies and feeds the result in.
+ */
+export class ConsentStateMachine {
+  private _state: ConsentState = 'idle';
+  private _request?: ConsentRequest;
+  private requestSeq = 0;
+  readonly audit: ConsentAuditEntry[] = [];
+
+  constructor(private readonly now: () => Date = () => new Date()) {}
+
+  get state(): ConsentState {
+    return this._state;
+  }
+
+  /** The confirmation currently asked (undefined when idle) */
+  get request(): ConsentRequest | undefined {
+    return this._state === 'idle' ? undefined : this._request;
+  }
+
+  /** request_confirmation: the assistant is about to read back `summary` and ask for consent */
+  requestConfirmation(summary: string, answers: Record<string, any>): ConsentRequest {
+    this.requestSeq++;
+    this._request = { id: this.requestSeq, summary, answers };
+    this._state = 'awaiting';
+    this.record({ type: 'requested', summary, answers });
+    return this._request;
+  }
+
+  /**
+   * Apply the classified reply to confirmation `requestId`.
+   * Returns the resulting intent, or undefined when the reply is stale
+   * (a newer confirmation was requested or the state moved on while classifying).
+   */
+  applyReply(requestId: number, text: string, classification: ConsentClassification): ConsentIntent | undefined {
+    if (this._state !== 'awaiting' || this._request?.id !== requestId) {
+      return undefined;
+    }
+    // "はい、でも時間は8時で" is a correction even if the classifier calls it a confirmation
+    const intent: ConsentIntent = classification.intent === 'confirm' && classification.corrections.length > 0
+      ? 'correct'
+      : classification.intent;
+
+    if (intent === 'confirm') {
+      this._state = 'confirmed';
+    } else if (intent === 'correct' || intent === 'decline') {
+      this._state = 'idle';
+    }
+    this.record({ type: 'reply', text, intent, corrections: classification.corrections });
+    return intent;
+  }
+
+  /**
+   * finalize_reservation may run only after an explicit confirmation.
+   * Retries after the reservation was saved are allowed (they are deduped by call_sid).
+   */
+  canFinalize(): boolean {
+    return this._state === 'confirmed' || this._state === 'finalized';
+  }
+
+  markFinalized(reservationId?: string): void {
+    if (this._state !== 'confirmed') return;
+    this._state = 'finalized';
+    this.record({ type: 'finalized', reservation_id: reservationId });
+  }
+
+  private record(entry: Omit<ConsentAuditEntry, 'at' | 'state'>): void {
+    this.audit.push({ at: this.now().toISOString(), state: this._state, ...entry });
+  }
+}
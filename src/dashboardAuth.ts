@@ -0,0 +1,37 @@
+import { Request } from 'express';
+import { Storage } from './storage';
+
+export interface DashboardUser {
+    userId: string;
+}
+
+/**
+ * Resolve a store owner from a Supabase access token (issued to the dashboard by Supabase Auth).
+ * The returned userId is the tenant id (profiles.id).
+ */
+export async function authenticateDashboardToken(storage: Storage, token: string | null | undefined): Promise<DashboardUser | null> {
+    if (!token) {
+        return null;
+    }
+
+    try {
+        const userId = await storage.dashboardAuth.findUserIdByAccessToken(token);
+        if (!userId) {
+            console.warn('⚠️ Dashboard token rejected');
+            return null;
+        }
+        return { userId };
+    } catch (err) {
+        console.error('❌ Failed to validate dashboard token:', err);
+        return null;
+    }
+}
+
+/**
+ * Authenticate an API request from the dashboard (Authorization: Bearer <Supabase access token>).
+ */
+export async function authenticateDashboardRequest(storage: Storage, req: Request): Promise<DashboardUser | null> {
+    const header = req.header('Authorization') ?? '';
+    const match = header.match(/^Bearer\s+(.+)$/i);
+    return authenticateDashboardToken(storage, match?.[1]);
+}
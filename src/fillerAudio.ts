@@ -0,0 +1,73 @@
+import OpenAI from 'openai';
+import { config } from './config';
+
+/** Spoken to the caller while the OpenAI Realtime connection is being re-established */
+export const RECONNECT_FILLER_TEXT = '少々お待ちください。';
+
+/** OpenAI TTS `pcm` output: 24kHz, 16-bit signed little-endian, mono */
+const TTS_SAMPLE_RATE = 24000;
+const TWILIO_SAMPLE_RATE = 8000;
+
+const MULAW_BIAS = 0x84;
+const MULAW_CLIP = 32635;
+
+let fillerAudio: Promise<string | null> | undefined;
+
+/**
+ * G.711 µ-law encoding of one 16-bit linear PCM sample.
+ */
+export function linearToMulaw(sample: number): number {
+  const sign = sample < 0 ? 0x80 : 0;
+  const magnitude = Math.min(Math.abs(sample), MULAW_CLIP) + MULAW_BIAS;
+  let exponent = 7;
+  for (let mask = 0x4000; (magnitude & mask) === 0 && exponent > 0; mask >>= 1) {
+    exponent--;
+  }
+  const mantissa = (magnitude >> (exponent + 3)) & 0x0f;
+  return ~(sign | (exponent << 4) | mantissa) & 0xff;
+}
+
+/**
+ * 24kHz 16-bit PCM -> 8kHz µ-law (Twilio Media Streams format).
+ * Downsamples by averaging each group of 3 samples (cheap low-pass).
+ */
+export function pcm24kToMulaw8k(pcm: Buffer): Buffer {
+  const ratio = TTS_SAMPLE_RATE / TWILIO_SAMPLE_RATE;
+  const inputSamples = Math.floor(pcm.length / 2);
+  const out = Buffer.alloc(Math.floor(inputSamples / ratio));
+  for (let i = 0; i < out.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < ratio; j++) {
+      sum += pcm.readInt16LE((i * ratio + j) * 2);
+    }
+    out[i] = linearToMulaw(Math.round(sum / ratio));
+  }
+  return out;
+}
+
+async function synthesizeFiller(): Promise<string> {
+  const openai = new OpenAI({ apiKey: config.openAiApiKey, baseURL: config.openAiBaseUrl });
+  const response = await openai.audio.speech.create({
+    model: config.openAiTtsModel,
+    voice: config.openAiRealtimeVoice,
+    input: RECONNECT_FILLER_TEXT,
+    response_format: 'pcm',
+  });
+  const pcm = Buffer.from(await response.arrayBuffer());
+  return pcm24kToMulaw8k(pcm).toString('base64');
+}
+
+/**
+ * Base64 µ-law audio of RECONNECT_FILLER_TEXT (synthesized once per process and cached).
+ * Resolves to null when synthesis failed; the next call retries.
+ */
+export function getReconnectFillerAudio(): Promise<string | null> {
+  if (!fillerAudio) {
+    fillerAudio = synthesizeFiller().catch((err) => {
+      console.warn('⚠️ Failed to synthesize reconnect filler audio:', err?.message ?? err);
+      fillerAudio = undefined;
+      return null;
+    });
+  }
+  return fillerAudio;
+}
@@ -1,511 +1,7 @@
-import express from 'express';
-import http from 'http';
-import WebSocket, { WebSocketServer } from 'ws';
-import bodyParser from 'body-parser';
-import { createClient } from '@supabase/supabase-js';
 import { config } from './config';
-import { createLogFilePath, writeLog } from './logging';
-import { TwilioMediaMessage } from './types';
+import { server, wss, webDemoWss, monitorWss } from './server';
 
-import { RealtimeSession } from './realtimeSession';
-import { DebugObserver } from './debugObserver';
-import { validateWebDemoToken } from './webDemoAuth';
-
-import { middleware as lineMiddleware } from '@line/bot-sdk';
-import { handleLineWebhook } from './lineWebhook';
-
-const app = express();
-
-// LINE Webhook: Must be before global body parser to handle raw body signature validation
-if (config.lineChannelAccessToken && config.lineChannelSecret) {
-  app.post('/line/webhook', lineMiddleware({
-    channelAccessToken: config.lineChannelAccessToken,
-    channelSecret: config.lineChannelSecret,
-  }), handleLineWebhook);
-  console.log('✅ LINE Webhook registered');
-} else {
-  console.log('ℹ️ LINE Webhook skipped (Missing credentials)');
-}
-
-app.use(bodyParser.urlencoded({ extended: false }));
-app.use(bodyParser.json());
-
-const server = http.createServer(app);
-
-/** 接続中の Media Stream コンテキスト */
-interface CallContext {
-  streamSid: string;
-  logFile: string;
-  realtime?: RealtimeSession;
-  twilioSocket?: WebSocket;
-  debugObserver?: DebugObserver;
-}
-
-const calls = new Map<string, CallContext>();
-
-// Health check endpoint for Railway monitoring
-app.get('/health', (req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
-});
-
-app.post('/incoming-call-realtime', async (req, res) => {
-  console.log('📞 incoming call');
-
-  if (process.env.NODE_ENV === 'development') {
-    console.log('---------- DEBUG START ----------');
-    console.log('Request Body:', JSON.stringify(req.body, null, 2));
-    console.log('To Parameter:', req.body.To || req.body.to);
-    console.log('---------- DEBUG END   ----------');
-  }
-
-  const to = req.body.To;
-  const from = req.body.From;
-
-  // --- Phase 3: Subscription Check Start ---
-  let userId: string | undefined;
-  try {
-    const supabase = createClient(config.supabaseUrl, config.supabaseServiceRoleKey);
-    const { data: profile, error } = await supabase
-      .from('profiles')
-      .select('id, is_subscribed')
-      .eq('phone_number', to)
-      .single();
-
-    if (error || !profile) {
-      console.warn(`🚫 Rejection: No profile found for ${to}`);
-      const rejectTwiml = `<?xml version="1.0" encoding="UTF-8"?>
-<Response>
-  <Say language="ja-JP">この番号は利用できません。</Say>
-  <Hangup/>
-</Response>`;
-      res.type('text/xml').send(rejectTwiml);
-      return;
-    }
-
-    if (!profile.is_subscribed) {
-      console.warn(`🚫 Rejection: User ${to} is not subscribed`);
-      const rejectTwiml = `<?xml version="1.0" encoding="UTF-8"?>
-<Response>
-  <Say language="ja-JP">契約が無効です。</Say>
-  <Hangup/>
-</Response>`;
-      res.type('text/xml').send(rejectTwiml);
-      return;
-    }
-    userId = profile.id;
-    console.log(`✅ Subscription verified for ${to} (userId: ${userId})`);
-  } catch (err) {
-    console.error('❌ Error checking subscription:', err);
-    // On DB error, fail-closed (reject) for safety
-    const errorTwiml = `<?xml version="1.0" encoding="UTF-8"?>
-<Response>
-  <Say language="ja-JP">システムエラーが発生しました。</Say>
-  <Hangup/>
-</Response>`;
-    res.type('text/xml').send(errorTwiml);
-    return;
-  }
-  // --- Phase 3: Subscription Check End ---
-
-  // URLパラメータへの付与を廃止 (Twilio <Parameter> タグを使用するため)
-  const wsUrl = buildWsUrl('/twilio-media');
-  console.log('Generated WS URL:', wsUrl);
-
-  // <Parameter> タグで toPhoneNumber, fromPhoneNumber, userId を渡す
-  const twiml = `<?xml version="1.0" encoding="UTF-8"?>
-<Response>
-  <Connect>
-    <Stream url="${wsUrl}">
-      <Parameter name="toPhoneNumber" value="${to}" />
-      <Parameter name="fromPhoneNumber" value="${from}" />
-      <Parameter name="userId" value="${userId}" />
-    </Stream>
-  </Connect>
-</Response>`;
-
-  res.type('text/xml').send(twiml);
-});
-
-const wss = new WebSocketServer({ noServer: true });         // Twilio
-
-wss.on('connection', (socket, req) => {
-  console.log('🔊 Twilio media WebSocket connected');
-  console.log('Incoming WS Request URL:', req.url);
-
-  socket.on('message', async (msg: WebSocket.RawData) => {
-    try {
-      const data = JSON.parse(msg.toString()) as TwilioMediaMessage;
-      if (data.event === 'start' && data.start) {
-        const { streamSid, callSid, customParameters } = data.start;
-        // customParameters から toPhoneNumber, fromPhoneNumber, userId を取得
-        const toPhoneNumber = customParameters?.toPhoneNumber;
-        const fromPhoneNumber = customParameters?.fromPhoneNumber;
-        const userId = customParameters?.userId;
-
-        console.log('Start event received. Custom params:', customParameters);
-        const logFile = createLogFilePath();
-        const debugObserver = new DebugObserver(streamSid);
-        const context: CallContext = {
-          streamSid,
-          logFile,
-          twilioSocket: socket,
-          debugObserver,
-        };
-        calls.set(streamSid, context);
-
-        // Log start event for debugging
-        debugObserver.logTwilioMedia(data);
-
-        await writeLog(logFile, {
-          timestamp: new Date().toISOString(),
-          event: 'start',
-          streamSid,
-          callSid,
-        });
-
-        const realtime = new RealtimeSession({
-          streamSid,
-          callSid,
-          logFile,
-          toPhoneNumber,
-          fromPhoneNumber,
-          userId,
-          debugObserver,
-          onAudioToTwilio: (base64Mulaw) => {
-            if (socket.readyState === WebSocket.OPEN) {
-              socket.send(
-                JSON.stringify({
-                  event: 'media',
-                  streamSid,
-                  media: { payload: base64Mulaw },
-                }),
-              );
-            }
-          },
-          onClearTwilio: () => {
-            if (socket.readyState === WebSocket.OPEN) {
-              socket.send(
-                JSON.stringify({
-                  event: 'clear',
-                  streamSid,
-                }),
-              );
-            }
-          },
-          onMarkToTwilio: (name) => {
-            if (socket.readyState === WebSocket.OPEN) {
-              socket.send(
-                JSON.stringify({
-                  event: 'mark',
-                  streamSid,
-                  mark: { name },
-                }),
-              );
-            }
-          },
-        });
-        context.realtime = realtime;
-        await realtime.connect();
-      }
-
-      if (data.event === 'media' && data.media && data.streamSid) {
-        const context = calls.get(data.streamSid);
-        if (!context?.realtime) return;
-
-        // Log media event for debugging
-        context.debugObserver?.logTwilioMedia(data);
-
-        // Feature flag: Use base64 pass-through (or fallback to Buffer decode)
-        if (config.enableBase64Passthrough) {
-          const payloadBase64 = data.media.payload;
-          const payloadBytes = Buffer.byteLength(payloadBase64, 'base64');
-          context.realtime.trackTwilioMedia(payloadBytes);
-          context.realtime.sendAudioBase64(payloadBase64);
-        } else {
-          // Rollback path: decode base64 to Buffer
-          const mulawPayload = Buffer.from(data.media.payload, 'base64');
-          context.realtime.trackTwilioMedia(mulawPayload.length);
-          context.realtime.sendAudio(mulawPayload);
-        }
-      }
-
-      if (data.event === 'mark' && data.streamSid) {
-        const context = calls.get(data.streamSid);
-        if (context) {
-          // Log mark event for debugging
-          context.debugObserver?.logTwilioMedia(data);
-          // Notify RealtimeSession of the mark event
-          context.realtime?.onTwilioMark(data.mark?.name);
-        }
-      }
-
-      if (data.event === 'stop' && data.streamSid) {
-        const context = calls.get(data.streamSid);
-        if (context) {
-          // Log stop event for debugging
-          context.debugObserver?.logTwilioMedia(data);
-
-          await writeLog(context.logFile, {
-            timestamp: new Date().toISOString(),
-            event: 'stop',
-            streamSid: context.streamSid,
-          });
-          context.realtime?.close();
-          calls.delete(data.streamSid);
-        }
-      }
-    } catch (err) {
-      console.error('Failed to handle Twilio message', err);
-      // エラー発生時は通話を確実に終了させる（無音放置を防ぐ）
-      if (socket.readyState === WebSocket.OPEN) {
-        socket.close();
-        console.log('🔚 Socket closed due to error');
-      }
-    }
-  });
-
-  socket.on('close', () => {
-    console.log('🔚 Twilio media WebSocket closed');
-    // Cleanup any session associated with this socket (stop event may not have been sent)
-    for (const [streamSid, context] of calls.entries()) {
-      if (context.twilioSocket === socket) {
-        console.log(`🧹 Cleaning up Twilio session on socket close: ${streamSid}`);
-        context.realtime?.close();
-        calls.delete(streamSid);
-        break;
-      }
-    }
-  });
-
-  socket.on('error', (err) => {
-    console.error('WebSocket error', err);
-  });
-});
-
-// ==================== Web Demo WebSocket Server ====================
-// Demo call constants for call_logs database
-const DEMO_CALLER_NUMBER = 'デモ通話';
-const DEMO_RECIPIENT_NUMBER = 'WEB_DEMO';
-
-// Rate limiting: Track active sessions per userId
-const webDemoActiveSessions = new Map<string, { streamSid: string; startTime: number }>();
-
-const webDemoWss = new WebSocketServer({ noServer: true });  // Web demo
-
-// Manual upgrade routing: dispatch to appropriate WebSocketServer based on pathname
-server.on('upgrade', (req, socket, head) => {
-  try {
-    const { pathname } = new URL(req.url || '/', `http://${req.headers.host}`);
-
-    if (pathname === '/twilio-media') {
-      wss.handleUpgrade(req, socket, head, (ws) => wss.emit('connection', ws, req));
-      return;
-    }
-
-    if (pathname === '/web-demo-media') {
-      webDemoWss.handleUpgrade(req, socket, head, (ws) => webDemoWss.emit('connection', ws, req));
-      return;
-    }
-
-    socket.destroy();
-  } catch {
-    socket.destroy();
-  }
-});
-
-webDemoWss.on('connection', (socket, req) => {
-  // Log connection without exposing token
-  const urlPath = req.url?.split('?')[0] || '/web-demo-media';
-  console.log(`🌐 Web demo WebSocket connected: ${urlPath}`);
-
-  // Extract and validate token
-  const url = new URL(req.url || '', `http://${req.headers.host}`);
-  const token = url.searchParams.get('token');
-
-  const validation = validateWebDemoToken(token || '');
-  if (!validation.valid || !validation.userId) {
-    console.warn(`🚫 Web demo connection rejected: ${validation.error}`);
-    socket.close(4001, validation.error || 'Invalid token');
-    return;
-  }
-
-  const userId = validation.userId;
-  console.log(`✅ Web demo authenticated for userId: ${userId.slice(0, 8)}...`);
-
-  // Rate limiting: Check if user already has an active session
-  const existingSession = webDemoActiveSessions.get(userId);
-  if (existingSession) {
-    console.warn(`🚫 Web demo rejected: userId ${userId.slice(0, 8)}... already has active session`);
-    socket.close(4002, 'Already has active session');
-    return;
-  }
-
-  let currentStreamSid: string | null = null;
-  let maxSessionTimer: ReturnType<typeof setTimeout> | null = null;
-
-  const cleanup = () => {
-    if (maxSessionTimer) {
-      clearTimeout(maxSessionTimer);
-      maxSessionTimer = null;
-    }
-    if (currentStreamSid) {
-      const context = calls.get(currentStreamSid);
-      if (context) {
-        console.log(`🧹 Cleaning up web demo session: ${currentStreamSid}`);
-        context.realtime?.close();
-        calls.delete(currentStreamSid);
-      }
-      webDemoActiveSessions.delete(userId);
-      currentStreamSid = null;
-    }
-  };
-
-  socket.on('message', async (msg: WebSocket.RawData) => {
-    try {
-      const data = JSON.parse(msg.toString()) as TwilioMediaMessage;
-
-      if (data.event === 'start' && data.start) {
-        const { streamSid, callSid } = data.start;
-        // Ignore customParameters.userId - use token-derived userId
-        // Set callerNumber to null for demo mode
-
-        currentStreamSid = streamSid;
-        const logFile = createLogFilePath();
-        const debugObserver = new DebugObserver(streamSid);
-        const context: CallContext = {
-          streamSid,
-          logFile,
-          twilioSocket: socket,
-          debugObserver,
-        };
-        calls.set(streamSid, context);
-        webDemoActiveSessions.set(userId, { streamSid, startTime: Date.now() });
-
-        // Log start event
-        debugObserver.logTwilioMedia(data);
-        await writeLog(logFile, {
-          timestamp: new Date().toISOString(),
-          event: 'start',
-          streamSid,
-          callSid,
-        });
-
-        // Start max session timer
-        const maxMs = config.webDemoMaxSessionMinutes * 60 * 1000;
-        maxSessionTimer = setTimeout(() => {
-          console.log(`⏰ Web demo session timeout for ${streamSid}`);
-          socket.close(4003, 'Session timeout');
-        }, maxMs);
-
-        const realtime = new RealtimeSession({
-          streamSid,
-          callSid,
-          logFile,
-          toPhoneNumber: DEMO_RECIPIENT_NUMBER,
-          fromPhoneNumber: DEMO_CALLER_NUMBER,
-          userId,
-          debugObserver,
-          onAudioToTwilio: (base64Mulaw) => {
-            if (socket.readyState === WebSocket.OPEN) {
-              socket.send(JSON.stringify({
-                event: 'media',
-                streamSid,
-                media: { payload: base64Mulaw },
-              }));
-            }
-          },
-          onClearTwilio: () => {
-            if (socket.readyState === WebSocket.OPEN) {
-              socket.send(JSON.stringify({
-                event: 'clear',
-                streamSid,
-              }));
-            }
-          },
-          onMarkToTwilio: (name) => {
-            if (socket.readyState === WebSocket.OPEN) {
-              socket.send(JSON.stringify({
-                event: 'mark',
-                streamSid,
-                mark: { name },
-              }));
-            }
-          },
-          onTranscript: (text, speaker, isFinal, turn) => {
-            // Send transcript to WebSocket client with try/catch for robustness
-            try {
-              if (socket.readyState === WebSocket.OPEN) {
-                socket.send(JSON.stringify({
-                  event: 'transcript',
-                  text,
-                  speaker,
-                  isFinal,
-                  turn,
-                }));
-              }
-            } catch (err) {
-              // Ignore send errors (e.g., socket closing)
-            }
-          },
-        });
-        context.realtime = realtime;
-        await realtime.connect();
-      }
-
-      if (data.event === 'media' && data.media && data.streamSid) {
-        const context = calls.get(data.streamSid);
-        if (!context?.realtime) return;
-
-        context.debugObserver?.logTwilioMedia(data);
-
-        if (config.enableBase64Passthrough) {
-          const payloadBase64 = data.media.payload;
-          const payloadBytes = Buffer.byteLength(payloadBase64, 'base64');
-          context.realtime.trackTwilioMedia(payloadBytes);
-          context.realtime.sendAudioBase64(payloadBase64);
-        } else {
-          const mulawPayload = Buffer.from(data.media.payload, 'base64');
-          context.realtime.trackTwilioMedia(mulawPayload.length);
-          context.realtime.sendAudio(mulawPayload);
-        }
-      }
-
-      if (data.event === 'mark' && data.streamSid) {
-        const context = calls.get(data.streamSid);
-        if (context) {
-          context.debugObserver?.logTwilioMedia(data);
-          context.realtime?.onTwilioMark(data.mark?.name);
-        }
-      }
-
-      if (data.event === 'stop' && data.streamSid) {
-        const context = calls.get(data.streamSid);
-        if (context) {
-          context.debugObserver?.logTwilioMedia(data);
-          await writeLog(context.logFile, {
-            timestamp: new Date().toISOString(),
-            event: 'stop',
-            streamSid: context.streamSid,
-          });
-        }
-        cleanup();
-      }
-    } catch (err) {
-      console.error('Failed to handle web demo message', err);
-      socket.close(4000, 'Message processing error');
-    }
-  });
-
-  socket.on('close', () => {
-    console.log('🔚 Web demo WebSocket closed');
-    cleanup();
-  });
-
-  socket.on('error', (err) => {
-    console.error('Web demo WebSocket error', err);
-    cleanup();
-  });
-});
+// HTTP / WebSocket routes live in server.ts so that the offline call simulator (test/simulator) can mount them without listening on PORT
 
 const listener = server.listen(config.port, () => {
   console.log(`🚀 Server listening on port ${config.port}`);
@@ -521,6 +17,9 @@ const gracefulShutdown = () => {
   webDemoWss.clients.forEach((client) => {
     client.terminate();
   });
+  monitorWss.clients.forEach((client) => {
+    client.terminate();
+  });
 
   listener.close(() => {
     console.log('Closed out remaining connections');
@@ -536,15 +35,3 @@ const gracefulShutdown = () => {
 
 process.on('SIGTERM', gracefulShutdown);
 process.on('SIGINT', gracefulShutdown);
-
-function buildWsUrl(pathname: string, params?: Record<string, string>): string {
-  const url = new URL(config.publicUrl);
-  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
-  url.pathname = pathname;
-  if (params) {
-    Object.entries(params).forEach(([k, v]) => {
-      if (v) url.searchParams.append(k, v);
-    });
-  }
-  return url.toString();
-}
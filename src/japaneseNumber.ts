@@ -0,0 +1,156 @@
+/**
+ * Japanese number parsing for reservation answers (人数 etc.).
+ * Handles 漢数字, 全角数字, counters (名/人/様/席) and 大人/子供 breakdowns.
+ * Pure functions (no I/O).
+ */
+
+export interface PartySize {
+  total: number;
+  adults?: number;
+  children?: number;
+}
+
+const KANJI_DIGITS: Record<string, number> = {
+  〇: 0, 零: 0, 一: 1, 二: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9,
+};
+const KANJI_UNITS: Record<string, number> = { 十: 10, 百: 100, 千: 1000 };
+
+/** Readings spoken instead of numerals (ひとり, ふたり) */
+const PEOPLE_WORDS: [RegExp, number][] = [
+  [/ひとり|お一人/, 1],
+  [/ふたり|お二人/, 2],
+];
+
+const NUMERAL = '[0-9〇零一二三四五六七八九十百千万]+';
+/** Counters for people / seats */
+const PEOPLE_COUNTER = '(?:名様|人様|名|人|様|席|方)';
+/** A kanji numeral only counts as a number when followed by a counter (一緒, 一度 are words) */
+const COUNTED_NUMBER = new RegExp(`(${NUMERAL})(${PEOPLE_COUNTER}|歳|才|つ|個|枚|本|台)?`, 'g');
+
+const ADULT_WORDS = '(?:大人|おとな|成人)';
+const CHILD_WORDS = '(?:子供|子ども|こども|お子様|お子さん|キッズ|小学生|幼児|未就学児)';
+
+/**
+ * 漢数字 -> number ("二十五" -> 25, "百二十" -> 120, "三万" -> 30000, "二〇" -> 20).
+ * Returns null for anything that is not a kanji numeral.
+ */
+export function kanjiToNumber(text: string): number | null {
+  if (!/^[〇零一二三四五六七八九十百千万]+$/.test(text)) return null;
+
+  // Positional style without units: 二〇二六 -> 2026
+  if (!/[十百千万]/.test(text)) {
+    return parseInt([...text].map(c => KANJI_DIGITS[c]).join(''), 10);
+  }
+
+  let total = 0;    // completed 万 groups
+  let section = 0;  // value below 万
+  let digit: number | null = null;
+  for (const c of text) {
+    if (c in KANJI_DIGITS) {
+      digit = KANJI_DIGITS[c];
+    } else if (c in KANJI_UNITS) {
+      section += (digit ?? 1) * KANJI_UNITS[c];
+      digit = null;
+    } else {
+      // 万
+      total += (section + (digit ?? 0) || 1) * 10000;
+      section = 0;
+      digit = null;
+    }
+  }
+  return total + section + (digit ?? 0);
+}
+
+/** "12" / "十二" -> 12 */
+const numeralToNumber = (numeral: string): number | null => {
+  return /^\d+$/.test(numeral) ? parseInt(numeral, 10) : kanjiToNumber(numeral);
+};
+
+const normalizeText = (value: unknown): string => String(value ?? '').normalize('NFKC').replace(/\s+/g, '');
+
+interface CountedNumber {
+  value: number;
+  counter?: string;
+}
+
+/** Numbers in the text: digits anywhere, kanji numerals only with a counter (or the whole text) */
+const extractNumbers = (text: string): CountedNumber[] => {
+  const numbers: CountedNumber[] = [];
+  for (const match of text.matchAll(COUNTED_NUMBER)) {
+    const [, numeral, counter] = match;
+    const isDigits = /^\d+$/.test(numeral);
+    if (!isDigits && !counter && numeral !== text) continue;
+    const value = numeralToNumber(numeral);
+    if (value !== null) {
+      numbers.push({ value, counter });
+    }
+  }
+  return numbers;
+};
+
+const isPeopleCounter = (counter?: string) => !!counter && new RegExp(`^${PEOPLE_COUNTER}$`).test(counter);
+
+/**
+ * Number answer -> integer.
+ * "3", "３名", "三名様", "ふたり" -> 3 / 2. Several counted people are summed ("大人2名と子供1名" -> 3).
+ * Returns null when no number (or several unrelated numbers) can be found.
+ */
+export function parseJapaneseNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  const text = normalizeText(value);
+  if (!text) return null;
+
+  const numbers = extractNumbers(text);
+  if (numbers.length === 1) {
+    return numbers[0].value;
+  }
+  if (numbers.length > 1) {
+    return numbers.every(n => isPeopleCounter(n.counter))
+      ? numbers.reduce((sum, n) => sum + n.value, 0)
+      : null;
+  }
+
+  for (const [pattern, count] of PEOPLE_WORDS) {
+    if (pattern.test(text)) return count;
+  }
+  return null;
+}
+
+/** Count after an adult / child word ("大人2名", "子供は一人") */
+const countAfter = (text: string, words: string): number | undefined => {
+  const match = text.match(new RegExp(`${words}[はがの:]*(${NUMERAL}|ひとり|ふたり)${PEOPLE_COUNTER}?`));
+  if (!match) return undefined;
+  const word = PEOPLE_WORDS.find(([pattern]) => pattern.test(match[1]));
+  return word ? word[1] : numeralToNumber(match[1]) ?? undefined;
+};
+
+/**
+ * 人数 answer with an optional adult / child breakdown.
+ * "大人2名と子供1名" -> { total: 3, adults: 2, children: 1 }, "4名" -> { total: 4 }
+ */
+export function parsePartySize(value: unknown): PartySize | null {
+  if (typeof value === 'number') {
+    return Number.isInteger(value) && value > 0 ? { total: value } : null;
+  }
+  const text = normalizeText(value);
+  const adults = countAfter(text, ADULT_WORDS);
+  const children = countAfter(text, CHILD_WORDS);
+
+  if (adults !== undefined) {
+    const total = adults + (children ?? 0);
+    return total > 0 ? { total, adults, children } : null;
+  }
+
+  if (children !== undefined) {
+    // "4名（うち子供1名）": the larger count is the total
+    const stated = Math.max(0, ...extractNumbers(text).filter(n => isPeopleCounter(n.counter)).map(n => n.value));
+    return stated > children
+      ? { total: stated, adults: stated - children, children }
+      : children > 0 ? { total: children, children } : null;
+  }
+
+  const total = parseJapaneseNumber(text);
+  return total !== null && Number.isInteger(total) && total > 0 ? { total } : null;
+}
@@ -0,0 +1,283 @@
+import { formatTimeJa, minutesToTime, timeToMinutes, weekdayOf } from './availability';
+
+/**
+ * JST date/time normalisation for reservation answers.
+ * Resolves Japanese expressions (明日, 来週金曜, 夜7時, 19時半 ...) to YYYY-MM-DD / HH:mm against a fixed "now",
+ * and validates the bounds (not in the past, within the booking horizon).
+ * Pure functions: pass `now` for deterministic results.
+ */
+
+export type InvalidFieldReason = 'unparseable' | 'past' | 'beyond_horizon';
+
+export interface InvalidField {
+  field: 'date' | 'time';
+  value: string;
+  reason: InvalidFieldReason;
+  /** Japanese sentence the model can read back to the caller */
+  message: string;
+}
+
+export interface DateTimeInput {
+  date?: unknown;
+  time?: unknown;
+}
+
+export interface NormalizedDateTime {
+  date?: string;
+  time?: string;
+  invalid_fields: InvalidField[];
+}
+
+export interface DateTimeBounds {
+  /** Latest bookable date = today + horizonDays */
+  horizonDays: number;
+  now?: Date;
+}
+
+const WEEKDAY_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
+const WEEKDAY_PATTERN = '(月|火|水|木|金|土|日)曜';
+
+/** Relative day words, longest first so that 明明後日 is not read as 明後日 */
+const RELATIVE_DAYS: [RegExp, number][] = [
+  [/明明後日|しあさって/, 3],
+  [/明後日|あさって/, 2],
+  [/明日|あした|あす|明晩/, 1],
+  [/今日|本日|今夜|今晩|きょう/, 0],
+];
+
+/** Current JST date and time, independent of the server timezone */
+export const jstNow = (now: Date = new Date()): { date: string; time: string } => {
+  const iso = new Date(now.getTime() + 9 * 60 * 60 * 1000).toISOString();
+  return { date: iso.slice(0, 10), time: iso.slice(11, 16) };
+};
+
+/** "2026-10-20" + 1 -> "2026-10-21" */
+export const addDays = (date: string, days: number): string => {
+  const [y, m, d] = date.split('-').map(v => parseInt(v, 10));
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+};
+
+/** "2026-10-20" -> "10月20日（火）" (for spoken responses) */
+export const formatDateJa = (date: string): string => {
+  const [, m, d] = date.split('-').map(v => parseInt(v, 10));
+  return `${m}月${d}日（${WEEKDAY_LABELS[weekdayOf(date)]}）`;
+};
+
+/** Valid calendar date -> YYYY-MM-DD, otherwise null (e.g. 2月30日) */
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+};
+
+/** Full-width digits / colons -> ASCII, spaces removed */
+const normalizeText = (text: string): string => text.normalize('NFKC').replace(/\s+/g, '');
+
+/**
+ * Date without a year (10月20日, 20日): the nearest occurrence that is not in the past,
+ * unless that lies beyond the horizon (then the past date is kept so that it is reported as past).
+ */
+const resolveWithoutYear = (candidates: (string | null)[], today: string, horizonDays?: number): string | null => {
+  const [current, next] = candidates;
+  if (!current) return next ?? null;
+  if (current >= today || !next) return current;
+  const limit = horizonDays === undefined ? undefined : addDays(today, horizonDays);
+  return limit === undefined || next <= limit ? next : current;
+};
+
+/** Resolved date; `bareWeekday` when it was a weekday alone (金曜), which may also mean next week */
+interface ParsedDate {
+  date: string;
+  bareWeekday: boolean;
+}
+
+const parseDate = (text: string, today: string, horizonDays?: number): ParsedDate | null => {
+  const value = normalizeText(text);
+  const resolved = (date: string | null, bareWeekday = false) => (date ? { date, bareWeekday } : null);
+  const [year, month] = today.split('-').map(v => parseInt(v, 10));
+
+  // 2026-10-20 / 2026/10/20 / 2026年10月20日
+  const full = value.match(/(\d{4})[-/年](\d{1,2})[-/月](\d{1,2})/);
+  if (full) {
+    return resolved(toIsoDate(parseInt(full[1], 10), parseInt(full[2], 10), parseInt(full[3], 10)));
+  }
+
+  // 10月20日 / 10/20
+  const monthDay = value.match(/(\d{1,2})(?:月|\/)(\d{1,2})/);
+  if (monthDay) {
+    const m = parseInt(monthDay[1], 10);
+    const d = parseInt(monthDay[2], 10);
+    return resolved(resolveWithoutYear([toIsoDate(year, m, d), toIsoDate(year + 1, m, d)], today, horizonDays));
+  }
+
+  // N日後
+  const daysLater = value.match(/(\d{1,3})日後/);
+  if (daysLater) {
+    return resolved(addDays(today, parseInt(daysLater[1], 10)));
+  }
+
+  for (const [pattern, offset] of RELATIVE_DAYS) {
+    if (pattern.test(value)) {
+      return resolved(addDays(today, offset));
+    }
+  }
+
+  // 今週金曜 / 来週の金曜日 / 再来週金曜 (weeks start on Monday) / 金曜 (next occurrence, today included: see normalizeDateTime)
+  const weekday = value.match(new RegExp(`(今週|来週|再来週)?の?${WEEKDAY_PATTERN}`));
+  if (weekday) {
+    const target = WEEKDAY_LABELS.indexOf(weekday[2]);
+    const todayWeekday = weekdayOf(today);
+    if (!weekday[1]) {
+      return resolved(addDays(today, (target - todayWeekday + 7) % 7), true);
+    }
+    const mondayThisWeek = addDays(today, -((todayWeekday + 6) % 7));
+    const weeksAhead = { 今週: 0, 来週: 1, 再来週: 2 }[weekday[1] as '今週' | '来週' | '再来週'];
+    return resolved(addDays(mondayThisWeek, weeksAhead * 7 + (target + 6) % 7));
+  }
+
+  // 20日 (this month, or next month once it has passed)
+  const dayOnly = value.match(/(\d{1,2})日/);
+  if (dayOnly) {
+    const d = parseInt(dayOnly[1], 10);
+    const nextMonth = month === 12 ? toIsoDate(year + 1, 1, d) : toIsoDate(year, month + 1, d);
+    return resolved(resolveWithoutYear([toIsoDate(year, month, d), nextMonth], today, horizonDays));
+  }
+
+  return null;
+};
+
+/**
+ * Japanese / numeric date expression -> YYYY-MM-DD (null when it cannot be resolved).
+ * @param today - JST date the expression is relative to
+ * @param horizonDays - used to pick the year of dates given without one
+ */
+export function parseJapaneseDate(text: string, today: string, horizonDays?: number): string | null {
+  return parseDate(text, today, horizonDays)?.date ?? null;
+}
+
+/** Resolved time; `nextDay` when it is past midnight of the night it was said for (夜12時, 深夜1時) */
+interface ParsedTime {
+  time: string;
+  nextDay: boolean;
+}
+
+const parseTime = (text: string): ParsedTime | null => {
+  const value = normalizeText(text);
+
+  if (value.includes('正午')) {
+    return { time: '12:00', nextDay: false };
+  }
+
+  const clock = value.match(/(\d{1,2}):(\d{2})/);
+  let hour: number;
+  let minute: number;
+  let period: string | undefined;
+
+  if (clock) {
+    hour = parseInt(clock[1], 10);
+    minute = parseInt(clock[2], 10);
+  } else {
+    const spoken = value.match(/(午前|午後|朝|昼|夕方|夜|晩|深夜)?(\d{1,2})時(半|(\d{1,2})分)?/);
+    if (!spoken) return null;
+    period = spoken[1];
+    hour = parseInt(spoken[2], 10);
+    minute = spoken[3] === '半' ? 30 : spoken[4] ? parseInt(spoken[4], 10) : 0;
+  }
+
+  // 12-hour expressions
+  let nextDay = false;
+  switch (period) {
+    case '午前':
+      if (hour > 12) return null;
+      hour %= 12; // 午前12時 = 0:00
+      break;
+    case '朝':
+      if (hour > 11) return null;
+      break;
+    case '昼':
+      if (hour <= 5) hour += 12;
+      break;
+    case '午後':
+    case '夕方':
+      if (hour < 12) hour += 12;
+      break;
+    case '夜':
+    case '晩':
+    case '深夜':
+      // 夜12時 is midnight and 深夜1時 the small hours, both after the date they were said for
+      if (hour === 12 || hour <= 4) {
+        hour %= 12;
+        nextDay = true;
+      } else if (hour < 12) {
+        hour += 12;
+      }
+      break;
+  }
+
+  if (hour > 23 || minute > 59) return null;
+  return { time: minutesToTime(hour * 60 + minute), nextDay };
+};
+
+/**
+ * Japanese / numeric time expression -> HH:mm (null when it cannot be resolved).
+ * 19:30, 19時半, 19時30分, 夜7時, 午後3時, 午前11時, 朝9時, 正午, 夜12時 / 深夜1時 (00:00 / 01:00)
+ */
+export function parseJapaneseTime(text: string): string | null {
+  return parseTime(text)?.time ?? null;
+}
+
+/**
+ * Resolve the requested date/time and check that it is neither in the past nor beyond the booking horizon.
+ * Missing values are skipped; every problem is reported in invalid_fields.
+ */
+export function normalizeDateTime(input: DateTimeInput, bounds: DateTimeBounds): NormalizedDateTime {
+  const now = jstNow(bounds.now);
+  const result: NormalizedDateTime = { invalid_fields: [] };
+  const rawDate = input.date === undefined || input.date === null ? '' : String(input.date).trim();
+  const rawTime = input.time === undefined || input.time === null ? '' : String(input.time).trim();
+
+  const parsedTime = rawTime ? parseTime(rawTime) : null;
+
+  if (rawDate) {
+    const parsedDate = parseDate(rawDate, now.date, bounds.horizonDays);
+    let date = parsedDate?.date;
+    if (date && parsedTime?.nextDay) {
+      // 明日の深夜1時 -> the day after tomorrow, 01:00
+      date = addDays(date, 1);
+    }
+    if (parsedDate?.bareWeekday && date === now.date && parsedTime && timeToMinutes(parsedTime.time) <= timeToMinutes(now.time)) {
+      // 金曜 said on a Friday for a time that has passed: next week's Friday
+      date = addDays(date, 7);
+    }
+    const limit = addDays(now.date, bounds.horizonDays);
+    if (!date) {
+      result.invalid_fields.push({ field: 'date', value: rawDate, reason: 'unparseable', message: `希望日「${rawDate}」を日付として確認できません` });
+    } else if (date < now.date) {
+      result.invalid_fields.push({ field: 'date', value: rawDate, reason: 'past', message: `${formatDateJa(date)}は既に過ぎています` });
+    } else if (date > limit) {
+      result.invalid_fields.push({
+        field: 'date',
+        value: rawDate,
+        reason: 'beyond_horizon',
+        message: `ご予約は${formatDateJa(limit)}まで（${bounds.horizonDays}日先まで）承っています`,
+      });
+    } else {
+      result.date = date;
+    }
+  }
+
+  if (rawTime) {
+    const time = parsedTime?.time;
+    if (!time) {
+      result.invalid_fields.push({ field: 'time', value: rawTime, reason: 'unparseable', message: `希望時間「${rawTime}」を時刻として確認できません` });
+    } else if (result.date === now.date && timeToMinutes(time) <= timeToMinutes(now.time)) {
+      result.invalid_fields.push({ field: 'time', value: rawTime, reason: 'past', message: `本日の${formatTimeJa(time)}は既に過ぎています` });
+    } else {
+      result.time = time;
+    }
+  }
+
+  return result;
+}
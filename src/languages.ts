@@ -0,0 +1,176 @@
+import type { UnavailableReason } from './availability';
+
+/**
+ * Caller languages: detection from transcribed utterances and the fixed sentences the AI must say verbatim.
+ * The store-facing side (prompts, notifications to staff, dashboard) stays Japanese.
+ */
+
+export type SupportedLanguage = 'ja' | 'en' | 'zh' | 'ko';
+
+export const SUPPORTED_LANGUAGES: SupportedLanguage[] = ['ja', 'en', 'zh', 'ko'];
+
+/** Names used in instructions and staff notifications */
+export const LANGUAGE_NAMES: Record<SupportedLanguage, string> = {
+  ja: '日本語',
+  en: '英語',
+  zh: '中国語',
+  ko: '韓国語',
+};
+
+/** Sentences the AI reads out as-is (tool results, timeouts, consent) */
+export interface SpokenPhrases {
+  consentQuestion: string;
+  sendingReservation: string;
+  reservationSent: string;
+  reservationSystemError: string;
+  messageTaken: string;
+  messageFailed: string;
+  idlePrompt: string;
+  idleGoodbye: string;
+  maxDurationGoodbye: string;
+  farewell: string;
+  reconnectApology: string;
+  /** check_availability: why the requested time cannot be booked ('other': unknown reason) */
+  unavailableReasons: Record<UnavailableReason | 'other', string>;
+  /** {reason}: one of unavailableReasons */
+  askOtherDate: string;
+  /** {reason}: one of unavailableReasons, {times}: alternative times joined with timeSeparator */
+  suggestAlternativeTimes: string;
+  timeSeparator: string;
+}
+
+const PHRASES: Record<SupportedLanguage, SpokenPhrases> = {
+  ja: {
+    consentQuestion: 'この内容で店舗に送信してよろしいでしょうか？',
+    sendingReservation: '情報を店舗に送信しています',
+    reservationSent: '店舗へ送信完了しました。店員確認後、SMSで成否をご連絡いたします。',
+    reservationSystemError: '申し訳ございません、システムの不調でご予約を送信できませんでした。担当者から折り返しご連絡いたしますので、折り返し先のお電話番号はこのお電話の番号でよろしいでしょうか？',
+    messageTaken: 'ご伝言を承りました。担当者より折り返しご連絡いたします。',
+    messageFailed: '申し訳ございません、ただいま伝言を記録できませんでした。恐れ入りますが、時間をおいておかけ直しください。',
+    idlePrompt: 'もしもし？お電話聞こえていますでしょうか？',
+    idleGoodbye: 'お電話が遠いようですので、失礼いたします。またのお電話をお待ちしております。',
+    maxDurationGoodbye: '申し訳ございません。通話時間の上限に達しましたので、これで失礼いたします。',
+    farewell: 'お電話ありがとうございました。失礼いたします。',
+    reconnectApology: 'お待たせいたしました',
+    unavailableReasons: {
+      closed_day: 'その日は定休日です',
+      before_open: 'その時間はまだ営業時間前です',
+      after_last_order: 'その時間はラストオーダーを過ぎています',
+      full: 'その時間は満席です',
+      party_too_large: 'その人数ですとお電話でのご予約を承れません',
+      other: 'その時間はご案内が難しい状況です',
+    },
+    askOtherDate: '{reason}。別の日程はいかがでしょうか。',
+    suggestAlternativeTimes: '{reason}、{times}はいかがでしょうか。',
+    timeSeparator: 'か、',
+  },
+  en: {
+    consentQuestion: 'May I send this request to the restaurant?',
+    sendingReservation: 'I am sending your request to the restaurant now',
+    reservationSent: 'Your request has been sent to the restaurant. Once the staff have checked it, we will let you know the result by text message.',
+    reservationSystemError: 'I am sorry, a system problem prevented me from sending your reservation. A staff member will call you back. May we call you back at the number you are calling from?',
+    messageTaken: 'I have taken your message. A staff member will call you back.',
+    messageFailed: 'I am sorry, I could not record your message right now. Could you please call again a little later?',
+    idlePrompt: 'Hello? Can you hear me?',
+    idleGoodbye: 'I cannot hear you, so I will hang up now. Please feel free to call us again.',
+    maxDurationGoodbye: 'I am sorry, we have reached the time limit for this call, so I will hang up now.',
+    farewell: 'Thank you for calling. Goodbye.',
+    reconnectApology: 'Sorry to keep you waiting',
+    unavailableReasons: {
+      closed_day: 'We are closed on that day',
+      before_open: 'We are not open yet at that time',
+      after_last_order: 'That time is after our last order',
+      full: 'We are fully booked at that time',
+      party_too_large: 'I am afraid we cannot take a reservation for that many people by phone',
+      other: 'I am afraid that time is not available',
+    },
+    askOtherDate: '{reason}. Would another day suit you?',
+    suggestAlternativeTimes: '{reason}. Would {times} suit you?',
+    timeSeparator: ' or ',
+  },
+  zh: {
+    consentQuestion: '可以将以上内容发送给餐厅吗？',
+    sendingReservation: '正在将您的信息发送给餐厅',
+    reservationSent: '已发送给餐厅。店员确认后，我们会通过短信通知您结果。',
+    reservationSystemError: '非常抱歉，由于系统故障，未能发送您的预约。工作人员会给您回电，请问回电号码就是您现在使用的号码吗？',
+    messageTaken: '已为您记录留言，工作人员会给您回电。',
+    messageFailed: '非常抱歉，现在无法记录留言。请稍后再拨打。',
+    idlePrompt: '喂？您能听到吗？',
+    idleGoodbye: '好像听不到您的声音，先挂断了。欢迎您再次来电。',
+    maxDurationGoodbye: '非常抱歉，通话时间已达上限，先挂断了。',
+    farewell: '感谢您的来电，再见。',
+    reconnectApology: '让您久等了',
+    unavailableReasons: {
+      closed_day: '那天是店休日',
+      before_open: '那个时间还没有开始营业',
+      after_last_order: '那个时间已经过了最后点餐时间',
+      full: '那个时间已经订满了',
+      party_too_large: '这个人数无法通过电话预约',
+      other: '那个时间不方便安排',
+    },
+    askOtherDate: '{reason}。换一天可以吗？',
+    suggestAlternativeTimes: '{reason}，{times}可以吗？',
+    timeSeparator: '或者',
+  },
+  ko: {
+    consentQuestion: '이 내용으로 가게에 전송해도 될까요?',
+    sendingReservation: '가게에 정보를 전송하고 있습니다',
+    reservationSent: '가게에 전송을 완료했습니다. 직원 확인 후 결과를 문자로 알려 드리겠습니다.',
+    reservationSystemError: '죄송합니다. 시스템 문제로 예약을 전송하지 못했습니다. 담당자가 다시 연락드리겠습니다. 지금 거신 번호로 연락드려도 될까요?',
+    messageTaken: '메시지를 접수했습니다. 담당자가 다시 연락드리겠습니다.',
+    messageFailed: '죄송합니다. 지금은 메시지를 기록할 수 없습니다. 잠시 후 다시 걸어 주세요.',
+    idlePrompt: '여보세요? 들리세요?',
+    idleGoodbye: '목소리가 들리지 않아 이만 끊겠습니다. 다시 전화 주세요.',
+    maxDurationGoodbye: '죄송합니다. 통화 시간 제한에 도달하여 이만 끊겠습니다.',
+    farewell: '전화 주셔서 감사합니다. 안녕히 계세요.',
+    reconnectApology: '기다리게 해서 죄송합니다',
+    unavailableReasons: {
+      closed_day: '그날은 정기 휴일입니다',
+      before_open: '그 시간은 아직 영업 전입니다',
+      after_last_order: '그 시간은 라스트 오더가 지났습니다',
+      full: '그 시간은 만석입니다',
+      party_too_large: '그 인원은 전화로 예약을 받을 수 없습니다',
+      other: '그 시간은 안내가 어렵습니다',
+    },
+    askOtherDate: '{reason}. 다른 날짜는 어떠세요?',
+    suggestAlternativeTimes: '{reason}. {times}는 어떠세요?',
+    timeSeparator: ' 또는 ',
+  },
+};
+
+/** Chinese-only characters: kanji-only Japanese ("明日七時二名") must not be taken for Chinese */
+const CHINESE_MARKERS = /[我你您们吗呢个这么订谢请说吧]/;
+
+export const phrasesFor = (language: SupportedLanguage): SpokenPhrases => PHRASES[language];
+
+/** config_metadata.primary_language ("ja", "en-US", "zh-TW" ...) -> SupportedLanguage (default ja) */
+export const normalizeLanguage = (value: unknown): SupportedLanguage => {
+  const code = String(value ?? '').toLowerCase().split(/[-_]/)[0];
+  return SUPPORTED_LANGUAGES.includes(code as SupportedLanguage) ? code as SupportedLanguage : 'ja';
+};
+
+/**
+ * Language of one transcribed utterance, or undefined when it cannot be told
+ * (numbers, "OK", kanji-only words shared by Japanese and Chinese).
+ */
+export function detectLanguage(text: string): SupportedLanguage | undefined {
+  const value = text.normalize('NFKC');
+  if (/[぀-ヿ]/.test(value)) return 'ja';
+  if (/[가-힯]/.test(value)) return 'ko';
+  if (/[一-鿿]/.test(value)) {
+    return CHINESE_MARKERS.test(value) ? 'zh' : undefined;
+  }
+  const letters = value.match(/[A-Za-z]/g)?.length ?? 0;
+  return letters >= 4 ? 'en' : undefined;
+}
+
+/**
+ * Appended to the session instructions when the caller does not speak Japanese.
+ */
+export function buildLanguageInstruction(language: SupportedLanguage): string {
+  if (language === 'ja') return '';
+  return `
+
+【言語】お客様は${LANGUAGE_NAMES[language]}で話しています。以降の発話はすべて${LANGUAGE_NAMES[language]}で行うこと（店名・料理名などの固有名詞はそのままでよい）。
+指示の中で「」で示された日本語の定型文は、同じ意味の${LANGUAGE_NAMES[language]}に言い換えて伝えること。カタカナ表記の確認は不要。`;
+}
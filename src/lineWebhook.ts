@@ -1,8 +1,8 @@
 
 import { Request, Response } from 'express';
-import { createClient } from '@supabase/supabase-js';
 import { Client, WebhookEvent, MessageEvent, validateSignature } from '@line/bot-sdk';
 import { config } from './config';
+import { Storage } from './storage';
 
 // LINE Client initialization
 let lineClient: Client | null = null;
@@ -15,9 +15,7 @@ if (config.lineChannelAccessToken && config.lineChannelSecret) {
     console.warn('⚠️ LINE Channel Access Token or Secret is missing. LINE features will be disabled.');
 }
 
-const supabase = createClient(config.supabaseUrl, config.supabaseServiceRoleKey);
-
-export const handleLineWebhook = async (req: Request, res: Response) => {
+export const createLineWebhookHandler = (storage: Storage) => async (req: Request, res: Response) => {
     if (!lineClient) {
         console.warn('⚠️ LINE Webhook received but client is not initialized.');
         res.status(501).json({ message: 'LINE not configured' });
@@ -28,7 +26,7 @@ export const handleLineWebhook = async (req: Request, res: Response) => {
         const events: WebhookEvent[] = req.body.events;
 
         // Process all events
-        await Promise.all(events.map(event => processEvent(event)));
+        await Promise.all(events.map(event => processEvent(storage, event)));
 
         res.status(200).json({ status: 'ok' });
     } catch (err) {
@@ -37,7 +35,7 @@ export const handleLineWebhook = async (req: Request, res: Response) => {
     }
 };
 
-async function processEvent(event: WebhookEvent) {
+async function processEvent(storage: Storage, event: WebhookEvent) {
     if (event.type !== 'message' || event.message.type !== 'text') {
         return;
     }
@@ -55,53 +53,39 @@ async function processEvent(event: WebhookEvent) {
 
     if (match) {
         const tokenCode = match[1];
-        await handleLinkToken(event.replyToken, userIdSource, tokenCode);
+        await handleLinkToken(storage, event.replyToken, userIdSource, tokenCode);
     } else {
         // Optional: Reply with help message or ignore
         // await replyText(event.replyToken, '連携コードを送信する場合は "link [コード]" と入力してください。');
     }
 }
 
-async function handleLinkToken(replyToken: string, lineUserId: string, code: string) {
+async function handleLinkToken(storage: Storage, replyToken: string, lineUserId: string, code: string) {
     // 1. Find valid token
     const now = new Date().toISOString();
-    const { data: token, error: tokenError } = await supabase
-        .from('line_link_tokens')
-        .select('*')
-        .eq('token', code) // Changed from token_code
-        .is('used_at', null)
-        .gt('expires_at', now)
-        .single();
-
-    if (tokenError || !token) {
+    const token = await storage.lineLinkTokens.findValid(code, now).catch((err) => {
+        console.error('❌ Failed to look up link token:', err);
+        return null;
+    });
+
+    if (!token) {
         console.warn('⚠️ Invalid or expired token link attempt:', code);
         await replyText(replyToken, '無効または期限切れの連携コードです。もう一度発行してください。');
         return;
     }
 
-    // 2. Update store_notification_settings (Upsert)
-    // Existing values like notify_email_enabled will be preserved on update (PostgREST merge behavior),
-    // or use default on insert.
-    const { error: updateError } = await supabase
-        .from('store_notification_settings')
-        .upsert({
-            user_id: token.user_id,
-            line_target_id: lineUserId,
-            notify_line_enabled: true,
-            updated_at: new Date().toISOString()
-        }, { onConflict: 'user_id' });
-
-    if (updateError) {
+    // 2. Update store_notification_settings (Upsert, other settings preserved)
+    try {
+        await storage.notificationSettings.linkLineTarget(token.user_id, lineUserId);
+    } catch (updateError) {
         console.error(`❌ Failed to update settings. userId=${token.user_id}, token=${code}, lineId=${lineUserId}`, updateError);
         await replyText(replyToken, '連携処理中にエラーが発生しました。管理者にお問い合わせください。');
         return;
     }
 
-    // 3. Mark token as used
-    await supabase
-        .from('line_link_tokens')
-        .update({ used_at: new Date().toISOString() })
-        .eq('token', code); // Changed from id to token, as id might not be reliable if we only have code context
+    // 3. Mark token as used (by token, as id might not be reliable if we only have code context)
+    await storage.lineLinkTokens.markUsed(code, new Date().toISOString())
+        .catch((err) => console.error('❌ Failed to mark link token as used:', err));
 
     // 4. Success reply
     await replyText(replyToken, '✅ LINE連携が完了しました！\n今後、予約リクエストが届くとここに通知されます。');
@@ -0,0 +1,89 @@
+import { Request, Response } from 'express';
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom-client';
+
+/**
+ * Prometheus metrics of the call engine (GET /metrics).
+ * Labels are kept to small fixed sets (no user ids / phone numbers) so that series stay bounded.
+ */
+export const metricsRegistry = new Registry();
+collectDefaultMetrics({ register: metricsRegistry });
+
+export type CallChannel = 'phone' | 'web_demo';
+export type CallOutcome = 'reservation' | 'message' | 'transferred' | 'none';
+
+export const metrics = {
+  activeCalls: new Gauge({
+    name: 'call_engine_active_calls',
+    help: 'Calls with an open Realtime session',
+    labelNames: ['channel'] as const,
+    registers: [metricsRegistry],
+  }),
+  callsStarted: new Counter({
+    name: 'call_engine_calls_started_total',
+    help: 'Calls started',
+    labelNames: ['channel'] as const,
+    registers: [metricsRegistry],
+  }),
+  callsEnded: new Counter({
+    name: 'call_engine_calls_ended_total',
+    help: 'Calls ended, by outcome and by who ended the call',
+    labelNames: ['channel', 'outcome', 'ended_by'] as const,
+    registers: [metricsRegistry],
+  }),
+  realtimeErrors: new Counter({
+    name: 'call_engine_openai_realtime_errors_total',
+    help: 'OpenAI Realtime error events, by error code',
+    labelNames: ['code'] as const,
+    registers: [metricsRegistry],
+  }),
+  sessionUpdateTimeouts: new Counter({
+    name: 'call_engine_session_update_timeouts_total',
+    help: 'session.update not acknowledged within 3s',
+    registers: [metricsRegistry],
+  }),
+  greetingLatency: new Histogram({
+    name: 'call_engine_greeting_latency_seconds',
+    help: 'Time from call start to session.updated / first AI audio / first AI transcript',
+    labelNames: ['stage'] as const,
+    buckets: [0.25, 0.5, 1, 1.5, 2, 3, 5, 8, 13],
+    registers: [metricsRegistry],
+  }),
+  finalizeReservation: new Counter({
+    name: 'call_engine_finalize_reservation_total',
+    help: 'finalize_reservation results, by error code (none = submitted)',
+    labelNames: ['ok', 'error_code'] as const,
+    registers: [metricsRegistry],
+  }),
+  notifications: new Counter({
+    name: 'call_engine_notifications_total',
+    help: 'Notifications to stores (email / line) and callers (sms), by outcome (sent / failed / not_configured)',
+    labelNames: ['channel', 'outcome'] as const,
+    registers: [metricsRegistry],
+  }),
+  reservationRecovery: new Counter({
+    name: 'call_engine_reservation_recovery_total',
+    help: 'Post-call reservation recovery for calls without finalize_reservation (created / not_found / incomplete / duplicate / failed)',
+    labelNames: ['outcome'] as const,
+    registers: [metricsRegistry],
+  }),
+  stripeUsageReportFailures: new Counter({
+    name: 'call_engine_stripe_usage_report_failures_total',
+    help: 'Stripe usage records that could not be created',
+    registers: [metricsRegistry],
+  }),
+};
+
+export type GreetingStage = 'session_updated' | 'first_audio' | 'first_message';
+
+/** Greeting latency since the call started, in ms (converted to seconds) */
+export const observeGreetingLatency = (stage: GreetingStage, elapsedMs: number) => {
+  metrics.greetingLatency.observe({ stage }, elapsedMs / 1000);
+};
+
+/**
+ * GET /metrics (Prometheus text format)
+ */
+export const handleMetrics = async (req: Request, res: Response) => {
+  res.set('Content-Type', metricsRegistry.contentType);
+  res.send(await metricsRegistry.metrics());
+};
@@ -1,8 +1,10 @@
 
 import nodemailer from 'nodemailer';
 import { Client as LineClient } from '@line/bot-sdk';
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { config } from './config';
+import { LANGUAGE_NAMES, SupportedLanguage } from './languages';
+import { metrics } from './metrics';
+import { Storage } from './storage';
 
 interface ReservationRequest {
     id?: string;
@@ -14,16 +16,39 @@ interface ReservationRequest {
     requested_time: string | null;
     requested_datetime_text: string | null;
     answers: Record<string, any>;
+    language?: SupportedLanguage;
+    /** Recovered from the transcript after the call (not submitted by the AI): the store should check it */
+    needs_review?: boolean;
     created_at?: string;
 }
 
+interface CallbackRequest {
+    user_id: string;
+    caller_name: string | null;
+    callback_number: string | null;
+    topic: string;
+    category: string;
+    language?: SupportedLanguage;
+}
+
+/** Staff should know when the caller does not speak Japanese (e.g. before calling back) */
+const languageLine = (language?: SupportedLanguage): string[] => {
+    return language && language !== 'ja' ? [`お客様の言語: ${LANGUAGE_NAMES[language]}`] : [];
+};
+
+const CALLBACK_CATEGORY_LABELS: Record<string, string> = {
+    reservation_issue: '予約関連（システム不調など）',
+    inquiry: '問い合わせ',
+    other: 'その他',
+};
+
 export class NotificationService {
-    private supabase: SupabaseClient;
+    private storage: Storage;
     private lineClient?: LineClient;
     private mailTransporter?: nodemailer.Transporter;
 
-    constructor() {
-        this.supabase = createClient(config.supabaseUrl, config.supabaseServiceRoleKey);
+    constructor(storage: Storage) {
+        this.storage = storage;
 
         // Initialize LINE Client if credentials are preset
         // (Note: credentials might be empty if not used, so we handle that gracefully)
@@ -51,18 +76,6 @@ export class NotificationService {
     public async notifyReservation(request: ReservationRequest) {
         if (!request.user_id) return;
 
-        // 1. Fetch notification settings
-        const { data: settings, error } = await this.supabase
-            .from('store_notification_settings')
-            .select('*')
-            .eq('user_id', request.user_id)
-            .single();
-
-        if (error || !settings) {
-            console.warn('⚠️ Notification settings not found for user:', request.user_id);
-            return;
-        }
-
         const dashboardUrl = `${config.webAppUrl}/dashboard`;
         // Assuming dashboard URL format. 
         // Ideally this might be a separate config or base URL. 
@@ -72,12 +85,42 @@ export class NotificationService {
         // Construct Message
         const messageBody = this.constructMessage(request, dashboardUrl);
 
+        const subject = request.needs_review
+            ? '【AiLuna】要確認の予約リクエストがあります'
+            : '【AiLuna】新規予約リクエストを受信しました';
+        await this.dispatch(request.user_id, subject, messageBody);
+    }
+
+    /**
+     * Notify the store of a callback request (take_message tool).
+     * Uses a distinct template so that it is not mistaken for a reservation.
+     */
+    public async notifyCallbackRequest(request: CallbackRequest) {
+        if (!request.user_id) return;
+
+        const messageBody = this.constructCallbackMessage(request, `${config.webAppUrl}/dashboard`);
+        await this.dispatch(request.user_id, '【AiLuna】折り返しのご依頼がありました', messageBody);
+    }
+
+    /**
+     * Send a message through the channels enabled in store_notification_settings.
+     */
+    private async dispatch(userId: string, subject: string, messageBody: string) {
+        // 1. Fetch notification settings
+        const settings = await this.storage.notificationSettings.findByUserId(userId);
+
+        if (!settings) {
+            console.warn('⚠️ Notification settings not found for user:', userId);
+            return;
+        }
+
         // 2. Email Notification
         if (settings.notify_email_enabled && settings.notify_emails && settings.notify_emails.length > 0) {
             if (this.mailTransporter) {
-                await this.sendEmail(settings.notify_emails, messageBody);
+                await this.sendEmail(settings.notify_emails, subject, messageBody);
             } else {
                 console.warn('⚠️ Email notification enabled but SMTP not configured.');
+                metrics.notifications.inc({ channel: 'email', outcome: 'not_configured' });
             }
         }
 
@@ -87,18 +130,21 @@ export class NotificationService {
                 await this.sendLine(settings.line_target_id, messageBody);
             } else {
                 console.warn('⚠️ LINE notification enabled but LINE credentials not configured.');
+                metrics.notifications.inc({ channel: 'line', outcome: 'not_configured' });
             }
         }
     }
 
     private constructMessage(r: ReservationRequest, url: string): string {
         const lines = [
-            '【新規予約リクエスト】',
+            r.needs_review ? '【新規予約リクエスト（要確認）】' : '【新規予約リクエスト】',
+            ...(r.needs_review ? ['通話終了後に会話内容から復元した予約です。お客様へ内容のご確認をお願いします。'] : []),
             '',
             `日時: ${r.requested_date || ''} ${r.requested_time || ''} (${r.requested_datetime_text || '不明'})`,
             `人数: ${r.party_size ? r.party_size + '名' : '不明'}`,
             `お名前: ${r.customer_name || '不明'}`,
             `電話番号: ${r.customer_phone || '不明'}`,
+            ...languageLine(r.language),
         ];
 
         if (r.answers && Object.keys(r.answers).length > 0) {
@@ -116,18 +162,35 @@ export class NotificationService {
         return lines.join('\n');
     }
 
-    private async sendEmail(toAddresses: string[], body: string) {
+    private constructCallbackMessage(r: CallbackRequest, url: string): string {
+        return [
+            '【折り返し依頼】',
+            '',
+            `お名前: ${r.caller_name || '不明'}`,
+            `折り返し先: ${r.callback_number || '不明'}`,
+            `用件: ${r.topic}`,
+            `区分: ${CALLBACK_CATEGORY_LABELS[r.category] ?? r.category}`,
+            ...languageLine(r.language),
+            '',
+            '▼ダッシュボードで確認',
+            url,
+        ].join('\n');
+    }
+
+    private async sendEmail(toAddresses: string[], subject: string, body: string) {
         try {
             console.log(`📧 Sending email to ${toAddresses.length} recipients...`);
             await this.mailTransporter?.sendMail({
                 from: config.emailFrom || 'no-reply@ailuna.app',
                 to: toAddresses.join(','),
-                subject: '【AiLuna】新規予約リクエストを受信しました',
+                subject,
                 text: body,
             });
             console.log('✅ Email notification sent.');
+            metrics.notifications.inc({ channel: 'email', outcome: 'sent' });
         } catch (err) {
             console.error('❌ Failed to send email:', err);
+            metrics.notifications.inc({ channel: 'email', outcome: 'failed' });
         }
     }
 
@@ -139,10 +202,10 @@ export class NotificationService {
                 text: body,
             });
             console.log('✅ LINE notification sent.');
+            metrics.notifications.inc({ channel: 'line', outcome: 'sent' });
         } catch (err) {
             console.error('❌ Failed to send LINE message:', err);
+            metrics.notifications.inc({ channel: 'line', outcome: 'failed' });
         }
     }
 }
-
-export const notificationService = new NotificationService();
@@ -1,15 +1,27 @@
 import WebSocket from 'ws';
 import fs from 'fs/promises';
 import path from 'path';
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import OpenAI from 'openai';
 import Stripe from 'stripe';
-import { config } from './config';
+import { config, defaultRealtimeTuning } from './config';
+import { RealtimeTuning, resolveRealtimeTuning } from './configSchema';
 import { writeLog, closeLogStream } from './logging';
 import { RealtimeLogEvent, ReservationField } from './types';
-import { SUMMARY_SYSTEM_PROMPT } from './prompts';
-import { notificationService } from './notifications';
+import { CallSummaryResult, generateCallSummary } from './callSummary';
+import { extractReservationFromTranscript } from './reservationRecovery';
+import { NotificationService } from './notifications';
+import { sendReservationReceipt } from './sms';
 import { DebugObserver } from './debugObserver';
+import { ToolRegistry, ToolContext, bookingHorizonDaysOf, createDefaultToolRegistry, validateReservationAnswers } from './tools';
+import { storage as defaultStorage, CallEndedBy, CallInjectionMode, DuplicateRecordError, PromptSettings, Storage } from './storage';
+import { getReconnectFillerAudio } from './fillerAudio';
+import { CallChannel, CallOutcome, metrics, observeGreetingLatency } from './metrics';
+import { TenantConfigCache, tenantConfigCache } from './tenantConfigCache';
+import { hangUpCall, redirectCallToVoicemail } from './callTransfer';
+import { BusinessCalendar, buildBusinessHoursPrompt, getOpenStatus } from './businessHours';
+import { addDays, jstNow } from './jstDate';
+import { classifyConsentReply, ConsentIntent, ConsentRequest, ConsentState, ConsentStateMachine } from './consent';
+import { buildLanguageInstruction, detectLanguage, normalizeLanguage, phrasesFor, SupportedLanguage } from './languages';
 
 // Source constants for reservation_requests.source column
 // Must match CHECK constraint: reservation_requests_source_check
@@ -18,6 +30,28 @@ const RESERVATION_SOURCE = {
   REALTIME_FALLBACK: 'phone_call_realtime_fallback',
 } as const;
 
+/** Greeting outside business hours (config_metadata.closed_greeting_message overrides it) */
+const DEFAULT_CLOSED_GREETING = 'お電話ありがとうございます。ただいま営業時間外のため、AIがご予約のご希望をお伺いします。';
+
+/** Hang up even if the goodbye audio was never played back (no audio / lost marks) */
+const HANGUP_FALLBACK_MS = 15000;
+
+/** How long finalize_reservation waits for the caller's reply to request_confirmation to be classified */
+const CONSENT_WAIT_MS = 5000;
+
+/** NDJSON event for each classified reply */
+const CONSENT_EVENTS: Record<ConsentIntent, string> = {
+  confirm: 'consent_confirmed',
+  correct: 'consent_corrected',
+  decline: 'consent_declined',
+  unclear: 'consent_unclear',
+};
+
+/** Only the first user utterances may switch the caller language */
+const LANGUAGE_DETECTION_UTTERANCES = 3;
+
+type HangupReason = 'idle_timeout' | 'max_duration' | 'end_call';
+
 /**
  * Default reservation fields used when no DB configuration is found.
  * Keys match the canonical columns in reservation_requests table.
@@ -36,24 +70,77 @@ export interface RealtimeSessionOptions {
   toPhoneNumber?: string;
   fromPhoneNumber?: string;
   userId?: string;
+  /** Browser demo session (no real phone line) */
+  isWebDemo?: boolean;
   debugObserver: DebugObserver;
   onAudioToTwilio: (base64Mulaw: string) => void;
   onClearTwilio: () => void;
   onMarkToTwilio: (name: string) => void;
   /** Callback for transcript events (user/AI speech to text) */
   onTranscript?: (text: string, speaker: 'user' | 'ai', isFinal: boolean, turn: number) => void;
+  /** Function tools exposed to the model (defaults to createDefaultToolRegistry()) */
+  toolRegistry?: ToolRegistry;
+  /** Defaults to the process-wide storage (STORAGE_BACKEND) */
+  storage?: Storage;
+  /** Tenant config lookups (defaults to the process-wide cache, or an own cache over `storage`) */
+  tenantConfig?: TenantConfigCache;
+  /** End the call from the server side (phone: close the Media Stream, web demo: close the socket) */
+  onEndCall?: (reason: string) => void;
+}
+
+/** Live state of a call for the operator API (/admin/calls) */
+export interface CallSnapshot {
+  callSid: string;
+  streamSid: string;
+  userId?: string;
+  callerNumber?: string;
+  channel: CallChannel;
+  startedAt: string;
+  durationSeconds: number;
+  phase: 'greeting' | 'normal' | 'hanging_up';
+  turnCount: number;
+  language: SupportedLanguage;
+  consentState: ConsentState;
+  reconnecting: boolean;
+  reservationCreated: boolean;
+  transferred: boolean;
+}
+
+export type TranscriptEntry = { role: string; text: string; timestamp: string };
+
+/** Staff instruction injected into a live call (POST /calls/:callSid/instructions) */
+export interface StaffInstruction {
+  mode: CallInjectionMode;
+  text: string;
+  /** Dashboard user id, or 'admin' */
+  injectedBy: string;
 }
 
+/**
+ * - injected: recorded in call_injections and sent to Realtime
+ * - unavailable: the call is ending, reconnecting or not connected
+ * - busy: mode 'response' while the AI is answering or greeting (retry once it is done)
+ * - not_recorded: the audit record could not be written, so nothing was sent
+ */
+export type StaffInstructionResult =
+  | { status: 'injected'; injectionId: string }
+  | { status: 'unavailable' }
+  | { status: 'busy' }
+  | { status: 'not_recorded' };
+
 /**
  * OpenAI Realtime API との WebSocket セッションを管理するクラス。
  * Twilio Media Streams から受け取った音声を OpenAI に送り、逆方向の音声 delta を Twilio へ返す。
  */
 export class RealtimeSession {
   private ws?: WebSocket;
-  private supabase: SupabaseClient;
+  private storage: Storage;
+  private tenantConfig: TenantConfigCache;
+  private notifications: NotificationService;
   private openai: OpenAI;
   private stripe?: Stripe;
   private debugObserver: DebugObserver;
+  private toolRegistry: ToolRegistry;
 
   private readonly options: RealtimeSessionOptions;
 
@@ -62,19 +149,25 @@ export class RealtimeSession {
 
   private currentSystemPrompt: string = 'あなたは電話応対AIエージェントです。丁寧で簡潔な応答を心がけてください。';
   private initialGreeting: string = 'お電話ありがとうございます。ご予約のお電話でしょうか？';
-  private primaryLanguage: string = 'ja';           // config_metadata から読み込み
+  private primaryLanguage: SupportedLanguage = 'ja';  // config_metadata から読み込み
+  private callerLanguage: SupportedLanguage = 'ja';   // 最初の発話から検出（既定は primaryLanguage）
+  private languageDetectionTurns = 0;
   private nameKanaMode: 'auto' | 'skip' | 'always' = 'auto';  // config_metadata から読み込み
   private hasRequestedInitialResponse = false;
   private reservationFields: ReservationField[] = DEFAULT_RESERVATION_FIELDS;
+  private configMetadata: Record<string, any> = {};  // user_prompts.config_metadata
+  private businessCalendar: BusinessCalendar | null = null;  // store_business_hours / store_holidays
+  private tuning: RealtimeTuning = defaultRealtimeTuning;  // env defaults + config_metadata overrides
 
   private reservationCreated = false; // Prevent duplicate reservations
+  private messageTaken = false; // take_message succeeded (call outcome metric)
   private audioDeltaCount = 0; // Counter for audio_delta sampling
   private mediaCount = 0; // Counter for twilio_media sampling
   private sessionUpdateTimeout?: ReturnType<typeof setTimeout>; // B対策: session.update ACK timeout
 
   private userId?: string;
   private callerNumber?: string;
-  private transcript: { role: string; text: string; timestamp: string }[] = [];
+  private transcript: TranscriptEntry[] = [];
   private startTime: number;
 
   // Timing measurements for Phase 0 observability
@@ -100,8 +193,20 @@ export class RealtimeSession {
   private isBargeInPending = false;  // Debounce pending flag
   private conversationPhase: 'greeting' | 'normal' = 'greeting';  // Greeting phase control
   private greetingAudioEndMs = 0;  // Track greeting audio length for playback-complete detection
-  private awaitingFinalizeConsent = false;  // Phase 3: 送信確認待ち状態
+  private readonly consent = new ConsentStateMachine();  // Phase 3: 送信確認 (request_confirmation)
+  private consentWaiters: (() => void)[] = [];  // finalize_reservation calls waiting for the reply classification
   private collectedAnswers: Record<string, any> = {};  // Phase 3: 収集済み回答を保持
+  private transfer?: { transferredAt: string; turn: number; reason: string };  // transfer_to_staff 実行記録
+  private closing = false;  // close() called: no reconnection
+  private reconnecting = false;  // Realtime socket dropped mid-call, reconnect in progress
+  private responseInProgress = false;  // Between response.created and response.done
+  private userSpeaking = false;  // Between VAD speech_started and speech_stopped
+  private idleTimer?: ReturnType<typeof setTimeout>;
+  private idlePrompted = false;  // 「もしもし？」 already asked during the current silence
+  private maxDurationTimer?: ReturnType<typeof setTimeout>;
+  private hangup?: { reason: HangupReason; goodbyeResponseId?: string; goodbyeDone: boolean; ended: boolean };
+  private hangupFallbackTimer?: ReturnType<typeof setTimeout>;
+  private endedBy?: CallEndedBy;  // First cause wins; unset = the caller hung up
 
   constructor(options: RealtimeSessionOptions) {
     this.startTime = Date.now();
@@ -109,8 +214,18 @@ export class RealtimeSession {
     this.options = options;
     this.callerNumber = options.fromPhoneNumber;
     this.userId = options.userId; // Pre-populated from subscription check
-    this.supabase = createClient(config.supabaseUrl, config.supabaseServiceRoleKey);
-    this.openai = new OpenAI({ apiKey: config.openAiApiKey });
+    this.storage = options.storage ?? defaultStorage;
+    this.tenantConfig = options.tenantConfig ?? (options.storage ? new TenantConfigCache(options.storage) : tenantConfigCache);
+    this.notifications = new NotificationService(this.storage);
+    this.openai = new OpenAI({ apiKey: config.openAiApiKey, baseURL: config.openAiBaseUrl });
+    this.toolRegistry = options.toolRegistry ?? createDefaultToolRegistry();
+    metrics.callsStarted.inc({ channel: this.channel });
+    metrics.activeCalls.inc({ channel: this.channel });
+
+    // Synthesize the reconnect filler ahead of time (cached per process), OpenAI may be unreachable when it is needed
+    if (config.enableRealtimeReconnect) {
+      void getReconnectFillerAudio();
+    }
 
     // Use shared debug observer from index.ts
     this.debugObserver = options.debugObserver;
@@ -129,14 +244,10 @@ export class RealtimeSession {
       console.log(`✅ Using pre-validated userId: ${this.userId}`);
       // userId がある場合は、直接 user_prompts を取得
       try {
-        const { data: promptData, error: promptError } = await this.supabase
-          .from('user_prompts')
-          .select('system_prompt, config_metadata')
-          .eq('user_id', this.userId)
-          .single();
-
-        if (promptError || !promptData) {
-          console.warn('⚠️ User prompt settings not found:', promptError?.message);
+        const promptData = await this.tenantConfig.getPromptSettings(this.userId);
+
+        if (!promptData) {
+          console.warn('⚠️ User prompt settings not found');
         } else {
           await this.applyPromptSettings(promptData);
           return;
@@ -150,42 +261,30 @@ export class RealtimeSession {
       try {
         console.log(`🔍 Looking up profile for phone number: ${this.options.toPhoneNumber}`);
 
-        const { data: profile, error: profileError } = await this.supabase
-          .from('profiles')
-          .select('id, is_subscribed')
-          .eq('phone_number', this.options.toPhoneNumber)
+        const profile = await this.tenantConfig.findProfileByPhoneNumber(this.options.toPhoneNumber);
 
-        if (profile && profile[0]) {
-          console.log(`🔍 [Debug] Profile Found: ID=${profile[0].id}`);
-        } else {
+        if (!profile) {
           console.log(`⚠️ [Debug] No profile found for phone number: ${this.options.toPhoneNumber}`);
-        }
-
-        if (profileError || !profile || profile.length === 0) {
-          console.warn('⚠️ Profile not found or error:', profileError?.message);
         } else {
-          this.userId = profile[0].id;
+          console.log(`🔍 [Debug] Profile Found: ID=${profile.id}`);
+          this.userId = profile.id;
 
-          if (!profile[0].is_subscribed) {
+          if (!profile.is_subscribed) {
             console.warn(`🚫 [RealtimeSession] User ${this.userId} is not subscribed.`);
           }
 
           console.log(`✅ User ${this.userId} subscription verified.`);
-          const { data: promptData, error: promptError } = await this.supabase
-            .from('user_prompts')
-            .select('system_prompt, config_metadata')
-            .eq('user_id', profile[0].id)
-            .single();
-
-          if (promptError || !promptData) {
-            console.warn('⚠️ User prompt settings not found:', promptError?.message);
+          const promptData = await this.tenantConfig.getPromptSettings(profile.id);
+
+          if (!promptData) {
+            console.warn('⚠️ User prompt settings not found');
           } else {
             await this.applyPromptSettings(promptData);
             return;
           }
         }
       } catch (err) {
-        console.error('❌ Failed to fetch from Supabase:', err);
+        console.error('❌ Failed to fetch tenant settings:', err);
       }
     }
 
@@ -206,21 +305,24 @@ export class RealtimeSession {
   /**
    * Apply prompt settings from user_prompts table
    */
-  private async applyPromptSettings(promptData: { system_prompt: string | null; config_metadata: any }): Promise<void> {
-    console.log('✨ Loaded dynamic settings from Supabase');
+  private async applyPromptSettings(promptData: PromptSettings): Promise<void> {
+    console.log('✨ Loaded dynamic settings from storage');
+    this.configMetadata = promptData.config_metadata || {};
+    this.applyTuningOverrides();
 
     // Get greeting for initial response
     // Get greeting for initial response
     this.initialGreeting = promptData.config_metadata?.greeting_message || 'お電話ありがとうございます。ご予約のお電話でしょうか？';
 
     // Phase 1: Load config_metadata settings for kana collection feature
-    this.primaryLanguage = promptData.config_metadata?.primary_language || 'ja';
+    this.primaryLanguage = normalizeLanguage(promptData.config_metadata?.primary_language);
+    this.callerLanguage = this.primaryLanguage;
     this.nameKanaMode = promptData.config_metadata?.name_kana_mode || 'auto';
     console.log(`📋 [Config] primary_language=${this.primaryLanguage}, name_kana_mode=${this.nameKanaMode}`);
 
     // Generate JST datetime (YYYY-MM-DD HH:mm JST)
     const now = new Date();
-    const jstNow = new Intl.DateTimeFormat('ja-JP', {
+    const jstNowLabel = new Intl.DateTimeFormat('ja-JP', {
       timeZone: 'Asia/Tokyo',
       year: 'numeric', month: '2-digit', day: '2-digit',
       hour: '2-digit', minute: '2-digit', hour12: false
@@ -228,19 +330,34 @@ export class RealtimeSession {
 
     // 予約ヒアリング項目の取得
     try {
-      const { data: formFields, error: formError } = await this.supabase
-        .from('reservation_form_fields')
-        .select('field_key, label, field_type, required, options, description, display_order, enabled')
-        .eq('user_id', this.userId)
-        .order('display_order', { ascending: true });
+      const formFields = this.userId ? await this.tenantConfig.listReservationFields(this.userId) : [];
 
-      if (formFields && formFields.length > 0) {
+      if (formFields.length > 0) {
         this.reservationFields = formFields;
       }
     } catch (err) {
       console.warn('⚠️ Failed to fetch reservation fields:', err);
     }
 
+    // 営業時間・臨時休業の取得（前日分は深夜営業の判定に使う）
+    const jst = jstNow(now);
+    try {
+      this.businessCalendar = this.userId
+        ? await this.tenantConfig.getBusinessCalendar(this.userId, addDays(jst.date, -1))
+        : null;
+    } catch (err) {
+      console.warn('⚠️ Failed to fetch business hours:', err);
+    }
+
+    let businessHoursInstruction = '';
+    if (this.businessCalendar) {
+      businessHoursInstruction = `\n\n${buildBusinessHoursPrompt(this.businessCalendar, jst)}`;
+      if (!getOpenStatus(this.businessCalendar, jst.date, jst.time).open) {
+        this.initialGreeting = promptData.config_metadata?.closed_greeting_message || DEFAULT_CLOSED_GREETING;
+        console.log('🌙 [BusinessHours] Store is closed now, using closed greeting');
+      }
+    }
+
     // Dynamic field list generation (enabled !== false)
     const enabledFields = this.reservationFields.filter(f => f.enabled !== false);
     const requiredLabels = enabledFields.filter(f => f.required).map(f => f.label);
@@ -252,11 +369,17 @@ export class RealtimeSession {
       kanaInstruction = `\n- お名前が漢字やひらがなの場合、「カタカナでの表記もお願いできますか？」と任意で確認（強制しない）`;
     }
 
+    // Tool-specific instructions (e.g. check_availability before the consent phrase)
+    const toolInstructions = this.toolRegistry
+      .buildPromptInstructions(this.buildToolContext())
+      .map(line => `\n${line}`)
+      .join('');
+
     // Build minimal system prompt
     let fixedInstruction = `【重要：優先事項】
 以下の予約ヒアリング指示は、他のあらゆる指示より優先される決定事項である。
 
-【現在日時】${jstNow}
+【現在日時】${jstNowLabel}
 相対日付（明日/来週など）はこの日時を基準に解釈する。
 
 あなたは電話予約の受付担当。基本は予約受付を進める。
@@ -265,11 +388,11 @@ export class RealtimeSession {
 目的：
 - 収集必須項目: ${requiredLabels.join('、')}
 - 収集任意項目: ${optionalLabels.join('、') || 'なし'}
-これらの項目を一つ一つ順番に聞き、都度復唱する${kanaInstruction}
-- 必須項目を揃えたら短く復唱し、必ず次のフレーズで確認する：「この内容で店舗に送信してよろしいでしょうか？」
+これらの項目を一つ一つ順番に聞き、都度復唱する${kanaInstruction}${toolInstructions}
+- 必須項目を揃えたら request_confirmation を呼び出し、短く復唱して「この内容で店舗に送信してよろしいでしょうか？」と確認する
 - ユーザーの返答を待つ（finalize_reservationはまだ呼ばない）
 
-禁止：「予約確定」「予約取れました」と断言しない`;
+禁止：「予約確定」「予約取れました」と断言しない${businessHoursInstruction}`;
 
     // Add user's base prompt if available
     const basePrompt = promptData.system_prompt || '';
@@ -282,18 +405,63 @@ export class RealtimeSession {
   }
 
   async connect(): Promise<void> {
-    // Start loading system prompt in parallel with WebSocket connection
+    // Load the system prompt while the WebSocket connects (session.update waits for it)
     const promptPromise = this.loadSystemPrompt();
+    // The limit may be overridden per tenant (config_metadata)
+    void promptPromise.then(() => this.startMaxDurationTimer());
+    // The model is part of the socket URL and may be overridden per tenant (config_metadata.realtime_model).
+    // Normally the tenant config is cached (warmed by /incoming-call-realtime) and the model is known right away;
+    // only a tenant that is not cached yet has to wait for the load before connecting.
+    const model = this.cachedRealtimeModel();
+    if (model === undefined) {
+      await promptPromise;
+    }
+    await this.openRealtimeSocket(promptPromise, model ?? this.tuning.model);
+  }
 
+  /** Realtime model of the tenant from the cached config_metadata (undefined when it is not cached) */
+  private cachedRealtimeModel(): string | undefined {
+    if (!this.userId) return undefined;
+    const promptData = this.tenantConfig.peekPromptSettings(this.userId);
+    if (promptData === undefined) return undefined;
+    return resolveRealtimeTuning(defaultRealtimeTuning, promptData?.config_metadata ?? {}).tuning.model;
+  }
+
+  /**
+   * Layer the per-tenant Realtime settings (model, voice, VAD, barge-in) of config_metadata on the env defaults.
+   * Invalid values are ignored with a warning: a typo in the dashboard must not break the calls of the store.
+   */
+  private applyTuningOverrides() {
+    const { tuning, overridden, errors } = resolveRealtimeTuning(defaultRealtimeTuning, this.configMetadata);
+    this.tuning = tuning;
+    for (const error of errors) {
+      console.warn(`⚠️ [Config] Ignoring invalid override: ${error}`);
+      this.logEvent({ event: 'config_override_invalid', error_message: error });
+    }
+    if (overridden.length > 0) {
+      console.log(`🎛️ [Config] Tenant overrides: ${overridden.join(', ')}`);
+      this.logEvent({ event: 'config_overrides_applied', overrides: overridden });
+    }
+  }
+
+  /**
+   * Open the OpenAI Realtime WebSocket and send session.update (for the current conversation phase).
+   * Rejects if the socket errors (or the handshake times out) before it is open. A socket that drops after opening triggers reconnection.
+   */
+  private openRealtimeSocket(ready: Promise<void>, model: string = this.tuning.model): Promise<void> {
     return new Promise((resolve, reject) => {
-      const ws = new WebSocket(`wss://api.openai.com/v1/realtime?model=${config.openAiRealtimeModel}`, {
+      const ws = new WebSocket(`${config.openAiRealtimeUrl}?model=${model}`, {
         headers: {
           Authorization: `Bearer ${config.openAiApiKey}`,
           'OpenAI-Beta': 'realtime=v1',
         },
+        // Aborts (error -> reject) when the server accepts the TCP connection but never completes the upgrade
+        handshakeTimeout: config.realtimeHandshakeTimeoutMs,
       });
+      let opened = false;
 
       ws.on('open', async () => {
+        opened = true;
         this.connected = true;
         this.ws = ws;
         console.log('🤖 OpenAI Realtime session connected');
@@ -301,8 +469,8 @@ export class RealtimeSession {
         this.logEvent({ event: 'openai_ws_open' });
 
         // Wait for system prompt to be loaded before sending session.update
-        await promptPromise;
-        this.sendSessionUpdate();
+        await ready;
+        this.sendSessionUpdate(this.conversationPhase);
         resolve();
       });
 
@@ -311,7 +479,9 @@ export class RealtimeSession {
       });
 
       ws.on('close', async (code?: number, reason?: Buffer) => {
-        this.connected = false;
+        if (this.ws === ws) {
+          this.connected = false;
+        }
         console.log('🤖 OpenAI Realtime session closed');
         // NDJSON: Log WebSocket close
         this.logEvent({
@@ -320,7 +490,12 @@ export class RealtimeSession {
           close_reason: reason?.toString('utf-8')
         });
 
-        // Phase 1 Refactor: Reservation creation is now handled in saveCallLogToSupabase -> finalizeReservation
+        // Phase 1 Refactor: Reservation creation is now handled in saveCallLog -> finalizeReservation
+
+        // Dropped mid-call (not by close()): keep the caller on the line and reconnect
+        if (opened && this.ws === ws && !this.closing) {
+          void this.reconnectRealtime();
+        }
       });
 
       ws.on('error', (err: Error) => {
@@ -340,6 +515,125 @@ export class RealtimeSession {
     });
   }
 
+  /**
+   * Reconnect after the Realtime socket dropped mid-call.
+   * Plays a filler to the caller, retries with exponential backoff, then restores the session
+   * (session.update + conversation replay). Falls back to voicemail / hangup after the last attempt.
+   */
+  private async reconnectRealtime(): Promise<void> {
+    if (this.reconnecting || this.closing) return;
+
+    if (!config.enableRealtimeReconnect) {
+      await this.handleRealtimeUnavailable();
+      return;
+    }
+
+    this.reconnecting = true;
+    this.ws = undefined;
+    console.warn('🔌 [Reconnect] OpenAI Realtime connection lost, reconnecting...');
+    this.logEvent({ event: 'realtime_reconnect_start', turn: this.turnCount });
+    void this.playReconnectFiller();
+
+    // The greeting never completed: request it again on the new session
+    const greetingDone = this.transcript.some(t => t.role === 'assistant');
+    if (!greetingDone) {
+      this.hasRequestedInitialResponse = false;
+    }
+
+    for (let attempt = 1; attempt <= config.realtimeReconnectMaxAttempts; attempt++) {
+      const delayMs = config.realtimeReconnectBaseDelayMs * 2 ** (attempt - 1);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+      if (this.closing) break;
+
+      try {
+        await this.openRealtimeSocket(Promise.resolve());
+        console.log(`✅ [Reconnect] Realtime session restored (attempt ${attempt})`);
+        this.logEvent({ event: 'realtime_reconnected', attempt });
+        this.reconnecting = false;
+        if (greetingDone) {
+          this.replayConversation();
+        }
+        return;
+      } catch (err: any) {
+        console.warn(`⚠️ [Reconnect] Attempt ${attempt}/${config.realtimeReconnectMaxAttempts} failed: ${err?.message}`);
+        this.logEvent({ event: 'realtime_reconnect_failed', attempt, error_message: err?.message });
+      }
+    }
+
+    this.reconnecting = false;
+    if (!this.closing) {
+      await this.handleRealtimeUnavailable();
+    }
+  }
+
+  /**
+   * Restore the conversation on a fresh Realtime session from this.transcript, then let the AI resume.
+   */
+  private replayConversation() {
+    // Items of the previous session do not exist anymore (nothing to truncate)
+    this.currentAssistantItemId = undefined;
+
+    for (const entry of this.transcript) {
+      if (entry.role !== 'user' && entry.role !== 'assistant') continue;
+      this.sendJson({
+        type: 'conversation.item.create',
+        item: {
+          type: 'message',
+          role: entry.role,
+          content: [{ type: entry.role === 'user' ? 'input_text' : 'text', text: entry.text }],
+        },
+      });
+    }
+    this.logEvent({ event: 'realtime_conversation_replayed', transcript_length: this.transcript.length });
+
+    // Greeting still playing: the phase switch on playback completion takes over
+    if (this.conversationPhase === 'greeting') return;
+
+    this.sendJson({
+      type: 'response.create',
+      response: {
+        modalities: ['text', 'audio'],
+        instructions: `通信が一時的に途切れ、お客様をお待たせしました。「${phrasesFor(this.callerLanguage).reconnectApology}」と短くお詫びし、会話の続きから再開してください。同じ質問を最初から繰り返さないでください。`,
+      },
+    });
+  }
+
+  /** 「少々お待ちください」 while reconnecting (skipped if the audio could not be synthesized) */
+  private async playReconnectFiller() {
+    const audio = await getReconnectFillerAudio();
+    if (!audio || this.closing) return;
+    this.options.onAudioToTwilio(audio);
+    this.logEvent({ event: 'reconnect_filler_played' });
+  }
+
+  /**
+   * Realtime could not be restored: no dead air.
+   * Phone calls go to voicemail (message-taking); otherwise the call is ended.
+   */
+  private async handleRealtimeUnavailable() {
+    console.error('🚨 [Reconnect] OpenAI Realtime unavailable, ending AI conversation');
+    this.setEndedBy('error');
+    this.logEvent({ event: 'realtime_unavailable', turn: this.turnCount });
+    this.transcript.push({
+      role: 'system',
+      text: 'AIとの接続が復旧しなかったため、通話を終了（留守番電話へ切り替え）しました',
+      timestamp: new Date().toISOString(),
+    });
+
+    if (!this.options.isWebDemo) {
+      try {
+        await redirectCallToVoicemail(
+          this.options.callSid,
+          '申し訳ございません。ただいまシステムに不具合が発生しております。',
+        );
+        return;
+      } catch (err) {
+        console.error('❌ Failed to redirect call to voicemail:', err);
+      }
+    }
+    this.options.onEndCall?.('realtime_unavailable');
+  }
+
   /**
    * Send session.update to OpenAI Realtime API.
    * @param phase - 'greeting' disables create_response/interrupt_response to prevent AI-to-AI loops
@@ -349,69 +643,24 @@ export class RealtimeSession {
     this.conversationPhase = phase;
     console.log(`🔄 [Session] Sending session.update (phase: ${phase}, create_response: ${!isGreeting}, interrupt_response: ${!isGreeting})`);
 
-    // Build dynamic schema from reservation_form_fields
-    const answersProperties: Record<string, any> = {};
-    const requiredKeys: string[] = [];
-    const enabledFields = this.reservationFields.filter(f => f.enabled !== false);
-
-    for (const f of enabledFields) {
-      // Map field_type to JSON Schema type
-      let schemaType: any = { type: 'string', description: f.label };
-      if (f.field_type === 'number') {
-        schemaType = { type: 'integer', description: f.label };
-      } else if (f.field_type === 'date') {
-        schemaType = { type: 'string', description: `${f.label} (YYYY-MM-DD)` };
-      } else if (f.field_type === 'time') {
-        schemaType = { type: 'string', description: `${f.label} (HH:mm)` };
-      } else if (f.field_type === 'select' && f.options) {
-        schemaType = { type: 'string', enum: f.options, description: f.label };
-      }
-      answersProperties[f.field_key] = schemaType;
-      if (f.required) {
-        requiredKeys.push(f.field_key);
-      }
-    }
-
-    const toolsConfig = {
-      tools: [{
-        type: 'function',
-        name: 'finalize_reservation',
-        description: 'ユーザーが必須項目を全て伝え、送信の意思を示した場合に呼び出す。',
-        parameters: {
-          type: 'object',
-          properties: {
-            answers: {
-              type: 'object',
-              description: '収集した予約情報',
-              properties: answersProperties,
-              required: requiredKeys
-            },
-            confirmed: {
-              type: 'boolean',
-              description: 'ユーザーが口頭で「はい」と明確に了承した場合のみ true'
-            }
-          },
-          required: ['answers', 'confirmed']
-        }
-      }],
-      tool_choice: 'auto'
-    };
+    // Tools are built per tenant (e.g. finalize_reservation schema from reservation_form_fields)
+    const toolsConfig = this.toolRegistry.buildToolsConfig(this.buildToolContext());
 
     const payload = {
       type: 'session.update',
       session: {
-        instructions: this.currentSystemPrompt,
+        instructions: this.currentSystemPrompt + buildLanguageInstruction(this.callerLanguage),
         turn_detection: {
           type: 'server_vad',
-          threshold: config.vadThreshold,
+          threshold: this.tuning.vadThreshold,
           prefix_padding_ms: 300,
-          silence_duration_ms: config.vadSilenceDurationMs,
+          silence_duration_ms: this.tuning.vadSilenceDurationMs,
           create_response: !isGreeting,     // Disable during greeting to prevent AI-to-AI loops
           interrupt_response: !isGreeting,  // Disable during greeting to ensure full playback
         },
         input_audio_format: 'g711_ulaw',
         output_audio_format: 'g711_ulaw',
-        voice: config.openAiRealtimeVoice,
+        voice: this.tuning.voice,
         input_audio_transcription: {
           model: 'whisper-1',
         },
@@ -423,11 +672,12 @@ export class RealtimeSession {
     this.logEvent({ event: 'session_update_sent', phase });
     // Debug: Log system prompt length for troubleshooting
     console.log(`📝 [Debug] System prompt length: ${this.currentSystemPrompt.length} chars`);
-    console.log(`📝 [Debug] Tools configured: finalize_reservation (tool_choice: auto)`);
+    console.log(`📝 [Debug] Tools configured: ${toolsConfig.tools.map(t => t.name).join(', ') || 'none'} (tool_choice: auto)`);
 
     // B対策: Start 3s timeout for session.updated ACK
     this.sessionUpdateTimeout = setTimeout(() => {
       console.error('⚠️ [Timeout] session.updated not received within 3s');
+      metrics.sessionUpdateTimeouts.inc();
       this.logEvent({
         event: 'session_update_timeout',
         error_message: 'session.updated not received within 3000ms'
@@ -444,6 +694,9 @@ export class RealtimeSession {
       return;
     }
 
+    // Saying goodbye before hanging up: the caller cannot start a new turn
+    if (this.hangup) return;
+
     // Track audio for debug observability
     this.debugObserver.trackAudioSent(g711_ulaw.length);
     const payload = {
@@ -466,6 +719,9 @@ export class RealtimeSession {
       return;
     }
 
+    // Saying goodbye before hanging up: the caller cannot start a new turn
+    if (this.hangup) return;
+
     // Track audio for debug observability (compute byte length from base64)
     this.debugObserver.trackAudioSent(Buffer.byteLength(base64Mulaw, 'base64'));
     const payload = {
@@ -531,6 +787,7 @@ export class RealtimeSession {
           console.error('❌ [OpenAI Realtime Error]', errorDetails);
         }
 
+        metrics.realtimeErrors.inc({ code: errorCode ?? 'unknown' });
         this.logEvent({
           event: 'realtime_error',
           error_code: errorCode,
@@ -543,6 +800,7 @@ export class RealtimeSession {
         // Timing: Record session.updated
         if (!this.timings.sessionUpdated) {
           this.timings.sessionUpdated = Date.now();
+          observeGreetingLatency('session_updated', this.timings.sessionUpdated - this.timings.callStart);
         }
         // B対策: Clear timeout on successful ACK
         if (this.sessionUpdateTimeout) {
@@ -567,7 +825,13 @@ export class RealtimeSession {
         }
       }
 
-      // response.created is tracked for logging purposes only (smart cancel removed)
+      // response.created: the AI is busy answering (not silence); the first one after a timeout is the goodbye
+      if (event.type === 'response.created') {
+        this.responseInProgress = true;
+        if (this.hangup && !this.hangup.goodbyeResponseId) {
+          this.hangup.goodbyeResponseId = event.response?.id;
+        }
+      }
 
       // Capture assistant item_id for playback tracking (truncate preparation)
       if (event.type === 'response.output_item.added') {
@@ -594,8 +858,10 @@ export class RealtimeSession {
           // Timing: Record first audio delta
           if (!this.timings.firstAudioDelta) {
             this.timings.firstAudioDelta = Date.now();
+            observeGreetingLatency('first_audio', this.timings.firstAudioDelta - this.timings.callStart);
           }
           this.forwardAudioToTwilioFromBase64(base64Mulaw);
+          this.touchIdleTimer();
 
           // PlaybackTracker: Calculate deltaMs from audio bytes (mulaw 8kHz = 8 bytes/ms)
           const bytes = Buffer.from(base64Mulaw, 'base64').length;
@@ -638,6 +904,7 @@ export class RealtimeSession {
           // Timing: Record first message
           if (!this.timings.firstMessage) {
             this.timings.firstMessage = Date.now();
+            observeGreetingLatency('first_message', this.timings.firstMessage - this.timings.callStart);
           }
           this.turnCount++;
           this.logEvent({
@@ -652,14 +919,6 @@ export class RealtimeSession {
           // Emit transcript to WebSocket client (max 2000 chars)
           this.options.onTranscript?.(text.slice(0, 2000), 'ai', true, this.turnCount);
 
-          // Phase 3: Detect finalize consent request phrase
-          const CONSENT_PHRASE = '店舗に送信してよろしいでしょうか';
-          if (text.includes(CONSENT_PHRASE)) {
-            this.awaitingFinalizeConsent = true;
-            console.log('🔔 [Consent] Awaiting user confirmation for finalize');
-            this.logEvent({ event: 'consent_awaiting' });
-          }
-
           // Greeting phase: defer mode switch until playback completes
           if (this.conversationPhase === 'greeting') {
             // Record greeting audio length for playback-complete detection
@@ -680,6 +939,14 @@ export class RealtimeSession {
           console.log(`📍 [PlaybackTracker] Final mark sent: ${this.sentMsTotal}ms`);
         }
 
+        this.responseInProgress = false;
+        if (this.hangup && event.response?.id === this.hangup.goodbyeResponseId) {
+          this.hangup.goodbyeDone = true;
+          this.checkGoodbyePlayed();
+        } else {
+          this.touchIdleTimer();
+        }
+
         // Function Call Detection
         const functionCalls = output.filter((item: any) => item.type === 'function_call');
         console.log(`🔍 [Debug] response.done output items: ${output.length}, function_calls: ${functionCalls.length}`);
@@ -689,10 +956,8 @@ export class RealtimeSession {
           console.log(`🔍 [Debug] Output types: ${types}`);
         }
         for (const fc of functionCalls) {
-          if (fc.name === 'finalize_reservation') {
-            console.log(`🔧 Function call detected: ${fc.name} (call_id: ${fc.call_id})`);
-            await this.handleFinalizeReservation(fc.call_id, fc.arguments);
-          }
+          console.log(`🔧 Function call detected: ${fc.name} (call_id: ${fc.call_id})`);
+          await this.handleToolCall(fc.name, fc.call_id, fc.arguments);
         }
 
         // Response lifecycle logging (smart cancel removed)
@@ -702,6 +967,8 @@ export class RealtimeSession {
         console.log('🎙️ ユーザー発話開始 (Barge-in検出)');
         // NDJSON: Log VAD speech started
         this.logEvent({ event: 'vad_event', action: 'start' });
+        this.userSpeaking = true;
+        this.touchIdleTimer(true);
 
         // Skip barge-in entirely during greeting phase to prevent self-pickup
         if (this.conversationPhase === 'greeting') {
@@ -710,10 +977,16 @@ export class RealtimeSession {
           return;
         }
 
+        // The goodbye before hanging up is always played to the end
+        if (this.hangup) {
+          this.logEvent({ event: 'barge_in_ignored', reason: 'hanging_up' });
+          return;
+        }
+
         // Check if AI is still actively speaking (has remaining audio to play)
         const remainingMs = this.sentMsTotal - this.playedMsTotal;
-        if (remainingMs < config.bargeInMinRemainMs) {
-          console.log(`⏸️ Barge-in ignored: audio almost finished (${remainingMs}ms remaining < ${config.bargeInMinRemainMs}ms threshold)`);
+        if (remainingMs < this.tuning.bargeInMinRemainMs) {
+          console.log(`⏸️ Barge-in ignored: audio almost finished (${remainingMs}ms remaining < ${this.tuning.bargeInMinRemainMs}ms threshold)`);
           this.logEvent({ event: 'barge_in_ignored', reason: 'audio_almost_finished', remaining_ms: remainingMs });
           return;
         }
@@ -724,7 +997,7 @@ export class RealtimeSession {
           clearTimeout(this.bargeInDebounceTimer);
         }
         this.isBargeInPending = true;
-        console.log(`⏳ Barge-in debounce started (${config.bargeInDebounceMs}ms)`);
+        console.log(`⏳ Barge-in debounce started (${this.tuning.bargeInDebounceMs}ms)`);
 
         this.bargeInDebounceTimer = setTimeout(() => {
           if (this.isBargeInPending) {
@@ -733,12 +1006,14 @@ export class RealtimeSession {
             this.confirmBargeIn();
           }
           this.isBargeInPending = false;
-        }, config.bargeInDebounceMs);
+        }, this.tuning.bargeInDebounceMs);
       }
 
       if (event.type === 'input_audio_buffer.speech_stopped') {
         // NDJSON: Log VAD speech stopped
         this.logEvent({ event: 'vad_event', action: 'stop' });
+        this.userSpeaking = false;
+        this.touchIdleTimer(true);
 
         // Cancel barge-in debounce timer if speech stopped before debounce completed (noise)
         if (this.isBargeInPending && this.bargeInDebounceTimer) {
@@ -755,6 +1030,7 @@ export class RealtimeSession {
         // Skip empty transcripts to avoid UI empty lines
         if (!text?.trim()) return;
 
+        this.touchIdleTimer(true);
         this.turnCount++;
         this.logEvent({
           event: 'user_utterance',
@@ -767,33 +1043,12 @@ export class RealtimeSession {
 
         // Emit transcript to WebSocket client (max 2000 chars)
         this.options.onTranscript?.(text.slice(0, 2000), 'user', true, this.turnCount);
+        this.detectCallerLanguage(text);
 
-        // Phase 3: Check for consent response if awaiting
-        if (this.awaitingFinalizeConsent) {
-          const positivePatterns = ['はい', 'お願い', 'いいです', '大丈夫', 'オッケー', 'OK', 'ok', 'オーケー'];
-          const negativePatterns = ['いいえ', '違う', 'ちょっと', '待って', 'やめ', 'キャンセル', '訂正'];
-
-          const isPositive = positivePatterns.some(p => text.includes(p));
-          const isNegative = negativePatterns.some(p => text.includes(p));
-
-          if (isPositive && !isNegative) {
-            // User confirmed - trigger finalize via response.create
-            this.awaitingFinalizeConsent = false;
-            console.log('✅ [Consent] User confirmed, triggering finalize');
-            this.logEvent({ event: 'consent_confirmed' });
-            this.sendJson({
-              type: 'response.create',
-              response: {
-                modalities: ['text', 'audio'],
-                instructions: `ユーザーが明確に了承しました。「情報を店舗に送信しています」と発話し、直後に finalize_reservation(confirmed:true) を呼び出してください。収集済みの情報をすべて answers に含めてください。`
-              }
-            });
-          } else if (isNegative) {
-            this.awaitingFinalizeConsent = false;
-            console.log('❌ [Consent] User declined, resetting consent state');
-            this.logEvent({ event: 'consent_declined' });
-          }
-          // If neither clear positive nor negative, keep waiting
+        // Phase 3: Classify the reply to request_confirmation (confirm / correct / decline / unclear)
+        const consentRequest = this.consent.request;
+        if (this.consent.state === 'awaiting' && consentRequest) {
+          void this.handleConsentReply(consentRequest, text);
         }
       }
     } catch (err) {
@@ -802,168 +1057,160 @@ export class RealtimeSession {
   }
 
 
-  // ================== Realtime Tooling: verify_reservation ==================
+  // ================== Caller Language ==================
 
   /**
-   * Handle the finalize_reservation function call from the model.
-   * Validates required fields, saves to DB, and sends function_call_output.
+   * Switch the spoken language when one of the first utterances is clearly in another language
+   * (e.g. tourists calling a Japanese store). The session instructions are re-sent with the language block.
    */
-  private async handleFinalizeReservation(callId: string, argsJson: string) {
-    console.log('🔧 finalize_reservation called with:', argsJson);
-    // Timing: Record reservation called
-    this.timings.reservationCalled = Date.now();
-
-    let result: {
-      ok: boolean;
-      reservation_id?: string;
-      deduped?: boolean;
-      error_type?: string;
-      error_code?: string;
-      missing_fields?: string[];
-    };
-
-    // Parse args with error handling
-    let args: any;
-    try {
-      args = JSON.parse(argsJson);
-    } catch (parseErr) {
-      console.error('❌ Failed to parse finalize_reservation args:', parseErr);
-      const errorResult = { ok: false, error_type: 'system', error_code: 'PARSE_ERROR' };
-      this.sendJson({
-        type: 'conversation.item.create',
-        item: { type: 'function_call_output', call_id: callId, output: JSON.stringify(errorResult) }
-      });
-      this.sendJson({ type: 'response.create', response: { modalities: ['text', 'audio'] } });
-      return;
+  private detectCallerLanguage(text: string) {
+    if (!config.enableLanguageDetection || this.languageDetectionTurns >= LANGUAGE_DETECTION_UTTERANCES) return;
+    this.languageDetectionTurns++;
+
+    const detected = detectLanguage(text);
+    if (!detected || detected === this.callerLanguage) return;
+
+    console.log(`🌐 [Language] Caller speaks ${detected}, switching from ${this.callerLanguage}`);
+    this.callerLanguage = detected;
+    this.logEvent({ event: 'language_detected', language: detected, turn: this.turnCount });
+    if (this.connected && !this.reconnecting && this.conversationPhase === 'normal') {
+      this.sendSessionUpdate('normal');
     }
+  }
 
-    // 0. Filter enabled fields only (Handle undefined as enabled)
-    const enabledFields = this.reservationFields.filter(f => f.enabled !== false);
-    const requiredFields = enabledFields.filter(f => f.required);
+  // ================== Reservation Consent ==================
 
-    // Server Guard: Reject if no required fields are configured
-    if (requiredFields.length === 0) {
-      console.error('🚨 [Alert] No required fields configured - rejecting finalize_reservation');
-      this.logEvent({ event: 'config_error', reason: 'no_required_fields' });
-      result = { ok: false, error_type: 'system', error_code: 'NO_REQUIRED_FIELDS' };
-      this.sendJson({
-        type: 'conversation.item.create',
-        item: { type: 'function_call_output', call_id: callId, output: JSON.stringify(result) }
-      });
-      this.sendJson({ type: 'response.create', response: { modalities: ['text', 'audio'] } });
+  /**
+   * Classify the caller's reply to request_confirmation with the mini model and move the consent state.
+   * confirm triggers finalize_reservation (unless a finalize call is already waiting for this reply),
+   * correct asks the model to read back the corrected reservation again.
+   */
+  private async handleConsentReply(request: ConsentRequest, text: string): Promise<void> {
+    const classification = await classifyConsentReply(this.openai, config.openAiSummaryModel, request, text);
+    const intent = this.consent.applyReply(request.id, text, classification);
+    if (!intent || this.closing) {
       return;
     }
 
-    // 1. Check answers type STRICTLY (Wait for valid object)
-    const rawAnswers = args.answers;
-    if (!rawAnswers || typeof rawAnswers !== 'object' || Array.isArray(rawAnswers)) {
-      console.log('❌ Validation failed: answers is not an object');
-      result = { ok: false, error_type: 'system', error_code: 'INVALID_ANSWERS_FORMAT' };
+    const finalizeWaiting = this.consentWaiters.length > 0;
+    this.releaseConsentWaiters();
+    console.log(`🔔 [Consent] Reply classified as ${intent}: ${text}`);
+    this.logEvent({ event: CONSENT_EVENTS[intent], intent, text });
+
+    if (intent === 'confirm' && !finalizeWaiting) {
       this.sendJson({
-        type: 'conversation.item.create',
-        item: { type: 'function_call_output', call_id: callId, output: JSON.stringify(result) }
+        type: 'response.create',
+        response: {
+          modalities: ['text', 'audio'],
+          instructions: `ユーザーが明確に了承しました。「${phrasesFor(this.callerLanguage).sendingReservation}」と発話し、直後に finalize_reservation(confirmed:true) を呼び出してください。収集済みの情報をすべて answers に含めてください。`
+        }
       });
-      this.sendJson({ type: 'response.create', response: { modalities: ['text', 'audio'] } });
-      return;
-    }
-
-    // 2. Check confirmed flag STRICTLY
-    if (args.confirmed !== true) {
-      console.log('❌ Rejected: confirmed is not true');
-      result = {
-        ok: false,
-        error_type: 'not_confirmed'
-      };
-      // function_call_output + response.create で会話を継続
+    } else if (intent === 'correct') {
+      const corrections = classification.corrections.map(c => `${c.field}: ${c.value}`).join('、');
       this.sendJson({
-        type: 'conversation.item.create',
-        item: { type: 'function_call_output', call_id: callId, output: JSON.stringify(result) }
+        type: 'response.create',
+        response: {
+          modalities: ['text', 'audio'],
+          instructions: `お客様から訂正がありました${corrections ? `（${corrections}）` : ''}。訂正内容を反映し、改めて request_confirmation を呼び出して復唱・確認してください。finalize_reservation はまだ呼ばないこと。`
+        }
       });
-      this.sendJson({ type: 'response.create', response: { modalities: ['text', 'audio'] } });
-      return;
     }
+    // decline / unclear: the model answers the caller's turn as usual
+  }
 
-    try {
-      // 3. Coercion & Validation
-      const missingFields: string[] = [];
-      const cleanAnswers: Record<string, any> = {};
-
-      // Allow customer_name_kana even if not in reservationFields (Phase 1 preparation)
-      if (rawAnswers['customer_name_kana']) {
-        cleanAnswers['customer_name_kana'] = rawAnswers['customer_name_kana'];
-        console.log(`📝 [Kana] customer_name_kana received: ${rawAnswers['customer_name_kana']}`);
-      }
-
-      for (const f of enabledFields) {
-        let val = rawAnswers[f.field_key];
+  /** Resolves when the pending confirmation has been answered (or after CONSENT_WAIT_MS) */
+  private waitForConsent(): Promise<void> {
+    if (this.consent.state !== 'awaiting' || this.closing) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.consentWaiters = this.consentWaiters.filter(w => w !== release);
+        resolve();
+      }, CONSENT_WAIT_MS);
+      const release = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      this.consentWaiters.push(release);
+    });
+  }
 
-        // Coercion (Best Effort)
-        if (f.field_type === 'number') {
-          // "5" -> 5, "大人3名" -> 3 (simple parse)
-          const num = parseInt(String(val).replace(/[^\d]/g, ''), 10);
-          if (!isNaN(num)) val = num;
-        }
+  private releaseConsentWaiters() {
+    const waiters = this.consentWaiters;
+    this.consentWaiters = [];
+    waiters.forEach(release => release());
+  }
 
-        // Store cleaned value
-        if (val !== undefined && val !== null && String(val).trim() !== '') {
-          cleanAnswers[f.field_key] = val;
-        }
+  // ================== Realtime Tooling ==================
 
-        // Validation (Required check)
-        if (f.required) {
-          const isEmpty = val === undefined || val === null || String(val).trim() === '';
-          if (isEmpty) {
-            missingFields.push(f.label);
-            continue; // Skip type check if empty
-          }
-        }
+  /**
+   * Per-call state exposed to tools (schema building and handlers).
+   */
+  private buildToolContext(): ToolContext {
+    return {
+      streamSid: this.options.streamSid,
+      callSid: this.options.callSid,
+      userId: this.userId,
+      callerNumber: this.callerNumber,
+      toPhoneNumber: this.options.toPhoneNumber,
+      isWebDemo: this.options.isWebDemo ?? false,
+      reservationFields: this.reservationFields,
+      language: this.callerLanguage,
+      configMetadata: this.configMetadata,
+      businessCalendar: this.businessCalendar,
+      storage: this.storage,
+      notifications: this.notifications,
+      consent: this.consent,
+      waitForConsent: () => this.waitForConsent(),
+      logEvent: (partial) => { void this.logEvent(partial); },
+      markTiming: (key) => { this.timings[key] = Date.now(); },
+      // Keep the raw args for the top-level fallback, but prefer the validated answers
+      createReservation: (answers, args) => this.insertReservationFromTool({ ...args, answers }),
+      recordTransfer: (reason, summary) => this.recordTransfer(reason, summary),
+      endCall: () => this.endCallAfterPlayback(),
+    };
+  }
 
-        // Validation (Type check) - only if value exists
-        if (val !== undefined && val !== null && String(val).trim() !== '') {
-          if (f.field_type === 'number' && typeof val !== 'number') {
-            missingFields.push(`${f.label} (数値形式)`);
-          } else if (f.field_type === 'date' && !/^\d{4}-\d{2}-\d{2}$/.test(String(val))) {
-            missingFields.push(`${f.label} (YYYY-MM-DD形式)`);
-          } else if (f.field_type === 'time' && !/^\d{2}:\d{2}$/.test(String(val))) {
-            missingFields.push(`${f.label} (HH:mm形式)`);
-          }
-        }
-      }
+  /**
+   * Remember where in the conversation the call was handed over to staff.
+   */
+  private recordTransfer(reason: string, summary: string) {
+    const transferredAt = new Date().toISOString();
+    this.transfer = { transferredAt, turn: this.turnCount, reason };
+    this.transcript.push({ role: 'system', text: `スタッフへ転送（${reason}）: ${summary}`, timestamp: transferredAt });
+    this.logEvent({ event: 'call_transferred', reason, turn: this.turnCount });
+    console.log(`📲 [Transfer] Call transferred at turn ${this.turnCount} (reason: ${reason})`);
+  }
 
-      if (missingFields.length > 0) {
-        console.log('❌ Validation failed, missing fields:', missingFields);
-        result = {
-          ok: false,
-          missing_fields: missingFields,
-          error_type: 'missing_fields'
-        };
-      } else {
-        // 4. DB Insert (with clean answers)
-        // Pass a merged object to insertReservation (keep args for fallback, but prefer answers)
-        const insertResult = await this.insertReservationFromTool({ ...args, answers: cleanAnswers });
-        // Timing: Record DB done
-        this.timings.reservationDbDone = Date.now();
-        result = insertResult;
-
-        if (result.ok) {
-          // Success: reservation_id and deduped are set by insertReservationFromTool
-        }
-      }
-    } catch (err) {
-      console.error('❌ finalize_reservation error:', err);
-      result = { ok: false, error_type: 'system', error_code: 'INTERNAL_ERROR' };
+  /**
+   * Handle a function call from the model via the ToolRegistry.
+   * Always sends function_call_output (errors included) and triggers the next response.
+   */
+  private async handleToolCall(name: string, callId: string, argsJson: string) {
+    console.log(`🔧 ${name} called with:`, argsJson);
+
+    const { result, instructions, skipResponse } = await this.toolRegistry.execute(name, argsJson, this.buildToolContext());
+    if (name === 'finalize_reservation') {
+      metrics.finalizeReservation.inc({
+        ok: String(result.ok),
+        error_code: result.ok ? 'none' : String(result.error_code ?? result.error_type ?? 'unknown'),
+      });
+    }
+    if (name === 'take_message' && result.ok) {
+      this.messageTaken = true;
     }
 
     // Log tool call for debugging and audit
     this.logEvent({
       event: 'tool_call',
-      tool: 'finalize_reservation',
+      tool: name,
       call_id: callId,
       args: argsJson,
       result: JSON.stringify(result)
     });
 
-    // 5. Send function_call_output back to the model
+    // Send function_call_output back to the model
     this.sendJson({
       type: 'conversation.item.create',
       item: {
@@ -973,33 +1220,20 @@ export class RealtimeSession {
       }
     });
 
-    // Build instructions based on result
-    let responseInstructions: string;
-    if (result.ok) {
-      // Success: Fixed phrase, must be spoken exactly (one sentence only)
-      responseInstructions = `【厳守】次の1文のみを一字一句変えずに発話し、それ以外は何も言わないこと：
-「店舗へ送信完了しました。店員確認後、SMSで成否をご連絡いたします。」`;
-    } else if (result.error_type === 'missing_fields' && result.missing_fields) {
-      // Missing fields: List fields and prompt re-collection
-      const fieldList = result.missing_fields.join('、');
-      responseInstructions = `以下の項目が不足しています：${fieldList}
-これらを順番にお伺いし、揃ったら再度 finalize_reservation を呼び出してください。`;
-    } else {
-      // System error: Fixed error message
-      responseInstructions = `【厳守】次の1文のみを一字一句変えずに発話し、それ以外は何も言わないこと：
-「システムに問題が発生しました。恐れ入りますが、店舗へ直接お電話ください。」`;
+    if (skipResponse) {
+      console.log('📤 function_call_output sent (no follow-up response)');
+      return;
     }
 
-    // Trigger the model to generate next response with specific instructions
+    // Trigger the model to generate next response (with tool-specific instructions if any)
     this.sendJson({
       type: 'response.create',
-      response: {
-        modalities: ['text', 'audio'],
-        instructions: responseInstructions
-      }
+      response: instructions
+        ? { modalities: ['text', 'audio'], instructions }
+        : { modalities: ['text', 'audio'] }
     });
 
-    console.log('📤 function_call_output sent, response.create triggered with instructions');
+    console.log('📤 function_call_output sent, response.create triggered');
   }
 
   /**
@@ -1056,11 +1290,11 @@ export class RealtimeSession {
     const requestedDate = getValue('requested_date');
     const requestedTime = getValue('requested_time');
 
-    // Insert directly - rely on unique constraint (23505) for duplicate detection
+    // Insert directly - rely on unique constraint (DuplicateRecordError) for duplicate detection
     try {
-      const { data: newRes, error: insertErr } = await this.supabase
-        .from('reservation_requests')
-        .insert({
+      let newRes: { id: string };
+      try {
+        newRes = await this.storage.reservations.create({
           user_id: this.userId,
           call_sid: callSid,
           customer_phone: this.callerNumber || 'Unknown',
@@ -1070,13 +1304,12 @@ export class RealtimeSession {
           party_size: partySize,         // Can be NULL
           status: 'pending',
           answers: dbAnswers,            // Store full structure
+          confirmation_audit: this.consent.audit,
+          language: this.callerLanguage,
           source: RESERVATION_SOURCE.REALTIME_TOOL
-        })
-        .select('id')
-        .single();
-
-      if (insertErr) {
-        if (insertErr.code === '23505') {
+        });
+      } catch (insertErr) {
+        if (insertErr instanceof DuplicateRecordError) {
           // Unique constraint violation - already exists (race condition)
           console.log('⚠️ Race condition detected, reservation already exists');
           return { ok: true, deduped: true };
@@ -1089,19 +1322,35 @@ export class RealtimeSession {
 
       // Send notification asynchronously (don't block tool output)
       console.log('📨 Notification queued');
-      void notificationService.notifyReservation({
+      // Same validated values as the inserted row
+      void this.notifications.notifyReservation({
+        id: newRes.id,
         user_id: this.userId,
-        customer_name: args.customer_name || 'Unknown',
+        customer_name: displayName,
         customer_phone: this.callerNumber || 'Unknown',
-        party_size: args.party_size,
-        requested_date: args.requested_date,
-        requested_time: args.requested_time,
-        requested_datetime_text: `${args.requested_date} ${args.requested_time}`,
+        party_size: partySize,
+        requested_date: requestedDate,
+        requested_time: requestedTime,
+        requested_datetime_text: `${requestedDate ?? ''} ${requestedTime ?? ''}`.trim() || null,
+        language: this.callerLanguage,
         answers: notificationAnswers
       })
         .then(() => console.log('✅ Notification sent'))
         .catch((err) => console.error('❌ Notification failed', err));
 
+      // SMS receipt to the caller (skipped for web demo calls)
+      if (config.enableReservationSms && !this.options.isWebDemo) {
+        void sendReservationReceipt(this.storage, {
+          reservationId: newRes.id,
+          callSid,
+          to: this.callerNumber || '',
+          from: this.options.toPhoneNumber,
+          storeName: this.configMetadata.store_name,
+          language: this.callerLanguage,
+          answers: notificationAnswers,
+        }).catch((err) => console.error('❌ Reservation receipt SMS failed', err));
+      }
+
       return { ok: true, reservation_id: newRes.id, deduped: false };
     } catch (dbErr: any) {
       console.error('❌ DB error in insertReservationFromTool:', {
@@ -1116,6 +1365,295 @@ export class RealtimeSession {
     }
   }
 
+  // ================== Operator Access (/admin/calls) ==================
+
+  getSnapshot(): CallSnapshot {
+    return {
+      callSid: this.options.callSid,
+      streamSid: this.options.streamSid,
+      userId: this.userId,
+      callerNumber: this.callerNumber,
+      channel: this.channel,
+      startedAt: new Date(this.startTime).toISOString(),
+      durationSeconds: Math.round((Date.now() - this.startTime) / 1000),
+      phase: this.hangup ? 'hanging_up' : this.conversationPhase,
+      turnCount: this.turnCount,
+      language: this.callerLanguage,
+      consentState: this.consent.state,
+      reconnecting: this.reconnecting,
+      reservationCreated: this.reservationCreated,
+      transferred: !!this.transfer,
+    };
+  }
+
+  getTranscript(): TranscriptEntry[] {
+    return this.transcript.map(entry => ({ ...entry }));
+  }
+
+  /**
+   * Operator force-termination of a stuck call: no goodbye, hang up right away.
+   * Phone: Twilio REST hang-up (best effort), then the stream is closed in any case.
+   */
+  async terminateByOperator(): Promise<void> {
+    if (this.closing) return;
+    console.warn(`🛑 [Admin] Call ${this.options.callSid} terminated by operator`);
+    this.setEndedBy('operator');
+    this.logEvent({ event: 'call_terminated_by_operator', turn: this.turnCount });
+    this.transcript.push({ role: 'system', text: '管理者が通話を強制終了しました', timestamp: new Date().toISOString() });
+    clearTimeout(this.hangupFallbackTimer);
+
+    if (!this.options.isWebDemo) {
+      try {
+        await hangUpCall(this.options.callSid);
+      } catch (err) {
+        console.error('❌ Failed to hang up call via Twilio:', err);
+      }
+    }
+    this.options.onEndCall?.('operator');
+  }
+
+  /**
+   * Whisper from the store staff: the caller does not hear the instruction, only the AI's reaction.
+   * - system_message: added to the conversation, followed from the next answer on
+   * - response: the AI answers right away following the instruction
+   */
+  async injectStaffInstruction(instruction: StaffInstruction): Promise<StaffInstructionResult> {
+    const blocked = this.staffInstructionBlocker(instruction.mode);
+    if (blocked) {
+      return { status: blocked };
+    }
+
+    // Audit trail first: an instruction that cannot be recorded is never sent to the call
+    let injectionId: string;
+    try {
+      ({ id: injectionId } = await this.storage.callInjections.create({
+        user_id: this.userId ?? null,
+        call_sid: this.options.callSid,
+        injected_by: instruction.injectedBy,
+        mode: instruction.mode,
+        instructions: instruction.text,
+        turn: this.turnCount,
+      }));
+    } catch (err) {
+      console.error(`❌ Failed to record call injection for ${this.options.callSid}:`, err);
+      return { status: 'not_recorded' };
+    }
+
+    // The call may have moved on while the record was written
+    const blockedNow = this.staffInstructionBlocker(instruction.mode);
+    if (blockedNow) {
+      console.warn(`⚠️ [Staff] Recorded instruction ${injectionId} was not sent (${blockedNow})`);
+      return { status: blockedNow };
+    }
+
+    console.log(`🗣️ [Staff] Instruction injected into ${this.options.callSid} (${instruction.mode})`);
+    this.logEvent({
+      event: 'staff_instruction_injected',
+      mode: instruction.mode,
+      injected_by: instruction.injectedBy,
+      text: instruction.text,
+      turn: this.turnCount,
+    });
+    this.transcript.push({ role: 'system', text: `スタッフからの指示: ${instruction.text}`, timestamp: new Date().toISOString() });
+
+    if (instruction.mode === 'system_message') {
+      this.sendJson({
+        type: 'conversation.item.create',
+        item: {
+          type: 'message',
+          role: 'system',
+          content: [{ type: 'input_text', text: `【店舗スタッフからの指示】${instruction.text}` }],
+        },
+      });
+    } else {
+      this.sendJson({
+        type: 'response.create',
+        response: {
+          modalities: ['text', 'audio'],
+          instructions: `店舗スタッフから次の指示がありました。指示に従って、お客様へ自然に伝えてください。指示があったことには触れないでください。\n${instruction.text}`,
+        },
+      });
+    }
+    return { status: 'injected', injectionId };
+  }
+
+  /** Why a staff instruction cannot be sent right now (null when it can) */
+  private staffInstructionBlocker(mode: CallInjectionMode): 'unavailable' | 'busy' | null {
+    if (this.closing || this.hangup || this.reconnecting || !this.connected || this.ws?.readyState !== WebSocket.OPEN) {
+      return 'unavailable';
+    }
+    if (mode === 'response' && (this.responseInProgress || this.conversationPhase === 'greeting')) {
+      return 'busy';
+    }
+    return null;
+  }
+
+  // ================== Call Timeouts / Hangup ==================
+
+  /**
+   * Record who ended the call (saved as call_logs.ended_by). The first cause wins.
+   */
+  setEndedBy(endedBy: CallEndedBy) {
+    this.endedBy ??= endedBy;
+  }
+
+  /**
+   * Timeout from config_metadata (per tenant) or the env default, in ms. 0 = disabled.
+   */
+  private timeoutMs(key: 'idle_timeout_seconds' | 'max_call_duration_seconds', defaultSeconds: number): number {
+    const seconds = Number(this.configMetadata[key] ?? defaultSeconds);
+    return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : 0;
+  }
+
+  /**
+   * (Re)start the silence countdown. Only runs in the normal phase.
+   * @param userActivity - the caller spoke: the next silence starts over with 「もしもし？」
+   */
+  private touchIdleTimer(userActivity = false) {
+    if (userActivity) {
+      this.idlePrompted = false;
+    }
+    clearTimeout(this.idleTimer);
+    this.idleTimer = undefined;
+
+    const idleMs = this.timeoutMs('idle_timeout_seconds', config.callIdleTimeoutSeconds);
+    if (!idleMs || this.conversationPhase !== 'normal' || this.hangup || this.closing) return;
+    this.idleTimer = setTimeout(() => this.onIdleTimeout(), idleMs);
+  }
+
+  /**
+   * No speech from either side: ask 「もしもし？」 once, then say goodbye and hang up.
+   */
+  private onIdleTimeout() {
+    this.idleTimer = undefined;
+
+    // Not silence: the caller is talking, the AI is answering or still playing, or Realtime is reconnecting
+    const audioPlaying = !this.clearing && this.playedMsTotal < this.sentMsTotal;
+    if (this.userSpeaking || this.responseInProgress || audioPlaying || this.reconnecting) {
+      this.touchIdleTimer();
+      return;
+    }
+
+    if (!this.idlePrompted) {
+      this.idlePrompted = true;
+      console.log('⏰ [Timeout] Caller silent, asking if they are still there');
+      this.logEvent({ event: 'call_idle_prompt', turn: this.turnCount });
+      this.sendJson({
+        type: 'response.create',
+        response: {
+          modalities: ['text', 'audio'],
+          instructions: `お客様からの応答が途切れています。「${phrasesFor(this.callerLanguage).idlePrompt}」とだけ短く問いかけてください。`,
+        },
+      });
+      this.touchIdleTimer();
+      return;
+    }
+
+    this.beginHangup(
+      'idle_timeout',
+      `お客様からの応答がありません。「${phrasesFor(this.callerLanguage).idleGoodbye}」と丁寧に伝えて会話を終えてください。質問はしないでください。`,
+      '無音が続いたため、AIが通話を終了しました',
+    );
+  }
+
+  /**
+   * Hard limit on the call length, counted from the start of the call.
+   */
+  private startMaxDurationTimer() {
+    const maxMs = this.timeoutMs('max_call_duration_seconds', config.callMaxDurationSeconds);
+    if (!maxMs || this.closing) return;
+
+    const remainingMs = Math.max(0, this.startTime + maxMs - Date.now());
+    this.maxDurationTimer = setTimeout(() => this.beginHangup(
+      'max_duration',
+      `通話時間の上限に達しました。「${phrasesFor(this.callerLanguage).maxDurationGoodbye}」と丁寧にお詫びして会話を終えてください。質問はしないでください。`,
+      '通話時間の上限に達したため、AIが通話を終了しました',
+    ), remainingMs);
+  }
+
+  /**
+   * Stop whatever the AI is saying and request the goodbye.
+   * The call is hung up once the goodbye has been played (checkGoodbyePlayed).
+   */
+  private beginHangup(reason: 'idle_timeout' | 'max_duration', instructions: string, transcriptText: string) {
+    if (!this.startHangup(reason, 'timeout')) return;
+
+    console.log(`⏰ [Timeout] ${reason}: saying goodbye before hanging up`);
+    this.logEvent({ event: 'call_timeout', reason, turn: this.turnCount });
+    this.transcript.push({ role: 'system', text: transcriptText, timestamp: new Date().toISOString() });
+
+    if (this.responseInProgress) {
+      this.sendJson({ type: 'response.cancel' });
+    }
+    if (!this.clearing && this.playedMsTotal < this.sentMsTotal) {
+      this.clearing = true;
+      this.options.onClearTwilio();
+    }
+    this.sendJson({
+      type: 'response.create',
+      response: { modalities: ['text', 'audio'], instructions },
+    });
+  }
+
+  /**
+   * end_call: the goodbye is the response that called the tool (already done), hang up once it has been played.
+   */
+  private endCallAfterPlayback() {
+    if (!this.startHangup('end_call', 'ai')) return;
+
+    console.log('👋 [EndCall] AI ended the conversation, hanging up after playback');
+    this.hangup!.goodbyeDone = true;
+    this.checkGoodbyePlayed();
+  }
+
+  /**
+   * Enter the hanging-up state: no more turns (caller audio / barge-in ignored) and no timeouts.
+   * Returns false if the call is already ending.
+   */
+  private startHangup(reason: HangupReason, endedBy: CallEndedBy): boolean {
+    if (this.hangup || this.closing) return false;
+
+    this.hangup = { reason, goodbyeDone: false, ended: false };
+    this.setEndedBy(endedBy);
+    clearTimeout(this.idleTimer);
+    clearTimeout(this.maxDurationTimer);
+
+    this.hangupFallbackTimer = setTimeout(() => {
+      console.warn('⚠️ [Hangup] Goodbye playback not confirmed, hanging up anyway');
+      void this.endCallAfterGoodbye();
+    }, HANGUP_FALLBACK_MS);
+    return true;
+  }
+
+  /** Hang up once the goodbye response is done and Twilio has played all of its audio (marks) */
+  private checkGoodbyePlayed() {
+    if (!this.hangup?.goodbyeDone) return;
+    if (!this.clearing && this.playedMsTotal < this.sentMsTotal) return;
+    void this.endCallAfterGoodbye();
+  }
+
+  /**
+   * Phone: hang up through the Twilio REST API. Web demo (or REST failure): close the stream.
+   */
+  private async endCallAfterGoodbye() {
+    if (!this.hangup || this.hangup.ended) return;
+    this.hangup.ended = true;
+    clearTimeout(this.hangupFallbackTimer);
+
+    const { reason } = this.hangup;
+    this.logEvent({ event: 'call_hangup', reason });
+
+    if (!this.options.isWebDemo) {
+      try {
+        await hangUpCall(this.options.callSid);
+        return;
+      } catch (err) {
+        console.error('❌ Failed to hang up call via Twilio:', err);
+      }
+    }
+    this.options.onEndCall?.(reason);
+  }
+
   // =========================================================================
 
   /**
@@ -1175,13 +1713,9 @@ export class RealtimeSession {
       console.log(`💳 Reporting usage to Stripe for user ${userId}...`);
 
       // 1. Fetch stripe_customer_id from profiles table
-      const { data: profile, error: profileError } = await this.supabase
-        .from('profiles')
-        .select('stripe_customer_id')
-        .eq('id', userId)
-        .single();
+      const profile = await this.storage.profiles.findById(userId);
 
-      if (profileError || !profile?.stripe_customer_id) {
+      if (!profile?.stripe_customer_id) {
         console.warn('⚠️ No Stripe customer ID found for user, skipping usage report');
         return;
       }
@@ -1245,79 +1779,63 @@ export class RealtimeSession {
       console.log(`✅ Usage record created: ${usageRecord.id} (${durationMinutes} minutes)`);
     } catch (err) {
       console.error('❌ Failed to report usage to Stripe:', err);
+      metrics.stripeUsageReportFailures.inc();
       // Don't throw - usage reporting failure shouldn't block call log saving
     }
   }
 
-  async saveCallLogToSupabase() {
+  async saveCallLog() {
     if (!this.userId || !this.callerNumber) {
-      console.warn('⚠️ Missing userId or callerNumber, skipping Supabase log save.');
+      console.warn('⚠️ Missing userId or callerNumber, skipping call log save.');
       return;
     }
 
-    // 通話内容の要約を生成
-    let summary = '要約なし';
-    const formattedTranscript = this.formatTranscriptForSummary();
-
-    try {
-      if (this.transcript.length > 0) {
-        console.log(`🤖 Generating call summary... (Model: ${config.openAiSummaryModel})`);
-
-
-        const completion = await this.openai.chat.completions.create({
-          model: config.openAiSummaryModel,
-          messages: [
-            {
-              role: 'developer',
-              content: SUMMARY_SYSTEM_PROMPT
-            },
-            {
-              role: 'user',
-              content: formattedTranscript
-            }
-          ],
-
-          // 要約APIは Responses エンドポイント(Chat Completions) + max_completion_tokens を使う
-          max_completion_tokens: 1000,
-        });
-
-        console.log('🔍 OpenAI Summary Response:', JSON.stringify(completion, null, 2));
-
-        const generatedSummary = completion.choices[0]?.message?.content?.trim();
-        if (generatedSummary) {
-          summary = generatedSummary;
-          console.log(`✨ Generated summary: "${summary}"`);
-        } else {
-          console.warn('⚠️ Summary generation returned empty content.');
-        }
+    // 通話内容の要約を生成（構造化JSON。見出しは summary に保存）
+    let summary: CallSummaryResult | null = null;
+    if (this.transcript.length > 0) {
+      console.log(`🤖 Generating call summary... (Model: ${config.openAiSummaryModel})`);
+      summary = await generateCallSummary(this.openai, config.openAiSummaryModel, this.formatTranscriptForSummary());
+      if (summary) {
+        console.log(`✨ Generated summary: "${summary.text}"`);
       }
-    } catch (err) {
-      console.error('⚠️ Failed to generate summary, using default:', err);
-      // エラーが発生してもDB保存は継続する
     }
+    const structured = summary?.structured ?? null;
 
-    // Supabaseへ保存
+    // call_logs へ保存
     try {
       const endTime = Date.now();
       const durationSeconds = Math.round((endTime - this.startTime) / 1000);
       console.log('⏱️ Call duration:', durationSeconds, 'seconds');
 
-      const { data: callLog, error } = await this.supabase.from('call_logs').insert({
+      const callLog = await this.storage.callLogs.create({
         user_id: this.userId,
         call_sid: this.options.callSid,
         caller_number: this.callerNumber,
         recipient_number: this.options.toPhoneNumber || '',
         transcript: this.transcript,
-        summary: summary,
-        status: 'completed',
+        summary: summary?.text ?? '要約なし',
+        category: structured?.category ?? null,
+        sentiment: structured?.sentiment ?? null,
+        urgency: structured?.urgency ?? null,
+        follow_up_action: structured?.follow_up_action ?? null,
+        // take_message already recorded a callback request even if the summary missed it
+        needs_callback: structured?.follow_up_action === 'callback' || this.messageTaken,
+        summary_data: structured,
+        status: this.transfer ? 'transferred' : 'completed',
         duration_seconds: durationSeconds,
+        transferred_at: this.transfer?.transferredAt ?? null,
+        transfer_turn: this.transfer?.turn ?? null,
+        transfer_reason: this.transfer?.reason ?? null,
+        ended_by: this.endedBy ?? 'caller',
+        language: this.callerLanguage,
         created_at: new Date().toISOString(),
-      }).select().single();
+      }).catch((error) => {
+        console.error('❌ Failed to save call log:', error);
+        return null;
+      });
 
-      if (error) {
-        console.error('❌ Failed to save call log to Supabase:', error);
-      } else {
-        console.log('✅ Call log saved to Supabase (ID:', callLog.id, ')');
+      if (callLog) {
+        console.log('✅ Call log saved (ID:', callLog.id, ')');
 
         // Report usage to Stripe for billing
         await this.reportUsageToStripe(this.userId, durationSeconds);
@@ -1325,14 +1843,16 @@ export class RealtimeSession {
         // Reservation already saved via finalize_reservation tool
         // Just link the call_log_id to the existing reservation (if any)
         await this.linkCallLogToReservation(callLog.id);
+        await this.linkCallLogToCallbackRequest(callLog.id);
 
-        // Fallback removed - just log warning if no reservation was created
+        // The model may have forgotten finalize_reservation: try to recover the request from the transcript
         if (!this.reservationCreated) {
           console.warn('⚠️ [Alert] Call ended without reservation being created via tool');
           this.logEvent({
             event: 'reservation_not_created',
             transcript_length: this.transcript.length
           });
+          await this.recoverReservationFromTranscript(callLog.id);
         }
       }
     } catch (err) {
@@ -1340,22 +1860,124 @@ export class RealtimeSession {
     }
   }
 
+  /**
+   * Post-call fallback for a reservation the caller agreed to but the model never submitted.
+   * Saved as pending + needs_review (source phone_call_realtime_fallback); no SMS receipt is sent to the caller.
+   * Calls handed over to staff or ending with take_message are left to the store.
+   */
+  private async recoverReservationFromTranscript(callLogId: string) {
+    if (!config.enableReservationRecovery || !this.userId || this.transfer || this.messageTaken) return;
+    if (!this.transcript.some(entry => entry.role === 'user')) return;
+
+    const fields = this.reservationFields.filter(f => f.enabled !== false);
+    if (!fields.some(f => f.required)) return;
+
+    const skip = (outcome: 'not_found' | 'incomplete' | 'duplicate' | 'failed', reason: string) => {
+      console.log(`🔎 [Recovery] No reservation recovered (${reason})`);
+      metrics.reservationRecovery.inc({ outcome });
+      this.logEvent({ event: 'reservation_recovery_skipped', reason });
+    };
+
+    const extracted = await extractReservationFromTranscript(this.openai, config.openAiSummaryModel, fields, this.formatTranscriptForSummary());
+    if (!extracted) {
+      skip('failed', 'extraction_failed');
+      return;
+    }
+    if (!extracted.requested || !extracted.confirmed) {
+      skip('not_found', extracted.requested ? 'not_confirmed' : 'not_requested');
+      return;
+    }
+
+    const validation = validateReservationAnswers(extracted.answers, fields, {
+      horizonDays: bookingHorizonDaysOf(this.configMetadata),
+      businessCalendar: this.businessCalendar,
+    });
+    if (!validation.ok) {
+      skip('incomplete', String(validation.error_type));
+      return;
+    }
+
+    const answers = validation.answers;
+    const notificationAnswers: Record<string, any> = {};
+    for (const f of fields) {
+      if (answers[f.field_key] !== undefined) {
+        notificationAnswers[f.label] = answers[f.field_key];
+      }
+    }
+
+    try {
+      const reservation = await this.storage.reservations.create({
+        user_id: this.userId,
+        call_sid: this.options.callSid,
+        call_log_id: callLogId,
+        customer_phone: this.callerNumber || 'Unknown',
+        customer_name: answers.customer_name_kana || answers.customer_name || 'Unknown',
+        requested_date: answers.requested_date ?? null,
+        requested_time: answers.requested_time ?? null,
+        party_size: answers.party_size ?? null,
+        status: 'pending',
+        answers,
+        confirmation_audit: this.consent.audit,
+        language: this.callerLanguage,
+        source: RESERVATION_SOURCE.REALTIME_FALLBACK,
+        needs_review: true,
+      });
+
+      console.warn(`🛟 [Recovery] Reservation recovered from transcript: ${reservation.id}`);
+      metrics.reservationRecovery.inc({ outcome: 'created' });
+      this.logEvent({ event: 'reservation_recovered', text: extracted.evidence ?? undefined, args: JSON.stringify(answers) });
+
+      void this.notifications.notifyReservation({
+        id: reservation.id,
+        user_id: this.userId,
+        customer_name: answers.customer_name || 'Unknown',
+        customer_phone: this.callerNumber || 'Unknown',
+        party_size: answers.party_size ?? null,
+        requested_date: answers.requested_date ?? null,
+        requested_time: answers.requested_time ?? null,
+        requested_datetime_text: `${answers.requested_date ?? ''} ${answers.requested_time ?? ''}`.trim() || null,
+        language: this.callerLanguage,
+        needs_review: true,
+        answers: notificationAnswers,
+      }).catch((err) => console.error('❌ Notification failed', err));
+    } catch (err) {
+      if (err instanceof DuplicateRecordError) {
+        // finalize_reservation won the race after all
+        skip('duplicate', 'already_exists');
+        return;
+      }
+      console.error('❌ [Recovery] Failed to save recovered reservation:', err);
+      skip('failed', 'db_insert_failed');
+    }
+  }
+
   /**
    * Link call_log_id to existing reservation (if any was created via finalize_reservation tool)
    */
   private async linkCallLogToReservation(callLogId: string) {
-    const { data, error, count } = await this.supabase
-      .from('reservation_requests')
-      .update({ call_log_id: callLogId })
-      .eq('call_sid', this.options.callSid)
-      .select();
-
-    if (error) {
-      console.warn('⚠️ Failed to link call_log_id to reservation:', error.message);
-    } else if (data && data.length > 0) {
-      console.log('🔗 Linked call_log_id to reservation (ID:', data[0].id, ')');
-    } else {
-      console.log('ℹ️ No existing reservation found for call_sid:', this.options.callSid);
+    try {
+      const linkedIds = await this.storage.reservations.linkCallLog(this.options.callSid, callLogId);
+      if (linkedIds.length > 0) {
+        console.log('🔗 Linked call_log_id to reservation (ID:', linkedIds[0], ')');
+      } else {
+        console.log('ℹ️ No existing reservation found for call_sid:', this.options.callSid);
+      }
+    } catch (error) {
+      console.warn('⚠️ Failed to link call_log_id to reservation:', error);
+    }
+  }
+
+  /**
+   * Link call_log_id to the callback request left via take_message (if any)
+   */
+  private async linkCallLogToCallbackRequest(callLogId: string) {
+    try {
+      const linkedIds = await this.storage.callbackRequests.linkCallLog(this.options.callSid, callLogId);
+      if (linkedIds.length > 0) {
+        console.log('🔗 Linked call_log_id to callback request (ID:', linkedIds[0], ')');
+      }
+    } catch (error) {
+      console.warn('⚠️ Failed to link call_log_id to callback request:', error);
     }
   }
 
@@ -1390,6 +2012,10 @@ export class RealtimeSession {
             this.greetingAudioEndMs = 0;  // Reset to avoid re-triggering
           }
         }
+
+        // Silence is counted from the end of playback; a pending hangup waits for the goodbye to be played
+        this.touchIdleTimer();
+        this.checkGoodbyePlayed();
       } else {
         if (config.debugMarkEvents) {
           console.log(`🏷️ [Mark] Ignored during clearing: ${name}`);
@@ -1405,6 +2031,15 @@ export class RealtimeSession {
   }
 
   close() {
+    if (!this.closing) {
+      this.recordCallEnded();
+    }
+    this.closing = true;
+    clearTimeout(this.idleTimer);
+    clearTimeout(this.maxDurationTimer);
+    clearTimeout(this.hangupFallbackTimer);
+    this.releaseConsentWaiters();
+
     // Stop debug observer summary interval
     this.debugObserver.stopSummaryInterval();
 
@@ -1414,12 +2049,25 @@ export class RealtimeSession {
     if (this.ws) {
       this.ws.close();
     }
-    this.saveCallLogToSupabase();
+    this.saveCallLog();
 
     // Close the log file WriteStream
     closeLogStream(this.options.logFile);
   }
 
+  private get channel(): CallChannel {
+    return this.options.isWebDemo ? 'web_demo' : 'phone';
+  }
+
+  private recordCallEnded() {
+    const outcome: CallOutcome = this.reservationCreated ? 'reservation'
+      : this.transfer ? 'transferred'
+        : this.messageTaken ? 'message'
+          : 'none';
+    metrics.activeCalls.dec({ channel: this.channel });
+    metrics.callsEnded.inc({ channel: this.channel, outcome, ended_by: this.endedBy ?? 'caller' });
+  }
+
   /**
    * Log timing summary for performance monitoring.
    */
@@ -0,0 +1,90 @@
+import { Request, Response } from 'express';
+import { authenticateDashboardRequest } from './dashboardAuth';
+import { ReservationDecision, sendReservationDecisionSms } from './sms';
+import { Storage } from './storage';
+
+const DECISIONS: ReservationDecision[] = ['approved', 'rejected'];
+const MAX_MESSAGE_LENGTH = 300;
+/** reservation_requests.id format (Postgres rejects anything else with 22P02 instead of finding no row) */
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * POST /reservations/:id/decision
+ * Body: { decision: 'approved' | 'rejected', message?: string }
+ *
+ * Transitions reservation_requests.status from pending to approved/rejected
+ * and texts the decision to customer_phone.
+ */
+export const createReservationDecisionHandler = (storage: Storage) => async (req: Request, res: Response) => {
+    const user = await authenticateDashboardRequest(storage, req);
+    if (!user) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+    }
+
+    const reservationId = String(req.params.id);
+    const decision = req.body?.decision as ReservationDecision;
+    const message = typeof req.body?.message === 'string' ? req.body.message.trim() : '';
+
+    if (!DECISIONS.includes(decision)) {
+        res.status(400).json({ error: 'decision must be "approved" or "rejected"' });
+        return;
+    }
+    if (message.length > MAX_MESSAGE_LENGTH) {
+        res.status(400).json({ error: `message must be at most ${MAX_MESSAGE_LENGTH} characters` });
+        return;
+    }
+
+    try {
+        const reservation = UUID_PATTERN.test(reservationId) ? await storage.reservations.findById(reservationId) : null;
+
+        if (!reservation) {
+            res.status(404).json({ error: 'Reservation not found' });
+            return;
+        }
+        if (reservation.user_id !== user.userId) {
+            console.warn(`🚫 Reservation decision rejected: user ${user.userId} does not own reservation ${reservationId}`);
+            res.status(403).json({ error: 'Forbidden' });
+            return;
+        }
+        if (reservation.status !== 'pending') {
+            res.status(409).json({ error: `Reservation already ${reservation.status}`, status: reservation.status });
+            return;
+        }
+
+        // Conditional update guards against concurrent decisions
+        const decidedAt = new Date().toISOString();
+        const updated = await storage.reservations.decide(reservationId, decision, message || null, decidedAt);
+
+        if (!updated) {
+            res.status(409).json({ error: 'Reservation was decided concurrently' });
+            return;
+        }
+
+        console.log(`✅ Reservation ${reservationId} ${decision} by ${user.userId}`);
+
+        const [profile, prompt] = await Promise.all([
+            storage.profiles.findById(user.userId),
+            storage.tenantConfig.getPromptSettings(user.userId),
+        ]);
+
+        const smsStatus = await sendReservationDecisionSms(storage, {
+            reservationId,
+            decision,
+            to: reservation.customer_phone,
+            from: profile?.phone_number ?? undefined,
+            storeName: prompt?.config_metadata?.store_name,
+            requestedDate: reservation.requested_date,
+            requestedTime: reservation.requested_time,
+            partySize: reservation.party_size,
+            message: message || undefined,
+            language: reservation.language ?? undefined,
+        });
+        console.log(`📱 Decision SMS for reservation ${reservationId}: ${smsStatus}`);
+
+        res.json({ ok: true, id: reservationId, status: decision, decided_at: decidedAt, sms: smsStatus });
+    } catch (err) {
+        console.error('❌ Failed to apply reservation decision:', err);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
@@ -0,0 +1,121 @@
+import OpenAI from 'openai';
+import { ReservationField } from './types';
+
+/**
+ * Post-call reservation recovery: when the model never called finalize_reservation, read the transcript
+ * back with the tenant's reservation form and find a reservation the caller asked for and agreed to.
+ * Recovered requests are saved with source phone_call_realtime_fallback and needs_review, so that the
+ * store checks them with the caller instead of treating them as confirmed.
+ */
+
+export interface RecoveredReservation {
+  /** The caller asked for a reservation */
+  requested: boolean;
+  /** The caller clearly agreed to the read-back / to sending the request to the store */
+  confirmed: boolean;
+  /** The caller's words showing the agreement (shown to the reviewer in the log) */
+  evidence: string | null;
+  /** field_key -> value as spoken (mentioned fields only; coerced by validateReservationAnswers) */
+  answers: Record<string, string>;
+}
+
+const EXTRACTOR_PROMPT = `You read the transcript of a phone call between a restaurant's AI receptionist (assistant) and a caller (user),
+after the call ended without the reservation being submitted. Output JSON only.
+- reservation_requested: true only if the caller asked to book a table (not for questions, cancellations or callbacks)
+- confirmed: true only if the assistant read the reservation back (or asked whether to send it to the store)
+  and the caller clearly agreed (はい / お願いします / yes). Hesitation, corrections left unanswered or a hang-up before agreeing are false
+- evidence: the caller's words that show the agreement, or null
+- answers: the value of each reservation form field, taken from the caller's last answer (after corrections).
+  Dates as YYYY-MM-DD when the transcript gives one, otherwise as spoken (明日, 来週金曜). Times as HH:mm or as spoken (夜7時).
+  Use null for anything the caller did not say. Never guess.`;
+
+const isEnabled = (f: ReservationField) => f.enabled !== false;
+
+/** JSON Schema of the extraction, with one nullable answer per enabled form field */
+export function buildRecoverySchema(fields: ReservationField[]): Record<string, unknown> {
+  const answerProperties: Record<string, unknown> = {};
+  for (const f of fields.filter(isEnabled)) {
+    answerProperties[f.field_key] = f.field_type === 'select' && f.options
+      ? { type: ['string', 'null'], enum: [...f.options, null], description: f.label }
+      : { type: ['string', 'null'], description: f.label };
+  }
+
+  return {
+    type: 'object',
+    properties: {
+      reservation_requested: { type: 'boolean' },
+      confirmed: { type: 'boolean' },
+      evidence: { type: ['string', 'null'] },
+      answers: {
+        type: 'object',
+        properties: answerProperties,
+        required: Object.keys(answerProperties),
+        additionalProperties: false,
+      },
+    },
+    required: ['reservation_requested', 'confirmed', 'evidence', 'answers'],
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Extract a reservation from a call transcript ("user: ...\nassistant: ...").
+ * Returns null when the request failed or the output could not be read (nothing is recovered).
+ */
+export async function extractReservationFromTranscript(
+  openai: OpenAI,
+  model: string,
+  fields: ReservationField[],
+  transcript: string,
+): Promise<RecoveredReservation | null> {
+  try {
+    const completion = await openai.chat.completions.create({
+      model,
+      messages: [
+        { role: 'developer', content: EXTRACTOR_PROMPT },
+        { role: 'user', content: transcript },
+      ],
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'reservation_recovery', strict: true, schema: buildRecoverySchema(fields) },
+      },
+      max_completion_tokens: 1000,
+    });
+    return parseRecoveredReservation(completion.choices[0]?.message?.content, fields);
+  } catch (err) {
+    console.error('⚠️ [Recovery] Reservation extraction failed:', err);
+    return null;
+  }
+}
+
+/** Validate the extractor JSON. Only enabled form fields with a non-empty value are kept. */
+export function parseRecoveredReservation(
+  content: string | null | undefined,
+  fields: ReservationField[],
+): RecoveredReservation | null {
+  let raw: any;
+  try {
+    raw = JSON.parse(content ?? '');
+  } catch {
+    return null;
+  }
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+
+  const answers: Record<string, string> = {};
+  const rawAnswers = raw.answers && typeof raw.answers === 'object' ? raw.answers : {};
+  for (const f of fields.filter(isEnabled)) {
+    const value = rawAnswers[f.field_key];
+    if ((typeof value === 'string' || typeof value === 'number') && String(value).trim() !== '') {
+      answers[f.field_key] = String(value).trim();
+    }
+  }
+
+  return {
+    requested: raw.reservation_requested === true,
+    confirmed: raw.confirmed === true,
+    evidence: typeof raw.evidence === 'string' && raw.evidence.trim() !== '' ? raw.evidence.trim() : null,
+    answers,
+  };
+}
@@ -0,0 +1,239 @@
+import { config } from './config';
+import { SupportedLanguage } from './languages';
+import { metrics } from './metrics';
+import { Storage } from './storage';
+import { getTwilioClient } from './twilioClient';
+
+export interface SmsMessage {
+  to: string;
+  body: string;
+  /** Sender number (defaults to TWILIO_SMS_FROM) */
+  from?: string;
+}
+
+export interface ReservationReceipt {
+  reservationId: string;
+  callSid: string;
+  /** Caller's phone number (E.164) */
+  to: string;
+  /** Store's Twilio number, used when TWILIO_SMS_FROM is not set */
+  from?: string;
+  storeName?: string;
+  /** label -> value of the collected answers */
+  answers: Record<string, any>;
+  /** Language the caller spoke (default ja) */
+  language?: SupportedLanguage;
+}
+
+export type ReservationDecision = 'approved' | 'rejected';
+
+export interface ReservationDecisionNotice {
+  reservationId: string;
+  decision: ReservationDecision;
+  to: string | null;
+  from?: string;
+  storeName?: string;
+  requestedDate: string | null;
+  requestedTime: string | null;
+  partySize: number | null;
+  /** Optional message from the store */
+  message?: string;
+  language?: SupportedLanguage;
+}
+
+export type SmsDeliveryStatus = 'sent' | 'skipped' | 'failed';
+
+interface SmsTexts {
+  receiptHeader: string;
+  referenceId: string;
+  notConfirmedYet: string;
+  approvedHeader: string;
+  rejectedHeader: string;
+  dateTime: string;
+  partySize: (count: number) => string;
+  welcome: string;
+}
+
+/** Caller-facing SMS wording per caller language (answer labels stay as configured by the store) */
+const SMS_TEXTS: Record<SupportedLanguage, SmsTexts> = {
+  ja: {
+    receiptHeader: 'ご予約リクエストを受け付けました。',
+    referenceId: '受付番号',
+    notConfirmedYet: '※まだ予約は確定していません。店舗で確認後、改めてSMSでご連絡いたします。',
+    approvedHeader: 'ご予約が確定しました。',
+    rejectedHeader: '誠に申し訳ございませんが、ご希望の内容ではご予約をお受けできませんでした。',
+    dateTime: '日時',
+    partySize: (count) => `人数: ${count}名`,
+    welcome: 'ご来店をお待ちしております。',
+  },
+  en: {
+    receiptHeader: 'We have received your reservation request.',
+    referenceId: 'Reference',
+    notConfirmedYet: '* Your reservation is not confirmed yet. We will text you again once the restaurant has checked it.',
+    approvedHeader: 'Your reservation is confirmed.',
+    rejectedHeader: 'We are very sorry, but we could not accept your reservation as requested.',
+    dateTime: 'Date/time',
+    partySize: (count) => `Party size: ${count}`,
+    welcome: 'We look forward to seeing you.',
+  },
+  zh: {
+    receiptHeader: '已收到您的预约申请。',
+    referenceId: '受理编号',
+    notConfirmedYet: '※预约尚未确定。餐厅确认后，我们会再次通过短信通知您。',
+    approvedHeader: '您的预约已确定。',
+    rejectedHeader: '非常抱歉，无法按您希望的内容接受预约。',
+    dateTime: '日期时间',
+    partySize: (count) => `人数: ${count}位`,
+    welcome: '期待您的光临。',
+  },
+  ko: {
+    receiptHeader: '예약 요청을 접수했습니다.',
+    referenceId: '접수 번호',
+    notConfirmedYet: '※아직 예약이 확정되지 않았습니다. 가게에서 확인한 후 다시 문자로 연락드리겠습니다.',
+    approvedHeader: '예약이 확정되었습니다.',
+    rejectedHeader: '죄송하지만 희망하신 내용으로는 예약을 받을 수 없었습니다.',
+    dateTime: '일시',
+    partySize: (count) => `인원: ${count}명`,
+    welcome: '방문을 기다리겠습니다.',
+  },
+};
+
+/** Only real E.164 numbers can receive SMS (excludes "Unknown", anonymous, web demo labels) */
+export const isSmsCapableNumber = (phone?: string | null): phone is string => {
+  return !!phone && /^\+\d{8,15}$/.test(phone);
+};
+
+/** Short reference ID read to / texted to the caller (first 8 chars of the reservation UUID) */
+export const toReferenceId = (reservationId: string): string => {
+  return reservationId.replace(/-/g, '').slice(0, 8).toUpperCase();
+};
+
+/**
+ * Send an SMS through Twilio. Returns the message SID.
+ */
+export async function sendSms(message: SmsMessage): Promise<string> {
+  const client = getTwilioClient();
+  if (!client) {
+    metrics.notifications.inc({ channel: 'sms', outcome: 'not_configured' });
+    throw new Error('Twilio REST client is not configured');
+  }
+
+  const from = message.from || config.twilioSmsFrom;
+  if (!from) {
+    metrics.notifications.inc({ channel: 'sms', outcome: 'not_configured' });
+    throw new Error('No SMS sender number (TWILIO_SMS_FROM) configured');
+  }
+
+  const sent = await client.messages.create({ to: message.to, from, body: message.body }).catch((err) => {
+    metrics.notifications.inc({ channel: 'sms', outcome: 'failed' });
+    throw err;
+  });
+  metrics.notifications.inc({ channel: 'sms', outcome: 'sent' });
+  console.log(`📱 SMS sent: ${sent.sid}`);
+  return sent.sid;
+}
+
+export function buildReservationReceiptBody(receipt: ReservationReceipt): string {
+  const texts = SMS_TEXTS[receipt.language ?? 'ja'];
+  const lines = [
+    `${receipt.storeName ? `【${receipt.storeName}】` : ''}${texts.receiptHeader}`,
+    `${texts.referenceId}: ${toReferenceId(receipt.reservationId)}`,
+  ];
+  for (const [label, value] of Object.entries(receipt.answers)) {
+    lines.push(`${label}: ${value}`);
+  }
+  lines.push('');
+  lines.push(texts.notConfirmedYet);
+  return lines.join('\n');
+}
+
+/**
+ * Text the caller a receipt for the reservation request created during the call.
+ * Idempotent per call_sid: sms_sent_at is claimed with a conditional update before sending,
+ * so a retried tool call (or a second process) never sends a second receipt.
+ */
+export async function sendReservationReceipt(storage: Storage, receipt: ReservationReceipt): Promise<void> {
+  if (!isSmsCapableNumber(receipt.to)) {
+    console.log('ℹ️ Reservation receipt SMS skipped (no SMS-capable caller number)');
+    return;
+  }
+
+  const sentAt = new Date().toISOString();
+  let claimed: boolean;
+  try {
+    claimed = await storage.reservations.claimReceiptSms(receipt.callSid, sentAt);
+  } catch (claimError) {
+    console.error('❌ Failed to claim reservation receipt SMS:', claimError);
+    return;
+  }
+  if (!claimed) {
+    console.log(`ℹ️ Reservation receipt SMS already sent for call_sid: ${receipt.callSid}`);
+    return;
+  }
+
+  const body = buildReservationReceiptBody(receipt);
+  try {
+    await sendSms({ to: receipt.to, body, from: config.twilioSmsFrom || receipt.from });
+  } catch (err) {
+    console.error('❌ Failed to send reservation receipt SMS:', err);
+    // Release the claim so that the failure is visible (sms_sent_at stays NULL)
+    await storage.reservations.updateByCallSid(receipt.callSid, { sms_sent_at: null })
+      .catch((releaseError) => console.error('❌ Failed to release reservation receipt SMS claim:', releaseError));
+    return;
+  }
+
+  try {
+    await storage.reservations.updateByCallSid(receipt.callSid, { sms_body_sent: body });
+  } catch (updateError) {
+    console.error('❌ Failed to record sms_body_sent:', updateError);
+  }
+}
+
+export function buildDecisionSmsBody(notice: ReservationDecisionNotice): string {
+  const texts = SMS_TEXTS[notice.language ?? 'ja'];
+  const header = notice.decision === 'approved' ? texts.approvedHeader : texts.rejectedHeader;
+  const lines = [
+    `${notice.storeName ? `【${notice.storeName}】` : ''}${header}`,
+    `${texts.referenceId}: ${toReferenceId(notice.reservationId)}`,
+  ];
+  if (notice.requestedDate || notice.requestedTime) {
+    lines.push(`${texts.dateTime}: ${notice.requestedDate ?? ''} ${notice.requestedTime ?? ''}`.trim());
+  }
+  if (notice.partySize) {
+    lines.push(texts.partySize(notice.partySize));
+  }
+  if (notice.message) {
+    lines.push('');
+    lines.push(notice.message);
+  }
+  if (notice.decision === 'approved') {
+    lines.push('');
+    lines.push(texts.welcome);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Text the caller the store's approve/reject decision and record it on the reservation.
+ */
+export async function sendReservationDecisionSms(storage: Storage, notice: ReservationDecisionNotice): Promise<SmsDeliveryStatus> {
+  if (!isSmsCapableNumber(notice.to)) {
+    console.log(`ℹ️ Decision SMS skipped for reservation ${notice.reservationId} (no SMS-capable number)`);
+    return 'skipped';
+  }
+
+  const body = buildDecisionSmsBody(notice);
+  try {
+    await sendSms({ to: notice.to, body, from: config.twilioSmsFrom || notice.from });
+  } catch (err) {
+    console.error(`❌ Failed to send decision SMS for reservation ${notice.reservationId}:`, err);
+    return 'failed';
+  }
+
+  try {
+    await storage.reservations.updateById(notice.reservationId, { sms_body_sent: body, sms_sent_at: new Date().toISOString() });
+  } catch (error) {
+    console.error('❌ Failed to record decision SMS:', error);
+  }
+  return 'sent';
+}
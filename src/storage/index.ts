@@ -0,0 +1,32 @@
+import fs from 'fs';
+import { createClient } from '@supabase/supabase-js';
+import { config } from '../config';
+import { Storage } from './types';
+import { createSupabaseStorage } from './supabaseStorage';
+import { MemoryStorage, MemoryStorageSeed } from './memoryStorage';
+
+export * from './types';
+export { createSupabaseStorage } from './supabaseStorage';
+export { MemoryStorage, MemoryStorageSeed, MemoryTables } from './memoryStorage';
+
+/**
+ * Build the storage selected by STORAGE_BACKEND.
+ * - supabase (default): Supabase / PostgREST (a local Supabase stack works via SUPABASE_URL)
+ * - memory: in-process store, optionally seeded from MEMORY_STORAGE_SEED_FILE (JSON)
+ */
+export function createStorageFromConfig(): Storage {
+  if (config.storageBackend === 'memory') {
+    let seed: MemoryStorageSeed = {};
+    if (config.memoryStorageSeedFile) {
+      seed = JSON.parse(fs.readFileSync(config.memoryStorageSeedFile, 'utf-8'));
+      console.log(`🗄️ Memory storage seeded from ${config.memoryStorageSeedFile}`);
+    }
+    console.log('🗄️ Using in-memory storage (data is not persisted)');
+    return new MemoryStorage(seed);
+  }
+
+  return createSupabaseStorage(createClient(config.supabaseUrl, config.supabaseServiceRoleKey));
+}
+
+/** Process-wide default storage (injected into sessions / services unless overridden) */
+export const storage: Storage = createStorageFromConfig();
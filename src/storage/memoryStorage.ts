@@ -0,0 +1,213 @@
+import crypto from 'crypto';
+import { ReservationField } from '../types';
+import { CapacityRules } from '../availability';
+import { BusinessHoursPeriod, StoreHoliday } from '../businessHours';
+import {
+  CallbackRequestRecord,
+  CallbackRequestRepository,
+  CallInjectionRecord,
+  CallInjectionRepository,
+  CallLogRecord,
+  CallLogRepository,
+  DashboardAuthRepository,
+  DuplicateRecordError,
+  LineLinkToken,
+  LineLinkTokenRepository,
+  NotificationSettings,
+  NotificationSettingsRepository,
+  ProfileRecord,
+  ProfileRepository,
+  PromptSettings,
+  ReservationRecord,
+  ReservationRepository,
+  Storage,
+  TenantConfigRepository,
+} from './types';
+
+/**
+ * Tables of the in-memory store. Exposed so that development tools and tests can seed and inspect them.
+ */
+export interface MemoryTables {
+  profiles: ProfileRecord[];
+  /** user_prompts keyed by user_id */
+  prompts: Record<string, PromptSettings>;
+  /** reservation_form_fields keyed by user_id */
+  reservationFields: Record<string, ReservationField[]>;
+  /** store_capacity_rules keyed by user_id */
+  capacityRules: Record<string, CapacityRules>;
+  /** store_business_hours keyed by user_id */
+  businessHours: Record<string, BusinessHoursPeriod[]>;
+  /** store_holidays keyed by user_id */
+  holidays: Record<string, StoreHoliday[]>;
+  reservations: ReservationRecord[];
+  callbackRequests: CallbackRequestRecord[];
+  callInjections: CallInjectionRecord[];
+  callLogs: CallLogRecord[];
+  notificationSettings: NotificationSettings[];
+  lineLinkTokens: LineLinkToken[];
+  /** Dashboard access token -> user_id (stands in for Supabase Auth) */
+  dashboardTokens: Record<string, string>;
+}
+
+export type MemoryStorageSeed = Partial<MemoryTables>;
+
+/**
+ * Storage backed by plain arrays (STORAGE_BACKEND=memory).
+ * Mirrors the constraints the Supabase schema enforces (one reservation / callback request per call_sid).
+ * Data is lost when the process exits.
+ */
+export class MemoryStorage implements Storage {
+  readonly tables: MemoryTables;
+
+  readonly profiles: ProfileRepository;
+  readonly tenantConfig: TenantConfigRepository;
+  readonly reservations: ReservationRepository;
+  readonly callbackRequests: CallbackRequestRepository;
+  readonly callInjections: CallInjectionRepository;
+  readonly callLogs: CallLogRepository;
+  readonly notificationSettings: NotificationSettingsRepository;
+  readonly lineLinkTokens: LineLinkTokenRepository;
+  readonly dashboardAuth: DashboardAuthRepository;
+
+  constructor(seed: MemoryStorageSeed = {}) {
+    // Deep copy so that a shared seed object is never mutated
+    const copy = JSON.parse(JSON.stringify(seed)) as MemoryStorageSeed;
+    const t: MemoryTables = this.tables = {
+      profiles: copy.profiles ?? [],
+      prompts: copy.prompts ?? {},
+      reservationFields: copy.reservationFields ?? {},
+      capacityRules: copy.capacityRules ?? {},
+      businessHours: copy.businessHours ?? {},
+      holidays: copy.holidays ?? {},
+      reservations: copy.reservations ?? [],
+      callbackRequests: copy.callbackRequests ?? [],
+      callInjections: copy.callInjections ?? [],
+      callLogs: copy.callLogs ?? [],
+      notificationSettings: copy.notificationSettings ?? [],
+      lineLinkTokens: copy.lineLinkTokens ?? [],
+      dashboardTokens: copy.dashboardTokens ?? {},
+    };
+
+    this.profiles = {
+      findByPhoneNumber: async (phoneNumber) => clone(t.profiles.find(p => p.phone_number === phoneNumber)),
+      findById: async (userId) => clone(t.profiles.find(p => p.id === userId)),
+    };
+
+    this.tenantConfig = {
+      getPromptSettings: async (userId) => clone(t.prompts[userId]),
+      listReservationFields: async (userId) =>
+        [...(t.reservationFields[userId] ?? [])].sort((a, b) => a.display_order - b.display_order).map(f => ({ ...f })),
+      getCapacityRules: async (userId) => clone(t.capacityRules[userId]),
+      getBusinessCalendar: async (userId, fromDate) => {
+        const hours = t.businessHours[userId] ?? [];
+        if (hours.length === 0) return null;
+        const holidays = (t.holidays[userId] ?? [])
+          .filter(h => h.date >= fromDate)
+          .sort((a, b) => a.date.localeCompare(b.date));
+        return clone({ hours, holidays })!;
+      },
+    };
+
+    this.reservations = {
+      create: async (reservation) => {
+        if (t.reservations.some(r => r.call_sid === reservation.call_sid)) {
+          throw new DuplicateRecordError(`Reservation already exists for call_sid ${reservation.call_sid}`);
+        }
+        const id = crypto.randomUUID();
+        t.reservations.push({ ...clone(reservation)!, id, created_at: new Date().toISOString() });
+        return { id };
+      },
+      findById: async (id) => clone(t.reservations.find(r => r.id === id)),
+      listByDate: async (userId, date, statuses) =>
+        t.reservations
+          .filter(r => r.user_id === userId && r.requested_date === date && statuses.includes(r.status))
+          .map(r => ({ requested_time: r.requested_time, party_size: r.party_size })),
+      decide: async (id, status, message, decidedAt) => {
+        const row = t.reservations.find(r => r.id === id && r.status === 'pending');
+        if (!row) return false;
+        Object.assign(row, { status, decision_message: message, decided_at: decidedAt });
+        return true;
+      },
+      claimReceiptSms: async (callSid, sentAt) => {
+        const rows = t.reservations.filter(r => r.call_sid === callSid && !r.sms_sent_at);
+        rows.forEach(r => { r.sms_sent_at = sentAt; });
+        return rows.length > 0;
+      },
+      updateByCallSid: async (callSid, patch) => {
+        t.reservations.filter(r => r.call_sid === callSid).forEach(r => Object.assign(r, clone(patch)));
+      },
+      updateById: async (id, patch) => {
+        t.reservations.filter(r => r.id === id).forEach(r => Object.assign(r, clone(patch)));
+      },
+      linkCallLog: async (callSid, callLogId) => {
+        const rows = t.reservations.filter(r => r.call_sid === callSid);
+        rows.forEach(r => { r.call_log_id = callLogId; });
+        return rows.map(r => r.id);
+      },
+    };
+
+    this.callbackRequests = {
+      create: async (request) => {
+        if (t.callbackRequests.some(r => r.call_sid === request.call_sid)) {
+          throw new DuplicateRecordError(`Callback request already exists for call_sid ${request.call_sid}`);
+        }
+        const id = crypto.randomUUID();
+        t.callbackRequests.push({ ...clone(request)!, id, created_at: new Date().toISOString() });
+        return { id };
+      },
+      linkCallLog: async (callSid, callLogId) => {
+        const rows = t.callbackRequests.filter(r => r.call_sid === callSid);
+        rows.forEach(r => { r.call_log_id = callLogId; });
+        return rows.map(r => r.id);
+      },
+    };
+
+    this.callInjections = {
+      create: async (injection) => {
+        const id = crypto.randomUUID();
+        t.callInjections.push({ ...clone(injection)!, id, created_at: new Date().toISOString() });
+        return { id };
+      },
+    };
+
+    this.callLogs = {
+      create: async (callLog) => {
+        const id = crypto.randomUUID();
+        t.callLogs.push({ ...clone(callLog)!, id });
+        return { id };
+      },
+      updateByCallSid: async (callSid, patch) => {
+        t.callLogs.filter(l => l.call_sid === callSid).forEach(l => Object.assign(l, clone(patch)));
+      },
+    };
+
+    this.notificationSettings = {
+      findByUserId: async (userId) => clone(t.notificationSettings.find(s => s.user_id === userId)),
+      linkLineTarget: async (userId, lineTargetId) => {
+        const existing = t.notificationSettings.find(s => s.user_id === userId);
+        if (existing) {
+          Object.assign(existing, { line_target_id: lineTargetId, notify_line_enabled: true });
+        } else {
+          t.notificationSettings.push({ user_id: userId, line_target_id: lineTargetId, notify_line_enabled: true });
+        }
+      },
+    };
+
+    this.lineLinkTokens = {
+      findValid: async (token, now) =>
+        clone(t.lineLinkTokens.find(tk => tk.token === token && !tk.used_at && tk.expires_at > now)),
+      markUsed: async (token, usedAt) => {
+        t.lineLinkTokens.filter(tk => tk.token === token).forEach(tk => { tk.used_at = usedAt; });
+      },
+    };
+
+    this.dashboardAuth = {
+      findUserIdByAccessToken: async (accessToken) => t.dashboardTokens[accessToken] ?? null,
+    };
+  }
+}
+
+/** Return copies so that callers cannot mutate stored rows by accident */
+function clone<T>(value: T | undefined): T | null {
+  return value === undefined ? null : JSON.parse(JSON.stringify(value));
+}
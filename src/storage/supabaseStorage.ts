@@ -0,0 +1,335 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ReservationField } from '../types';
+import { CapacityRules, ExistingReservation } from '../availability';
+import { BusinessCalendar } from '../businessHours';
+import {
+  CallbackRequestRepository,
+  CallInjectionRepository,
+  CallLogRecord,
+  CallLogRepository,
+  DashboardAuthRepository,
+  DuplicateRecordError,
+  LineLinkToken,
+  LineLinkTokenRepository,
+  NewCallbackRequest,
+  NewCallInjection,
+  NewCallLog,
+  NewReservation,
+  NotificationSettings,
+  NotificationSettingsRepository,
+  ProfileRecord,
+  ProfileRepository,
+  PromptSettings,
+  ReservationRecord,
+  ReservationRepository,
+  ReservationStatus,
+  Storage,
+  TenantConfigRepository,
+} from './types';
+
+/** Postgres unique_violation */
+const UNIQUE_VIOLATION = '23505';
+/** Holidays loaded per call (the prompt and tools only look a few weeks ahead) */
+const MAX_UPCOMING_HOLIDAYS = 30;
+
+class SupabaseProfileRepository implements ProfileRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async findByPhoneNumber(phoneNumber: string): Promise<ProfileRecord | null> {
+    const { data, error } = await this.client
+      .from('profiles')
+      .select('id, phone_number, is_subscribed, stripe_customer_id')
+      .eq('phone_number', phoneNumber)
+      .limit(1)
+      .maybeSingle();
+    if (error) throw error;
+    return data;
+  }
+
+  async findById(userId: string): Promise<ProfileRecord | null> {
+    const { data, error } = await this.client
+      .from('profiles')
+      .select('id, phone_number, is_subscribed, stripe_customer_id')
+      .eq('id', userId)
+      .maybeSingle();
+    if (error) throw error;
+    return data;
+  }
+}
+
+class SupabaseTenantConfigRepository implements TenantConfigRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async getPromptSettings(userId: string): Promise<PromptSettings | null> {
+    const { data, error } = await this.client
+      .from('user_prompts')
+      .select('system_prompt, config_metadata')
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) throw error;
+    return data;
+  }
+
+  async listReservationFields(userId: string): Promise<ReservationField[]> {
+    const { data, error } = await this.client
+      .from('reservation_form_fields')
+      .select('field_key, label, field_type, required, options, description, display_order, enabled')
+      .eq('user_id', userId)
+      .order('display_order', { ascending: true });
+    if (error) throw error;
+    return data ?? [];
+  }
+
+  async getCapacityRules(userId: string): Promise<CapacityRules | null> {
+    const { data, error } = await this.client
+      .from('store_capacity_rules')
+      .select('slot_minutes, seats_per_slot, stay_minutes, open_time, last_order_time, closed_weekdays, closed_dates')
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) throw error;
+    return data;
+  }
+
+  async getBusinessCalendar(userId: string, fromDate: string): Promise<BusinessCalendar | null> {
+    const [hours, holidays] = await Promise.all([
+      this.client
+        .from('store_business_hours')
+        .select('weekday, open_time, close_time, last_order_time')
+        .eq('user_id', userId),
+      this.client
+        .from('store_holidays')
+        .select('date, label')
+        .eq('user_id', userId)
+        .gte('date', fromDate)
+        .order('date', { ascending: true })
+        .limit(MAX_UPCOMING_HOLIDAYS),
+    ]);
+    if (hours.error) throw hours.error;
+    if (holidays.error) throw holidays.error;
+    if (!hours.data || hours.data.length === 0) return null;
+    return { hours: hours.data, holidays: holidays.data ?? [] };
+  }
+}
+
+class SupabaseReservationRepository implements ReservationRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async create(reservation: NewReservation): Promise<{ id: string }> {
+    const { data, error } = await this.client
+      .from('reservation_requests')
+      .insert(reservation)
+      .select('id')
+      .single();
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new DuplicateRecordError(`Reservation already exists for call_sid ${reservation.call_sid}`);
+      }
+      throw error;
+    }
+    return data;
+  }
+
+  async findById(id: string): Promise<ReservationRecord | null> {
+    const { data, error } = await this.client
+      .from('reservation_requests')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    if (error) throw error;
+    return data;
+  }
+
+  async listByDate(userId: string, date: string, statuses: ReservationStatus[]): Promise<ExistingReservation[]> {
+    const { data, error } = await this.client
+      .from('reservation_requests')
+      .select('requested_time, party_size')
+      .eq('user_id', userId)
+      .eq('requested_date', date)
+      .in('status', statuses);
+    if (error) throw error;
+    return data ?? [];
+  }
+
+  async decide(id: string, status: Exclude<ReservationStatus, 'pending'>, message: string | null, decidedAt: string): Promise<boolean> {
+    // Conditional update guards against concurrent decisions
+    const { data, error } = await this.client
+      .from('reservation_requests')
+      .update({ status, decision_message: message, decided_at: decidedAt })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select('id');
+    if (error) throw error;
+    return !!data && data.length > 0;
+  }
+
+  async claimReceiptSms(callSid: string, sentAt: string): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('reservation_requests')
+      .update({ sms_sent_at: sentAt })
+      .eq('call_sid', callSid)
+      .is('sms_sent_at', null)
+      .select('id');
+    if (error) throw error;
+    return !!data && data.length > 0;
+  }
+
+  async updateByCallSid(callSid: string, patch: Partial<ReservationRecord>): Promise<void> {
+    const { error } = await this.client.from('reservation_requests').update(patch).eq('call_sid', callSid);
+    if (error) throw error;
+  }
+
+  async updateById(id: string, patch: Partial<ReservationRecord>): Promise<void> {
+    const { error } = await this.client.from('reservation_requests').update(patch).eq('id', id);
+    if (error) throw error;
+  }
+
+  async linkCallLog(callSid: string, callLogId: string): Promise<string[]> {
+    const { data, error } = await this.client
+      .from('reservation_requests')
+      .update({ call_log_id: callLogId })
+      .eq('call_sid', callSid)
+      .select('id');
+    if (error) throw error;
+    return (data ?? []).map(row => row.id);
+  }
+}
+
+class SupabaseCallbackRequestRepository implements CallbackRequestRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async create(request: NewCallbackRequest): Promise<{ id: string }> {
+    const { data, error } = await this.client
+      .from('callback_requests')
+      .insert(request)
+      .select('id')
+      .single();
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new DuplicateRecordError(`Callback request already exists for call_sid ${request.call_sid}`);
+      }
+      throw error;
+    }
+    return data;
+  }
+
+  async linkCallLog(callSid: string, callLogId: string): Promise<string[]> {
+    const { data, error } = await this.client
+      .from('callback_requests')
+      .update({ call_log_id: callLogId })
+      .eq('call_sid', callSid)
+      .select('id');
+    if (error) throw error;
+    return (data ?? []).map(row => row.id);
+  }
+}
+
+class SupabaseCallInjectionRepository implements CallInjectionRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async create(injection: NewCallInjection): Promise<{ id: string }> {
+    const { data, error } = await this.client
+      .from('call_injections')
+      .insert(injection)
+      .select('id')
+      .single();
+    if (error) throw error;
+    return data;
+  }
+}
+
+class SupabaseCallLogRepository implements CallLogRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async create(callLog: NewCallLog): Promise<{ id: string }> {
+    const { data, error } = await this.client
+      .from('call_logs')
+      .insert(callLog)
+      .select('id')
+      .single();
+    if (error) throw error;
+    return data;
+  }
+
+  async updateByCallSid(callSid: string, patch: Partial<CallLogRecord>): Promise<void> {
+    const { error } = await this.client.from('call_logs').update(patch).eq('call_sid', callSid);
+    if (error) throw error;
+  }
+}
+
+class SupabaseNotificationSettingsRepository implements NotificationSettingsRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async findByUserId(userId: string): Promise<NotificationSettings | null> {
+    const { data, error } = await this.client
+      .from('store_notification_settings')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) throw error;
+    return data;
+  }
+
+  async linkLineTarget(userId: string, lineTargetId: string): Promise<void> {
+    // Existing values like notify_email_enabled will be preserved on update (PostgREST merge behavior),
+    // or use default on insert.
+    const { error } = await this.client
+      .from('store_notification_settings')
+      .upsert({
+        user_id: userId,
+        line_target_id: lineTargetId,
+        notify_line_enabled: true,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'user_id' });
+    if (error) throw error;
+  }
+}
+
+class SupabaseLineLinkTokenRepository implements LineLinkTokenRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async findValid(token: string, now: string): Promise<LineLinkToken | null> {
+    const { data, error } = await this.client
+      .from('line_link_tokens')
+      .select('*')
+      .eq('token', token)
+      .is('used_at', null)
+      .gt('expires_at', now)
+      .maybeSingle();
+    if (error) throw error;
+    return data;
+  }
+
+  async markUsed(token: string, usedAt: string): Promise<void> {
+    const { error } = await this.client
+      .from('line_link_tokens')
+      .update({ used_at: usedAt })
+      .eq('token', token);
+    if (error) throw error;
+  }
+}
+
+class SupabaseDashboardAuthRepository implements DashboardAuthRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async findUserIdByAccessToken(accessToken: string): Promise<string | null> {
+    const { data, error } = await this.client.auth.getUser(accessToken);
+    if (error || !data.user) {
+      return null;
+    }
+    return data.user.id;
+  }
+}
+
+export function createSupabaseStorage(client: SupabaseClient): Storage {
+  return {
+    profiles: new SupabaseProfileRepository(client),
+    tenantConfig: new SupabaseTenantConfigRepository(client),
+    reservations: new SupabaseReservationRepository(client),
+    callbackRequests: new SupabaseCallbackRequestRepository(client),
+    callInjections: new SupabaseCallInjectionRepository(client),
+    callLogs: new SupabaseCallLogRepository(client),
+    notificationSettings: new SupabaseNotificationSettingsRepository(client),
+    lineLinkTokens: new SupabaseLineLinkTokenRepository(client),
+    dashboardAuth: new SupabaseDashboardAuthRepository(client),
+  };
+}
@@ -0,0 +1,221 @@
+import { ReservationField } from '../types';
+import { CapacityRules, ExistingReservation } from '../availability';
+import { BusinessCalendar } from '../businessHours';
+import { CallCategory, CallSentiment, CallSummary, CallUrgency, FollowUpAction } from '../callSummary';
+import { ConsentAuditEntry } from '../consent';
+import { SupportedLanguage } from '../languages';
+
+/**
+ * Storage abstraction: one repository per aggregate.
+ * Implementations: Supabase (production) and in-memory (offline development / tests).
+ */
+
+/** Raised when a unique constraint (e.g. one reservation per call_sid) would be violated */
+export class DuplicateRecordError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DuplicateRecordError';
+  }
+}
+
+// ---------- Records ----------
+
+export interface ProfileRecord {
+  id: string;
+  phone_number: string | null;
+  is_subscribed: boolean;
+  stripe_customer_id?: string | null;
+}
+
+/** user_prompts row */
+export interface PromptSettings {
+  system_prompt: string | null;
+  config_metadata: any;
+}
+
+export type ReservationStatus = 'pending' | 'approved' | 'rejected';
+
+export interface ReservationRecord {
+  id: string;
+  user_id: string;
+  call_sid: string;
+  call_log_id?: string | null;
+  customer_phone: string;
+  customer_name: string;
+  requested_date: string | null;
+  requested_time: string | null;
+  party_size: number | null;
+  status: ReservationStatus;
+  answers: Record<string, any>;
+  source: string;
+  /** request_confirmation read-back and the classified replies that led to this reservation */
+  confirmation_audit?: ConsentAuditEntry[] | null;
+  /** Language the caller spoke (used for the decision SMS) */
+  language?: SupportedLanguage | null;
+  /** Recovered from the transcript (source phone_call_realtime_fallback): check with the caller before approving */
+  needs_review?: boolean;
+  sms_body_sent?: string | null;
+  sms_sent_at?: string | null;
+  decision_message?: string | null;
+  decided_at?: string | null;
+  created_at?: string;
+}
+
+export type NewReservation = Omit<ReservationRecord, 'id' | 'created_at'>;
+
+export interface CallbackRequestRecord {
+  id: string;
+  user_id: string;
+  call_sid: string;
+  call_log_id?: string | null;
+  caller_name: string | null;
+  callback_number: string | null;
+  topic: string;
+  category: string;
+  status: 'pending' | 'done';
+  created_at?: string;
+}
+
+export type NewCallbackRequest = Omit<CallbackRequestRecord, 'id' | 'created_at'>;
+
+export type CallInjectionMode = 'system_message' | 'response';
+
+/** call_injections row: instructions injected into a live call by staff (audit trail) */
+export interface CallInjectionRecord {
+  id: string;
+  /** Store of the call (null when the call's tenant is not known, e.g. an operator steering an unresolved call) */
+  user_id: string | null;
+  call_sid: string;
+  /** Dashboard user id, or 'admin' for ADMIN_API_TOKEN */
+  injected_by: string;
+  mode: CallInjectionMode;
+  instructions: string;
+  turn: number | null;
+  created_at?: string;
+}
+
+export type NewCallInjection = Omit<CallInjectionRecord, 'id' | 'created_at'>;
+
+/** Who ended the call (call_logs.ended_by) */
+export type CallEndedBy = 'caller' | 'ai' | 'timeout' | 'error' | 'operator';
+
+export interface CallLogRecord {
+  id: string;
+  user_id: string;
+  call_sid: string;
+  caller_number: string;
+  recipient_number: string;
+  transcript: { role: string; text: string; timestamp: string }[];
+  summary: string | null;
+  status: string;
+  duration_seconds: number;
+  transferred_at?: string | null;
+  transfer_turn?: number | null;
+  transfer_reason?: string | null;
+  voicemail_recording_url?: string | null;
+  ended_by?: CallEndedBy | null;
+  language?: SupportedLanguage | null;
+  /** Structured summary (summary is the headline derived from it) */
+  category?: CallCategory | null;
+  sentiment?: CallSentiment | null;
+  urgency?: CallUrgency | null;
+  follow_up_action?: FollowUpAction | null;
+  needs_callback?: boolean;
+  summary_data?: CallSummary | null;
+  created_at: string;
+}
+
+export type NewCallLog = Omit<CallLogRecord, 'id'>;
+
+export interface NotificationSettings {
+  user_id: string;
+  notify_email_enabled?: boolean | null;
+  notify_emails?: string[] | null;
+  notify_line_enabled?: boolean | null;
+  line_target_id?: string | null;
+}
+
+export interface LineLinkToken {
+  token: string;
+  user_id: string;
+  expires_at: string;
+  used_at: string | null;
+}
+
+// ---------- Repositories ----------
+
+export interface ProfileRepository {
+  findByPhoneNumber(phoneNumber: string): Promise<ProfileRecord | null>;
+  findById(userId: string): Promise<ProfileRecord | null>;
+}
+
+/** Per-store configuration: user_prompts, reservation_form_fields, store_capacity_rules, store_business_hours */
+export interface TenantConfigRepository {
+  getPromptSettings(userId: string): Promise<PromptSettings | null>;
+  /** Ordered by display_order */
+  listReservationFields(userId: string): Promise<ReservationField[]>;
+  getCapacityRules(userId: string): Promise<CapacityRules | null>;
+  /** Weekly hours and holidays from `fromDate` on. null when no business hours are configured. */
+  getBusinessCalendar(userId: string, fromDate: string): Promise<BusinessCalendar | null>;
+}
+
+export interface ReservationRepository {
+  /** @throws DuplicateRecordError when a reservation already exists for the call_sid */
+  create(reservation: NewReservation): Promise<{ id: string }>;
+  findById(id: string): Promise<ReservationRecord | null>;
+  /** Reservations of a store/date in the given states (seat occupancy) */
+  listByDate(userId: string, date: string, statuses: ReservationStatus[]): Promise<ExistingReservation[]>;
+  /** pending -> approved/rejected. Returns false when the reservation is no longer pending. */
+  decide(id: string, status: Exclude<ReservationStatus, 'pending'>, message: string | null, decidedAt: string): Promise<boolean>;
+  /** Set sms_sent_at only if no SMS was recorded yet for the call. Returns true when claimed. */
+  claimReceiptSms(callSid: string, sentAt: string): Promise<boolean>;
+  updateByCallSid(callSid: string, patch: Partial<ReservationRecord>): Promise<void>;
+  updateById(id: string, patch: Partial<ReservationRecord>): Promise<void>;
+  /** Returns the ids of the linked reservations */
+  linkCallLog(callSid: string, callLogId: string): Promise<string[]>;
+}
+
+export interface CallbackRequestRepository {
+  /** @throws DuplicateRecordError when a message was already left for the call_sid */
+  create(request: NewCallbackRequest): Promise<{ id: string }>;
+  linkCallLog(callSid: string, callLogId: string): Promise<string[]>;
+}
+
+export interface CallInjectionRepository {
+  create(injection: NewCallInjection): Promise<{ id: string }>;
+}
+
+export interface CallLogRepository {
+  create(callLog: NewCallLog): Promise<{ id: string }>;
+  updateByCallSid(callSid: string, patch: Partial<CallLogRecord>): Promise<void>;
+}
+
+export interface NotificationSettingsRepository {
+  findByUserId(userId: string): Promise<NotificationSettings | null>;
+  /** Upsert, preserving other settings of an existing row */
+  linkLineTarget(userId: string, lineTargetId: string): Promise<void>;
+}
+
+export interface LineLinkTokenRepository {
+  /** Unused and not expired at `now` */
+  findValid(token: string, now: string): Promise<LineLinkToken | null>;
+  markUsed(token: string, usedAt: string): Promise<void>;
+}
+
+/** Supabase Auth sessions of the dashboard */
+export interface DashboardAuthRepository {
+  /** Store owner (profiles.id) of a valid access token, or null when the token is rejected */
+  findUserIdByAccessToken(accessToken: string): Promise<string | null>;
+}
+
+export interface Storage {
+  profiles: ProfileRepository;
+  tenantConfig: TenantConfigRepository;
+  reservations: ReservationRepository;
+  callbackRequests: CallbackRequestRepository;
+  callInjections: CallInjectionRepository;
+  callLogs: CallLogRepository;
+  notificationSettings: NotificationSettingsRepository;
+  lineLinkTokens: LineLinkTokenRepository;
+  dashboardAuth: DashboardAuthRepository;
+}
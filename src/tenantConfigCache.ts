@@ -0,0 +1,172 @@
+import { Request, Response } from 'express';
+import { config } from './config';
+import { ReservationField } from './types';
+import { BusinessCalendar } from './businessHours';
+import { storage as defaultStorage, ProfileRecord, PromptSettings, Storage } from './storage';
+
+interface CacheEntry {
+  expiresAt: number;
+  value: Promise<unknown>;
+  /** Set once the lookup succeeded (read without waiting by peek*) */
+  loaded?: { result: unknown };
+  /** Tenant the entry belongs to (known after the lookup for phone number keys) */
+  userId?: string;
+}
+
+export interface TenantCacheInvalidation {
+  userId?: string;
+  phoneNumber?: string;
+}
+
+/**
+ * In-process cache of the per-tenant configuration read on the call setup path
+ * (profiles, user_prompts, reservation_form_fields, store_business_hours / store_holidays),
+ * so that the greeting does not wait for database round trips on every call.
+ *
+ * - Entries expire after TENANT_CONFIG_CACHE_TTL_SECONDS (0 disables the cache)
+ * - Concurrent lookups share one query; failed lookups and unknown phone numbers are not cached
+ * - Changes made from the dashboard are picked up immediately via POST /admin/tenant-config/invalidate
+ */
+export class TenantConfigCache {
+  private readonly entries = new Map<string, CacheEntry>();
+
+  constructor(
+    private readonly storage: Storage,
+    private readonly ttlMs: number = config.tenantConfigCacheTtlSeconds * 1000,
+  ) {}
+
+  findProfileByPhoneNumber(phoneNumber: string): Promise<ProfileRecord | null> {
+    return this.cached(`phone:${phoneNumber}`, undefined, () => this.storage.profiles.findByPhoneNumber(phoneNumber), true);
+  }
+
+  getPromptSettings(userId: string): Promise<PromptSettings | null> {
+    return this.cached(`prompt:${userId}`, userId, () => this.storage.tenantConfig.getPromptSettings(userId));
+  }
+
+  /** Prompt settings if they are already loaded (undefined when not cached), without waiting */
+  peekPromptSettings(userId: string): PromptSettings | null | undefined {
+    const hit = this.entries.get(`prompt:${userId}`);
+    if (!hit?.loaded || hit.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    return hit.loaded.result as PromptSettings | null;
+  }
+
+  listReservationFields(userId: string): Promise<ReservationField[]> {
+    return this.cached(`fields:${userId}`, userId, () => this.storage.tenantConfig.listReservationFields(userId));
+  }
+
+  /** Keyed by fromDate as well: the holidays window moves every day */
+  getBusinessCalendar(userId: string, fromDate: string): Promise<BusinessCalendar | null> {
+    return this.cached(`calendar:${userId}:${fromDate}`, userId, () => this.storage.tenantConfig.getBusinessCalendar(userId, fromDate));
+  }
+
+  /**
+   * Load everything a call of this tenant needs, e.g. while Twilio is still opening the media stream.
+   * Errors are left to the session, which retries the lookup.
+   */
+  warm(userId: string, fromDate: string): void {
+    void Promise.all([
+      this.getPromptSettings(userId),
+      this.listReservationFields(userId),
+      this.getBusinessCalendar(userId, fromDate),
+    ]).catch((err) => console.warn('⚠️ [TenantCache] Prefetch failed:', err));
+  }
+
+  /**
+   * Drop the entries of a tenant and/or a phone number (everything when neither is given).
+   * Returns the number of removed entries.
+   */
+  invalidate(target: TenantCacheInvalidation = {}): number {
+    if (!target.userId && !target.phoneNumber) {
+      const count = this.entries.size;
+      this.entries.clear();
+      return count;
+    }
+
+    let count = 0;
+    for (const [key, entry] of this.entries) {
+      const matchesUser = !!target.userId && entry.userId === target.userId;
+      const matchesPhone = !!target.phoneNumber && key === `phone:${target.phoneNumber}`;
+      if (matchesUser || matchesPhone) {
+        this.entries.delete(key);
+        count++;
+      }
+    }
+    return count;
+  }
+
+  private cached<T>(key: string, userId: string | undefined, load: () => Promise<T>, skipNull = false): Promise<T> {
+    if (this.ttlMs <= 0) {
+      return load();
+    }
+
+    const now = Date.now();
+    const hit = this.entries.get(key);
+    if (hit && hit.expiresAt > now) {
+      return hit.value as Promise<T>;
+    }
+
+    const entry: CacheEntry = { expiresAt: now + this.ttlMs, value: Promise.resolve(), userId };
+    const value = load().then(
+      (result) => {
+        if (skipNull && result === null) {
+          this.forget(key, entry);
+          return result;
+        }
+        entry.loaded = { result };
+        if (!entry.userId) {
+          entry.userId = (result as { id?: string } | null)?.id;
+        }
+        return result;
+      },
+      (err) => {
+        this.forget(key, entry);
+        throw err;
+      },
+    );
+    entry.value = value;
+    this.entries.set(key, entry);
+    return value;
+  }
+
+  /** Remove the entry unless it was already replaced by a newer lookup */
+  private forget(key: string, entry: CacheEntry): void {
+    if (this.entries.get(key) === entry) {
+      this.entries.delete(key);
+    }
+  }
+}
+
+/** Process-wide cache over the default storage */
+export const tenantConfigCache = new TenantConfigCache(defaultStorage);
+
+/**
+ * POST /admin/tenant-config/invalidate (ADMIN_API_TOKEN)
+ * Body: { user_id?, phone_number? } (neither: clear everything),
+ * or a Supabase Database Webhook payload ({ table, record, old_record }) so that a trigger on the
+ * config tables can invalidate without a custom function.
+ */
+export const handleTenantConfigInvalidation = (req: Request, res: Response) => {
+  const body = req.body && typeof req.body === 'object' ? req.body : {};
+  const record = body.record ?? body.old_record ?? {};
+
+  const userId = body.user_id ?? record.user_id ?? (body.table === 'profiles' ? record.id : undefined);
+  const phoneNumbers = [body.phone_number, body.record?.phone_number, body.old_record?.phone_number]
+    .filter((phone): phone is string => typeof phone === 'string' && phone !== '');
+
+  let invalidated = 0;
+  if (userId === undefined && phoneNumbers.length === 0) {
+    invalidated = tenantConfigCache.invalidate();
+  } else {
+    if (typeof userId === 'string') {
+      invalidated += tenantConfigCache.invalidate({ userId });
+    }
+    for (const phoneNumber of new Set(phoneNumbers)) {
+      invalidated += tenantConfigCache.invalidate({ phoneNumber });
+    }
+  }
+
+  console.log(`🧹 [TenantCache] Invalidated ${invalidated} entries (user_id=${userId ?? '-'}, phone=${phoneNumbers.join(',') || '-'})`);
+  res.json({ ok: true, invalidated });
+};
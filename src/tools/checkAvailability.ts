@@ -0,0 +1,114 @@
+import { evaluateAvailability, findCapacityRulesProblem, formatTimeJa, UnavailableReason } from '../availability';
+import { parsePartySize } from '../japaneseNumber';
+import { phrasesFor, SupportedLanguage } from '../languages';
+import { ReservationStatus } from '../storage';
+import { RealtimeTool, ToolContext, ToolResult } from './toolRegistry';
+
+/** Reservations in these states occupy seats */
+const OCCUPYING_STATUSES: ReservationStatus[] = ['pending', 'approved'];
+
+const REQUIRED_FIELD_KEYS = ['requested_date', 'requested_time', 'party_size'];
+
+/** "19:30" -> "19時半" for Japanese callers, as-is otherwise */
+const formatSpokenTime = (time: string, language: SupportedLanguage): string => (language === 'ja' ? formatTimeJa(time) : time);
+
+/**
+ * check_availability: verify seats before the consent phrase so that the caller hears alternatives
+ * instead of a request the store rejects later.
+ * Enabled only when the form collects date, time and party size.
+ */
+export const checkAvailabilityTool: RealtimeTool = {
+  name: 'check_availability',
+
+  isEnabled(ctx: ToolContext) {
+    const enabledKeys = ctx.reservationFields.filter(f => f.enabled !== false).map(f => f.field_key);
+    return REQUIRED_FIELD_KEYS.every(key => enabledKeys.includes(key));
+  },
+
+  buildDefinition() {
+    return {
+      description: '希望日・希望時間・人数が揃った時点で、送信確認の前に空席を確認する。',
+      parameters: {
+        type: 'object',
+        properties: {
+          requested_date: { type: 'string', description: '希望日 (YYYY-MM-DD)' },
+          requested_time: { type: 'string', description: '希望時間 (HH:mm)' },
+          party_size: { type: 'integer', description: '人数' },
+        },
+        required: REQUIRED_FIELD_KEYS,
+      },
+    };
+  },
+
+  buildPromptInstruction() {
+    return '- 希望日・希望時間・人数が揃ったら、送信確認の前に必ず check_availability を呼び出して空席を確認する';
+  },
+
+  async handle(args, ctx): Promise<ToolResult> {
+    const date = String(args.requested_date ?? '');
+    const time = String(args.requested_time ?? '');
+    const partySize = parsePartySize(args.party_size)?.total;
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !/^\d{2}:\d{2}$/.test(time) || partySize === undefined) {
+      return { ok: false, error_type: 'invalid_arguments' };
+    }
+
+    if (!ctx.userId) {
+      return { ok: false, error_type: 'system', error_code: 'USER_NOT_IDENTIFIED' };
+    }
+
+    const rules = await ctx.storage.tenantConfig.getCapacityRules(ctx.userId);
+
+    // No capacity rules configured: the store decides manually, don't block the request
+    if (!rules) {
+      return { ok: true, available: true, capacity_checked: false };
+    }
+
+    // Rules that cannot be evaluated (overnight hours) are treated as not configured
+    const problem = findCapacityRulesProblem(rules);
+    if (problem) {
+      console.warn(`⚠️ Ignoring store_capacity_rules of ${ctx.userId}: ${problem}`);
+      ctx.logEvent({ event: 'config_error', reason: 'invalid_capacity_rules', error_message: problem });
+      return { ok: true, available: true, capacity_checked: false };
+    }
+
+    const existing = await ctx.storage.reservations.listByDate(ctx.userId, date, OCCUPYING_STATUSES);
+
+    const evaluation = evaluateAvailability(rules, existing, { date, time, partySize });
+    ctx.logEvent({
+      event: 'availability_checked',
+      reason: evaluation.reason,
+      result: JSON.stringify(evaluation),
+    });
+
+    return { ok: true, capacity_checked: true, ...evaluation };
+  },
+
+  buildResponseInstructions(result, ctx) {
+    if (!result.ok) {
+      if (result.error_type === 'invalid_arguments') {
+        return '希望日（YYYY-MM-DD）・希望時間（HH:mm）・人数（整数）を正しく指定して、もう一度 check_availability を呼び出してください。';
+      }
+      // Availability unknown: continue the normal flow, the store confirms manually
+      return '空席確認ができませんでした。そのことには触れず、予約内容を復唱して送信確認に進んでください。';
+    }
+
+    if (result.available) {
+      return '空席があります。request_confirmation を呼び出して、予約内容の復唱と送信の確認に進んでください。';
+    }
+
+    const phrases = phrasesFor(ctx.language);
+    const reasonText = phrases.unavailableReasons[result.reason as UnavailableReason] ?? phrases.unavailableReasons.other;
+    const alternatives = Array.isArray(result.alternatives)
+      ? result.alternatives.map(t => formatSpokenTime(String(t), ctx.language))
+      : [];
+    if (alternatives.length === 0) {
+      return `次の趣旨を伝え、別の日付か時間を伺ってください：「${phrases.askOtherDate.replace('{reason}', reasonText)}」`;
+    }
+    const suggestion = phrases.suggestAlternativeTimes
+      .replace('{reason}', reasonText)
+      .replace('{times}', alternatives.join(phrases.timeSeparator));
+    return `次の趣旨を伝え、ご希望を伺ってください：「${suggestion}」
+時間が変わった場合は、再度 check_availability を呼び出してから送信確認に進んでください。`;
+  },
+};
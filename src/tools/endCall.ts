@@ -0,0 +1,35 @@
+import { phrasesFor } from '../languages';
+import { RealtimeTool, ToolResult } from './toolRegistry';
+
+/**
+ * end_call: hang up after the conversation is over and the AI has said goodbye.
+ * The call ends once the goodbye audio has been played back, not when the tool is called.
+ */
+export const endCallTool: RealtimeTool = {
+  name: 'end_call',
+
+  buildDefinition() {
+    return {
+      description: '用件が済み、お別れの挨拶を言い終えた後に通話を終了する。お客様の質問や依頼が残っている場合は呼ばない。',
+      parameters: {
+        type: 'object',
+        properties: {},
+        required: [],
+      },
+    };
+  },
+
+  buildPromptInstruction(ctx) {
+    return `- 用件が済んだら「${phrasesFor(ctx.language).farewell}」と挨拶し、その直後に end_call で通話を終了する`;
+  },
+
+  async handle(_args, ctx): Promise<ToolResult> {
+    ctx.endCall();
+    return { ok: true };
+  },
+
+  // The goodbye was already spoken: no further response
+  skipResponse(result) {
+    return result.ok;
+  },
+};
@@ -0,0 +1,303 @@
+import { config } from '../config';
+import { BusinessCalendar, checkReservationTime, describeDay } from '../businessHours';
+import { normalizeDateTime } from '../jstDate';
+import { parseJapaneseNumber, parsePartySize } from '../japaneseNumber';
+import { phrasesFor } from '../languages';
+import { ReservationField } from '../types';
+import { RealtimeTool, ToolContext, ToolResult } from './toolRegistry';
+
+const enabledFieldsOf = (ctx: ToolContext) => ctx.reservationFields.filter(f => f.enabled !== false);
+
+/** Form fields that receive the 大人/子供 breakdown of party_size */
+const ADULT_FIELD_KEYS = ['adults', 'adult_count'];
+const CHILD_FIELD_KEYS = ['children', 'child_count'];
+
+const isBlank = (val: unknown) => val === undefined || val === null || String(val).trim() === '';
+
+/** config_metadata.booking_horizon_days, or BOOKING_HORIZON_DAYS */
+export const bookingHorizonDaysOf = (configMetadata: Record<string, any> | undefined): number => {
+  const days = Number(configMetadata?.booking_horizon_days);
+  return Number.isInteger(days) && days > 0 ? days : config.bookingHorizonDays;
+};
+
+export interface ReservationValidationOptions {
+  horizonDays: number;
+  businessCalendar: BusinessCalendar | null;
+}
+
+export type ReservationValidation = { ok: true; answers: Record<string, any> } | (ToolResult & { ok: false });
+
+/**
+ * Coerce and validate reservation answers against the tenant's form fields:
+ * required fields, numbers (「三名様」), party size breakdown, JST date/time and business hours.
+ * Shared by finalize_reservation and the post-call recovery (src/reservationRecovery.ts).
+ */
+export function validateReservationAnswers(
+  rawAnswers: Record<string, any>,
+  enabledFields: ReservationField[],
+  options: ReservationValidationOptions,
+): ReservationValidation {
+  // Coercion & required / type checks
+  const missingFields: string[] = [];
+  const cleanAnswers: Record<string, any> = {};
+
+  // Allow customer_name_kana even if not in reservationFields (Phase 1 preparation)
+  if (rawAnswers['customer_name_kana']) {
+    cleanAnswers['customer_name_kana'] = rawAnswers['customer_name_kana'];
+    console.log(`📝 [Kana] customer_name_kana received: ${rawAnswers['customer_name_kana']}`);
+  }
+
+  // "大人2名と子供1名" in party_size also fills the adults / children fields of the form when they were not asked separately
+  const answers: Record<string, any> = { ...rawAnswers };
+  const party = parsePartySize(answers.party_size);
+  const breakdown: [string[], number | undefined][] = [[ADULT_FIELD_KEYS, party?.adults], [CHILD_FIELD_KEYS, party?.children]];
+  for (const [keys, count] of breakdown) {
+    const field = enabledFields.find(f => keys.includes(f.field_key));
+    if (field && count !== undefined && isBlank(answers[field.field_key])) {
+      answers[field.field_key] = count;
+    }
+  }
+
+  for (const f of enabledFields) {
+    let val = answers[f.field_key];
+
+    // Coercion (Best Effort)
+    if (f.field_type === 'number' && !isBlank(val)) {
+      // "5" -> 5, "三名様" -> 3, "大人2名と子供1名" -> 3
+      const num = f.field_key === 'party_size' ? parsePartySize(val)?.total : parseJapaneseNumber(val);
+      if (num !== undefined && num !== null) val = num;
+    }
+
+    // Store cleaned value
+    if (val !== undefined && val !== null && String(val).trim() !== '') {
+      cleanAnswers[f.field_key] = val;
+    }
+
+    // Validation (Required check)
+    if (f.required) {
+      const isEmpty = val === undefined || val === null || String(val).trim() === '';
+      if (isEmpty) {
+        missingFields.push(f.label);
+        continue; // Skip type check if empty
+      }
+    }
+
+    // Validation (Type check) - only if value exists
+    if (val !== undefined && val !== null && String(val).trim() !== '') {
+      // date / time are resolved and bounds-checked below (明日, 夜7時 etc. are accepted)
+      if (f.field_type === 'number' && typeof val !== 'number') {
+        missingFields.push(`${f.label} (数値形式)`);
+      }
+    }
+  }
+
+  if (missingFields.length > 0) {
+    console.log('❌ Validation failed, missing fields:', missingFields);
+    return {
+      ok: false,
+      missing_fields: missingFields,
+      error_type: 'missing_fields'
+    };
+  }
+
+  // Party size must match the adults / children breakdown
+  const adults = cleanAnswers[ADULT_FIELD_KEYS.find(key => key in cleanAnswers) ?? ''];
+  const children = cleanAnswers[CHILD_FIELD_KEYS.find(key => key in cleanAnswers) ?? ''];
+  const partySize = cleanAnswers.party_size;
+  if (typeof partySize === 'number' && typeof adults === 'number' && typeof children === 'number'
+    && adults + children !== partySize) {
+    console.log(`❌ Validation failed: party_size ${partySize} != adults ${adults} + children ${children}`);
+    return { ok: false, error_type: 'inconsistent_party_size', party_size: partySize, adults, children };
+  }
+
+  // Date/time: resolve relative expressions in JST, reject past dates and dates beyond the booking horizon
+  const dateField = enabledFields.find(f => f.field_type === 'date' && cleanAnswers[f.field_key] !== undefined);
+  const timeField = enabledFields.find(f => f.field_type === 'time' && cleanAnswers[f.field_key] !== undefined);
+  if (dateField || timeField) {
+    const normalized = normalizeDateTime(
+      { date: dateField && cleanAnswers[dateField.field_key], time: timeField && cleanAnswers[timeField.field_key] },
+      { horizonDays: options.horizonDays },
+    );
+    if (normalized.invalid_fields.length > 0) {
+      console.log('❌ Validation failed, invalid date/time:', normalized.invalid_fields);
+      return {
+        ok: false,
+        error_type: 'invalid_fields',
+        invalid_fields: normalized.invalid_fields.map(invalid => {
+          const field = invalid.field === 'date' ? dateField! : timeField!;
+          return { field: field.field_key, label: field.label, value: invalid.value, reason: invalid.reason, message: invalid.message };
+        }),
+      };
+    }
+    if (dateField) cleanAnswers[dateField.field_key] = normalized.date;
+    if (timeField) cleanAnswers[timeField.field_key] = normalized.time;
+  }
+
+  // Business hours: the requested date/time must be bookable (store_business_hours / store_holidays)
+  if (options.businessCalendar && typeof cleanAnswers.requested_date === 'string') {
+    const requestedTime = typeof cleanAnswers.requested_time === 'string' ? cleanAnswers.requested_time : undefined;
+    const check = checkReservationTime(options.businessCalendar, cleanAnswers.requested_date, requestedTime);
+    if (!check.ok) {
+      console.log(`❌ Validation failed: outside business hours (${check.reason})`);
+      return {
+        ok: false,
+        error_type: 'outside_business_hours',
+        reason: check.reason,
+        business_hours: describeDay(check.day),
+      };
+    }
+  }
+
+  return { ok: true, answers: cleanAnswers };
+}
+
+/**
+ * finalize_reservation: submit the collected reservation answers to the store.
+ * Schema is generated from reservation_form_fields of the tenant.
+ */
+export const finalizeReservationTool: RealtimeTool = {
+  name: 'finalize_reservation',
+
+  buildDefinition(ctx) {
+    // Build dynamic schema from reservation_form_fields
+    const answersProperties: Record<string, any> = {};
+    const requiredKeys: string[] = [];
+
+    for (const f of enabledFieldsOf(ctx)) {
+      // Map field_type to JSON Schema type
+      let schemaType: any = { type: 'string', description: f.label };
+      if (f.field_type === 'number') {
+        // Strings are parsed server-side ("三名様", "大人2名と子供1名")
+        schemaType = { type: ['integer', 'string'], description: `${f.label}（「大人2名と子供1名」のように言われた場合はそのまま渡す）` };
+      } else if (f.field_type === 'date') {
+        schemaType = { type: 'string', description: `${f.label} (YYYY-MM-DD)` };
+      } else if (f.field_type === 'time') {
+        schemaType = { type: 'string', description: `${f.label} (HH:mm)` };
+      } else if (f.field_type === 'select' && f.options) {
+        schemaType = { type: 'string', enum: f.options, description: f.label };
+      }
+      answersProperties[f.field_key] = schemaType;
+      if (f.required) {
+        requiredKeys.push(f.field_key);
+      }
+    }
+
+    return {
+      description: 'ユーザーが必須項目を全て伝え、送信の意思を示した場合に呼び出す。',
+      parameters: {
+        type: 'object',
+        properties: {
+          answers: {
+            type: 'object',
+            description: '収集した予約情報',
+            properties: answersProperties,
+            required: requiredKeys
+          },
+          confirmed: {
+            type: 'boolean',
+            description: 'request_confirmation の復唱にユーザーが明確に了承した場合のみ true'
+          }
+        },
+        required: ['answers', 'confirmed']
+      }
+    };
+  },
+
+  /**
+   * Validates required fields, then saves to DB via ctx.createReservation.
+   */
+  async handle(args, ctx): Promise<ToolResult> {
+    // Timing: Record reservation called
+    ctx.markTiming('reservationCalled');
+
+    // 0. Filter enabled fields only (Handle undefined as enabled)
+    const enabledFields = enabledFieldsOf(ctx);
+    const requiredFields = enabledFields.filter(f => f.required);
+
+    // Server Guard: Reject if no required fields are configured
+    if (requiredFields.length === 0) {
+      console.error('🚨 [Alert] No required fields configured - rejecting finalize_reservation');
+      ctx.logEvent({ event: 'config_error', reason: 'no_required_fields' });
+      return { ok: false, error_type: 'system', error_code: 'NO_REQUIRED_FIELDS' };
+    }
+
+    // 1. Check answers type STRICTLY (Wait for valid object)
+    const rawAnswers = args.answers;
+    if (!rawAnswers || typeof rawAnswers !== 'object' || Array.isArray(rawAnswers)) {
+      console.log('❌ Validation failed: answers is not an object');
+      return { ok: false, error_type: 'system', error_code: 'INVALID_ANSWERS_FORMAT' };
+    }
+
+    // 2. Check confirmed flag STRICTLY
+    if (args.confirmed !== true) {
+      console.log('❌ Rejected: confirmed is not true');
+      return { ok: false, error_type: 'not_confirmed' };
+    }
+
+    // 2b. Server-side consent: the reply to request_confirmation must have been classified as a confirmation
+    await ctx.waitForConsent();
+    if (!ctx.consent.canFinalize()) {
+      console.log(`❌ Rejected: consent state is ${ctx.consent.state}`);
+      return { ok: false, error_type: 'not_confirmed', consent_state: ctx.consent.state };
+    }
+
+    // 3. Coercion & Validation (required fields, party size, date/time, business hours)
+    const validation = validateReservationAnswers(rawAnswers, enabledFields, {
+      horizonDays: bookingHorizonDaysOf(ctx.configMetadata),
+      businessCalendar: ctx.businessCalendar,
+    });
+    if (!validation.ok) {
+      return validation;
+    }
+    const cleanAnswers = validation.answers;
+
+    // 4. DB Insert (with clean answers)
+    const result = await ctx.createReservation(cleanAnswers, args);
+    // Timing: Record DB done
+    ctx.markTiming('reservationDbDone');
+    if (result.ok) {
+      ctx.consent.markFinalized(result.reservation_id as string | undefined);
+    }
+    return result;
+  },
+
+  buildResponseInstructions(result, ctx) {
+    const phrases = phrasesFor(ctx.language);
+    if (result.ok) {
+      // Success: Fixed phrase, must be spoken exactly (one sentence only)
+      return `【厳守】次の1文のみを一字一句変えずに発話し、それ以外は何も言わないこと：
+「${phrases.reservationSent}」`;
+    }
+    if (result.error_type === 'missing_fields' && Array.isArray(result.missing_fields)) {
+      // Missing fields: List fields and prompt re-collection
+      const fieldList = result.missing_fields.join('、');
+      return `以下の項目が不足しています：${fieldList}
+これらを順番にお伺いし、揃ったら再度 finalize_reservation を呼び出してください。`;
+    }
+    if (result.error_type === 'invalid_fields' && Array.isArray(result.invalid_fields)) {
+      const reasons = result.invalid_fields.map((f: { message: string }) => f.message).join('。');
+      return `ご希望の日時を受け付けられません：「${reasons}。」
+この内容をお客様にお伝えし、別の日時を伺ってください。日時が決まったら、改めて request_confirmation を呼び出して確認してください。`;
+    }
+    if (result.error_type === 'inconsistent_party_size') {
+      return `人数（${result.party_size}名）と内訳（大人${result.adults}名・お子様${result.children}名）が合いません。
+大人とお子様それぞれの人数をもう一度伺い、改めて request_confirmation を呼び出して確認してください。`;
+    }
+    if (result.error_type === 'outside_business_hours') {
+      return `ご希望の日時は営業時間外のため承れません。次の内容をお伝えし、別の日時を伺ってください：「${result.business_hours}。」
+日時が決まったら、改めて request_confirmation を呼び出して確認してください。`;
+    }
+    if (result.error_type === 'system' && result.error_code !== 'INVALID_ANSWERS_FORMAT'
+      && result.error_code !== 'NO_REQUIRED_FIELDS' && result.error_code !== 'PARSE_ERROR') {
+      // System error: the caller already called the store, so take a message instead of asking to call again
+      return `次の1文を発話してください：
+「${phrases.reservationSystemError}」
+返答を伺ったら、お名前・折り返し先・予約希望内容（日時・人数など）を topic にまとめ、category: reservation_issue で take_message を呼び出してください。`;
+    }
+    if (result.error_type === 'not_confirmed' && result.consent_state) {
+      return 'お客様の了承がまだ確認できていません。request_confirmation を呼び出して予約内容を復唱し、了承を得てください。';
+    }
+    // Pre-validation rejections (confirmed:false, malformed args): let the model continue the conversation
+    return undefined;
+  },
+};
@@ -0,0 +1,80 @@
+import { describeDay, getDayHours, getOpenStatus } from '../businessHours';
+import { formatDateJa, jstNow } from '../jstDate';
+import { formatTimeJa } from '../availability';
+import { RealtimeTool, ToolResult } from './toolRegistry';
+
+/**
+ * get_business_hours: answer 「何時までやってますか」「明日は営業していますか」 from store_business_hours / store_holidays
+ * instead of letting the model guess. Enabled only when the store has configured its hours.
+ */
+export const getBusinessHoursTool: RealtimeTool = {
+  name: 'get_business_hours',
+
+  isEnabled(ctx) {
+    return !!ctx.businessCalendar;
+  },
+
+  buildDefinition() {
+    return {
+      description: '営業時間・定休日・臨時休業についての質問に答えるために、指定日の営業時間を取得する。',
+      parameters: {
+        type: 'object',
+        properties: {
+          date: { type: 'string', description: '対象日 (YYYY-MM-DD)。省略時は今日' },
+        },
+        required: [],
+      },
+    };
+  },
+
+  buildPromptInstruction() {
+    return '- 営業時間・定休日の質問には推測で答えず、必ず get_business_hours を呼び出して結果の内容だけを伝える';
+  },
+
+  async handle(args, ctx): Promise<ToolResult> {
+    const calendar = ctx.businessCalendar;
+    if (!calendar) {
+      return { ok: false, error_type: 'system', error_code: 'BUSINESS_HOURS_NOT_CONFIGURED' };
+    }
+
+    const now = jstNow();
+    const date = args.date === undefined || args.date === '' ? now.date : String(args.date);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return { ok: false, error_type: 'invalid_arguments' };
+    }
+
+    const day = getDayHours(calendar, date);
+    let answer = describeDay(day);
+
+    // Today: also say whether the store is open right now
+    let openNow: boolean | undefined;
+    if (date === now.date) {
+      const status = getOpenStatus(calendar, now.date, now.time);
+      openNow = status.open;
+      if (!status.open && status.nextOpen) {
+        answer += `。次の営業は${formatDateJa(status.nextOpen.date)}${formatTimeJa(status.nextOpen.time)}からです`;
+      }
+    }
+
+    return {
+      ok: true,
+      date,
+      closed: day.closed,
+      closed_reason: day.closedReason,
+      holiday_label: day.holidayLabel,
+      hours: day.periods.map(p => ({ open: p.open_time, close: p.close_time, last_order: p.last_order_time ?? null })),
+      open_now: openNow,
+      answer,
+    };
+  },
+
+  buildResponseInstructions(result) {
+    if (!result.ok) {
+      if (result.error_type === 'invalid_arguments') {
+        return '対象日を YYYY-MM-DD 形式で指定して、もう一度 get_business_hours を呼び出してください。';
+      }
+      return '営業時間を確認できませんでした。推測で答えず、店舗へ確認が必要な旨をお伝えしてください。';
+    }
+    return `次の内容を、日時を変えずにお伝えしてください（推測で補足しない）：「${result.answer}。」`;
+  },
+};
@@ -0,0 +1,26 @@
+import { ToolRegistry } from './toolRegistry';
+import { finalizeReservationTool } from './finalizeReservation';
+import { checkAvailabilityTool } from './checkAvailability';
+import { transferToStaffTool } from './transferToStaff';
+import { takeMessageTool } from './takeMessage';
+import { endCallTool } from './endCall';
+import { getBusinessHoursTool } from './getBusinessHours';
+import { requestConfirmationTool } from './requestConfirmation';
+
+export * from './toolRegistry';
+export { bookingHorizonDaysOf, validateReservationAnswers } from './finalizeReservation';
+
+/**
+ * Registry with the tools every store gets.
+ * Store-specific tools decide their own availability via RealtimeTool.isEnabled.
+ */
+export const createDefaultToolRegistry = (): ToolRegistry => {
+  return new ToolRegistry()
+    .register(getBusinessHoursTool)
+    .register(checkAvailabilityTool)
+    .register(requestConfirmationTool)
+    .register(finalizeReservationTool)
+    .register(transferToStaffTool)
+    .register(takeMessageTool)
+    .register(endCallTool);
+};
@@ -0,0 +1,57 @@
+import { phrasesFor } from '../languages';
+import { RealtimeTool, ToolResult } from './toolRegistry';
+
+/**
+ * request_confirmation: start the consent step before finalize_reservation.
+ * The caller's reply is classified server-side (confirm / correct / decline / unclear),
+ * and only a confirmation unlocks finalize_reservation.
+ */
+export const requestConfirmationTool: RealtimeTool = {
+  name: 'request_confirmation',
+
+  buildDefinition() {
+    return {
+      description: '必須項目が揃ったら、予約内容を復唱して送信の了承を得る前に呼び出す。',
+      parameters: {
+        type: 'object',
+        properties: {
+          summary: {
+            type: 'string',
+            description: 'お客様に復唱する予約内容（日時・人数・お名前など）を1〜2文で',
+          },
+          answers: {
+            type: 'object',
+            description: '収集した予約情報（finalize_reservation の answers と同じ形）',
+          },
+        },
+        required: ['summary', 'answers'],
+      },
+    };
+  },
+
+  buildPromptInstruction() {
+    return '- 必須項目が揃ったら request_confirmation を呼び出し、その指示どおりに復唱して了承を確認する（finalize_reservation は了承後にサーバーから指示があるまで呼ばない）';
+  },
+
+  async handle(args, ctx): Promise<ToolResult> {
+    const summary = typeof args.summary === 'string' ? args.summary.trim() : '';
+    const answers = args.answers;
+    if (!summary || !answers || typeof answers !== 'object' || Array.isArray(answers)) {
+      return { ok: false, error_type: 'invalid_arguments' };
+    }
+
+    const request = ctx.consent.requestConfirmation(summary, answers);
+    console.log(`🔔 [Consent] Awaiting user confirmation #${request.id}: ${summary}`);
+    ctx.logEvent({ event: 'consent_awaiting', text: summary });
+    return { ok: true, summary };
+  },
+
+  buildResponseInstructions(result, ctx) {
+    if (!result.ok) {
+      return '復唱する内容 summary と収集済みの answers を指定して、もう一度 request_confirmation を呼び出してください。';
+    }
+    return `次の内容を復唱し、最後に「${phrasesFor(ctx.language).consentQuestion}」と確認してください：
+「${result.summary}」
+お客様の返答を待ち、finalize_reservation はまだ呼ばないこと。`;
+  },
+};
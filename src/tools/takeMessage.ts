@@ -0,0 +1,104 @@
+import { phrasesFor } from '../languages';
+import { DuplicateRecordError } from '../storage';
+import { RealtimeTool, ToolResult } from './toolRegistry';
+
+const CALLBACK_CATEGORIES = ['reservation_issue', 'inquiry', 'other'] as const;
+
+/**
+ * take_message: record a callback request (伝言) into callback_requests and notify the store.
+ * Used when the AI cannot complete the caller's request (system errors, non-reservation inquiries).
+ */
+export const takeMessageTool: RealtimeTool = {
+  name: 'take_message',
+
+  buildDefinition() {
+    return {
+      description: 'AIでは対応できない用件（予約以外の問い合わせ、予約送信の失敗など）について、お名前・折り返し先・ご用件を伺って店舗への伝言として記録する。',
+      parameters: {
+        type: 'object',
+        properties: {
+          caller_name: { type: 'string', description: 'お名前' },
+          callback_number: {
+            type: 'string',
+            description: '折り返し先の電話番号（「この番号で」と言われた場合は空でよい）',
+          },
+          topic: { type: 'string', description: 'ご用件（日本語で簡潔に）' },
+          category: {
+            type: 'string',
+            enum: [...CALLBACK_CATEGORIES],
+            description: 'reservation_issue: 予約が送信できなかった / inquiry: 問い合わせ / other: その他',
+          },
+        },
+        required: ['caller_name', 'topic', 'category'],
+      },
+    };
+  },
+
+  buildPromptInstruction() {
+    return '- 予約以外の用件でAIが答えられないもの（折り返しが必要な問い合わせ等）は、お名前・折り返し先・ご用件を伺い take_message で伝言として残す';
+  },
+
+  async handle(args, ctx): Promise<ToolResult> {
+    if (!ctx.userId) {
+      return { ok: false, error_type: 'system', error_code: 'USER_NOT_IDENTIFIED' };
+    }
+
+    const topic = typeof args.topic === 'string' ? args.topic.trim() : '';
+    if (!topic) {
+      return { ok: false, error_type: 'missing_fields', missing_fields: ['ご用件'] };
+    }
+
+    const callerName = typeof args.caller_name === 'string' && args.caller_name.trim() ? args.caller_name.trim() : null;
+    const spokenNumber = typeof args.callback_number === 'string' ? args.callback_number.replace(/[^\d+]/g, '') : '';
+    // Fall back to the caller ID (never for the web demo, which has no real number)
+    const callbackNumber = spokenNumber || (ctx.isWebDemo ? null : ctx.callerNumber ?? null);
+    const category = CALLBACK_CATEGORIES.includes(args.category) ? args.category : 'other';
+
+    let row: { id: string };
+    try {
+      row = await ctx.storage.callbackRequests.create({
+        user_id: ctx.userId,
+        call_sid: ctx.callSid,
+        caller_name: callerName,
+        callback_number: callbackNumber,
+        topic,
+        category,
+        status: 'pending',
+      });
+    } catch (error) {
+      if (error instanceof DuplicateRecordError) {
+        // One message per call: already recorded
+        return { ok: true, deduped: true };
+      }
+      console.error('❌ DB error in take_message:', error);
+      return { ok: false, error_type: 'system', error_code: 'DB_INSERT_FAILED' };
+    }
+
+    console.log('✅ Callback request created:', row.id);
+    void ctx.notifications.notifyCallbackRequest({
+      user_id: ctx.userId,
+      caller_name: callerName,
+      callback_number: callbackNumber,
+      topic,
+      category,
+      language: ctx.language,
+    })
+      .then(() => console.log('✅ Callback notification sent'))
+      .catch((err) => console.error('❌ Callback notification failed', err));
+
+    return { ok: true, callback_request_id: row.id, deduped: false };
+  },
+
+  buildResponseInstructions(result, ctx) {
+    const phrases = phrasesFor(ctx.language);
+    if (result.ok) {
+      return `【厳守】次の1文のみを発話すること：
+「${phrases.messageTaken}」`;
+    }
+    if (result.error_type === 'missing_fields') {
+      return 'ご用件を伺ってから、再度 take_message を呼び出してください。';
+    }
+    return `【厳守】次の1文のみを発話すること：
+「${phrases.messageFailed}」`;
+  },
+};
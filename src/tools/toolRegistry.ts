@@ -0,0 +1,168 @@
+import { RealtimeLogEvent, ReservationField } from '../types';
+import { Storage } from '../storage';
+import { NotificationService } from '../notifications';
+import { BusinessCalendar } from '../businessHours';
+import { ConsentStateMachine } from '../consent';
+import { SupportedLanguage } from '../languages';
+
+/**
+ * Result returned to the model as function_call_output (JSON serialized).
+ * ok=false results should carry error_type / error_code so the model (and logs) can branch on them.
+ */
+export interface ToolResult {
+  ok: boolean;
+  error_type?: string;
+  error_code?: string;
+  [key: string]: unknown;
+}
+
+export type ToolTimingKey = 'reservationCalled' | 'reservationDbDone';
+
+/**
+ * Per-call state and session capabilities exposed to tool handlers.
+ * Built by RealtimeSession for each schema build / tool invocation.
+ */
+export interface ToolContext {
+  streamSid: string;
+  callSid: string;
+  userId?: string;
+  callerNumber?: string;
+  toPhoneNumber?: string;
+  /** Browser demo session (no real phone line: no Twilio REST, no SMS) */
+  isWebDemo: boolean;
+  reservationFields: ReservationField[];
+  /** Language the caller speaks (detected from the first utterances, default config_metadata.primary_language) */
+  language: SupportedLanguage;
+  /** user_prompts.config_metadata of the tenant (empty object when not loaded) */
+  configMetadata: Record<string, any>;
+  /** store_business_hours / store_holidays (null when the store has not configured its hours) */
+  businessCalendar: BusinessCalendar | null;
+  storage: Storage;
+  /** Store notifications (email / LINE) over the same storage */
+  notifications: NotificationService;
+  /** Consent step of this call (request_confirmation -> caller's reply -> finalize_reservation) */
+  consent: ConsentStateMachine;
+  /** Resolves once the caller's reply to the pending confirmation has been classified (immediately when not awaiting) */
+  waitForConsent: () => Promise<void>;
+  logEvent: (partial: Omit<RealtimeLogEvent, 'timestamp' | 'streamSid'>) => void;
+  markTiming: (key: ToolTimingKey) => void;
+  /**
+   * Insert reservation_requests row for this call (deduped by call_sid).
+   * `args` are the raw tool arguments: values the model put at the top level instead of in answers are used as a fallback.
+   */
+  createReservation: (answers: Record<string, any>, args?: Record<string, any>) => Promise<ToolResult>;
+  /** Record that the call was handed over to staff (saved on call_logs) */
+  recordTransfer: (reason: string, summary: string) => void;
+  /** Hang up once the audio of the current response has been played (end_call) */
+  endCall: () => void;
+}
+
+export interface ToolDefinition {
+  description: string;
+  /** JSON Schema for the function arguments */
+  parameters: Record<string, any>;
+}
+
+/**
+ * A function tool exposed to the OpenAI Realtime model.
+ */
+export interface RealtimeTool {
+  name: string;
+  /** Tenant-specific enablement. Omit to enable for every store. */
+  isEnabled?: (ctx: ToolContext) => boolean;
+  /** Build description + parameters schema (may depend on tenant config such as reservationFields) */
+  buildDefinition: (ctx: ToolContext) => ToolDefinition;
+  /** Line(s) appended to the session instructions telling the model when to call this tool */
+  buildPromptInstruction?: (ctx: ToolContext) => string | undefined;
+  handle: (args: any, ctx: ToolContext) => Promise<ToolResult>;
+  /**
+   * Instructions for the response.create sent after function_call_output.
+   * Return undefined to let the model respond freely.
+   */
+  buildResponseInstructions?: (result: ToolResult, ctx: ToolContext) => string | undefined;
+  /** Return true to send no response.create after function_call_output (e.g. the call is ending) */
+  skipResponse?: (result: ToolResult, ctx: ToolContext) => boolean;
+}
+
+export interface ToolExecution {
+  result: ToolResult;
+  instructions?: string;
+  /** Do not trigger the next response */
+  skipResponse?: boolean;
+}
+
+/**
+ * Registry of Realtime function tools.
+ * RealtimeSession asks it for the session.update tools config and dispatches function calls through it.
+ */
+export class ToolRegistry {
+  private tools = new Map<string, RealtimeTool>();
+
+  register(tool: RealtimeTool): this {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool ${tool.name} is already registered`);
+    }
+    this.tools.set(tool.name, tool);
+    return this;
+  }
+
+  /** Tools enabled for the given call context */
+  getEnabledTools(ctx: ToolContext): RealtimeTool[] {
+    return [...this.tools.values()].filter(tool => !tool.isEnabled || tool.isEnabled(ctx));
+  }
+
+  /** tools / tool_choice part of session.update */
+  buildToolsConfig(ctx: ToolContext): { tools: any[]; tool_choice: 'auto' } {
+    const tools = this.getEnabledTools(ctx).map(tool => ({
+      type: 'function',
+      name: tool.name,
+      ...tool.buildDefinition(ctx),
+    }));
+    return { tools, tool_choice: 'auto' };
+  }
+
+  /** Prompt lines of all enabled tools (joined into the fixed instruction) */
+  buildPromptInstructions(ctx: ToolContext): string[] {
+    return this.getEnabledTools(ctx)
+      .map(tool => tool.buildPromptInstruction?.(ctx))
+      .filter((line): line is string => !!line);
+  }
+
+  /**
+   * Run a function call from the model.
+   * Unknown / disabled tools and unparsable arguments produce an error result instead of being ignored,
+   * so that the model always receives a function_call_output for its call_id.
+   */
+  async execute(name: string, argsJson: string, ctx: ToolContext): Promise<ToolExecution> {
+    const tool = this.tools.get(name);
+    if (!tool || (tool.isEnabled && !tool.isEnabled(ctx))) {
+      console.warn(`⚠️ [Tools] Unknown or disabled tool called: ${name}`);
+      return {
+        result: { ok: false, error_type: 'system', error_code: 'UNKNOWN_TOOL' },
+        instructions: `「${name}」という機能はありません。この機能は使わずに会話を続けてください。`,
+      };
+    }
+
+    let args: any;
+    try {
+      args = argsJson ? JSON.parse(argsJson) : {};
+    } catch (parseErr) {
+      console.error(`❌ Failed to parse ${name} args:`, parseErr);
+      return { result: { ok: false, error_type: 'system', error_code: 'PARSE_ERROR' } };
+    }
+
+    let result: ToolResult;
+    try {
+      result = await tool.handle(args, ctx);
+    } catch (err) {
+      console.error(`❌ ${name} error:`, err);
+      result = { ok: false, error_type: 'system', error_code: 'INTERNAL_ERROR' };
+    }
+
+    return {
+      result,
+      instructions: tool.buildResponseInstructions?.(result, ctx),
+      skipResponse: tool.skipResponse?.(result, ctx) ?? false,
+    };
+  }
+}
@@ -0,0 +1,74 @@
+import { transferCallToStaff } from '../callTransfer';
+import { RealtimeTool, ToolContext, ToolResult } from './toolRegistry';
+
+const TRANSFER_REASONS = ['manager_request', 'complaint', 'allergy', 'other'] as const;
+
+const forwardingNumberOf = (ctx: ToolContext): string | undefined => {
+  const value = ctx.configMetadata?.transfer_phone_number;
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+/**
+ * transfer_to_staff: hand the live call over to a human (店長指名, クレーム, アレルギー相談 etc.).
+ * Requires config_metadata.transfer_phone_number and a real phone call (not the web demo).
+ */
+export const transferToStaffTool: RealtimeTool = {
+  name: 'transfer_to_staff',
+
+  isEnabled(ctx) {
+    return !ctx.isWebDemo && !!forwardingNumberOf(ctx);
+  },
+
+  buildDefinition() {
+    return {
+      description: 'お客様がスタッフとの会話を希望した場合（店長・責任者の指名、クレーム、アレルギー等AIで判断できない相談）に、通話をスタッフへ転送する。',
+      parameters: {
+        type: 'object',
+        properties: {
+          reason: {
+            type: 'string',
+            enum: [...TRANSFER_REASONS],
+            description: '転送理由',
+          },
+          summary: {
+            type: 'string',
+            description: 'スタッフに事前に伝える用件の要約（日本語で1文、40文字程度）',
+          },
+        },
+        required: ['reason', 'summary'],
+      },
+    };
+  },
+
+  buildPromptInstruction() {
+    return '- 店長・責任者の指名、クレーム、アレルギーなどAIで判断できない相談は、無理に答えず transfer_to_staff でスタッフへ転送する';
+  },
+
+  async handle(args, ctx): Promise<ToolResult> {
+    const forwardingNumber = forwardingNumberOf(ctx);
+    if (!forwardingNumber) {
+      return { ok: false, error_type: 'system', error_code: 'TRANSFER_NOT_CONFIGURED' };
+    }
+
+    const reason = TRANSFER_REASONS.includes(args.reason) ? args.reason : 'other';
+    const summary = typeof args.summary === 'string' ? args.summary.trim() : '';
+
+    try {
+      await transferCallToStaff({ callSid: ctx.callSid, forwardingNumber, whisperSummary: summary });
+    } catch (err) {
+      console.error('❌ Failed to transfer call:', err);
+      return { ok: false, error_type: 'system', error_code: 'TRANSFER_FAILED' };
+    }
+
+    ctx.recordTransfer(reason, summary);
+    return { ok: true, reason };
+  },
+
+  buildResponseInstructions(result) {
+    if (result.ok) {
+      // The call is already redirected; Twilio speaks the handoff phrase
+      return undefined;
+    }
+    return 'スタッフへの転送ができませんでした。お詫びし、ご用件を伺って対応を続けてください。';
+  },
+};
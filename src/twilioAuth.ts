@@ -0,0 +1,146 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import twilio from 'twilio';
+import { config } from './config';
+
+const CLOCK_SKEW_TOLERANCE_SECONDS = 10; // Stream start normally follows TwiML within a few seconds
+
+export interface StreamTokenClaims {
+    callSid: string;
+    toPhoneNumber: string;
+    fromPhoneNumber: string;
+    userId: string;
+}
+
+export interface StreamTokenValidationResult {
+    valid: boolean;
+    error?: string;
+}
+
+const FORBIDDEN_TWIML = `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Reject reason="rejected"/>
+</Response>`;
+
+/**
+ * Build the absolute URL Twilio used to sign the request.
+ * Twilio signs the URL configured on the phone number, which is PUBLIC_URL + path (+ query).
+ * req.originalUrl is used so that query strings on action/callback URLs are included.
+ */
+export function buildTwilioSignedUrl(req: Request): string {
+    return new URL(req.originalUrl, config.publicUrl).toString();
+}
+
+/**
+ * Verify the X-Twilio-Signature header of a webhook request.
+ * Form params (application/x-www-form-urlencoded) are part of the signature.
+ */
+export function isValidTwilioRequest(req: Request): boolean {
+    if (!config.twilioAuthToken) {
+        console.error('❌ TWILIO_AUTH_TOKEN not configured, cannot validate Twilio signature');
+        return false;
+    }
+
+    const signature = req.header('X-Twilio-Signature');
+    if (!signature) {
+        return false;
+    }
+
+    const url = buildTwilioSignedUrl(req);
+    const params = req.body && typeof req.body === 'object' ? req.body : {};
+    return twilio.validateRequest(config.twilioAuthToken, signature, url, params);
+}
+
+/**
+ * Express middleware: reject Twilio webhooks without a valid signature.
+ * Responds with 403 and a <Reject/> TwiML so that Twilio (or a spoofed caller) never reaches the stream.
+ */
+export function requireTwilioSignature(req: Request, res: Response, next: NextFunction): void {
+    if (!config.enableTwilioSignatureValidation) {
+        next();
+        return;
+    }
+
+    if (!isValidTwilioRequest(req)) {
+        console.warn(`🚫 Twilio signature validation failed: ${req.method} ${req.path}`);
+        res.status(403).type('text/xml').send(FORBIDDEN_TWIML);
+        return;
+    }
+
+    next();
+}
+
+const signStreamToken = (timestampStr: string, claims: StreamTokenClaims): string => {
+    return crypto
+        .createHmac('sha256', config.twilioAuthToken)
+        .update(`${timestampStr}.${claims.callSid}.${claims.userId}.${claims.toPhoneNumber}.${claims.fromPhoneNumber}`)
+        .digest('hex');
+};
+
+/**
+ * Generate a short-lived stream token passed to /twilio-media as a <Parameter>.
+ * Token format: base64url(timestamp.hmac), bound to the callSid and the other stream parameters.
+ */
+export function generateStreamToken(claims: StreamTokenClaims): string {
+    const timestampStr = String(Math.floor(Date.now() / 1000));
+    const hmac = signStreamToken(timestampStr, claims);
+    return Buffer.from(`${timestampStr}.${hmac}`).toString('base64url');
+}
+
+/**
+ * Validate the stream token received in the Media Stream "start" event.
+ * Ensures the stream was created by our own TwiML (same callSid / parameters) and is not expired.
+ */
+export function validateStreamToken(token: string | undefined, claims: StreamTokenClaims): StreamTokenValidationResult {
+    if (!config.enableTwilioSignatureValidation) {
+        return { valid: true };
+    }
+
+    if (!config.twilioAuthToken) {
+        console.error('❌ TWILIO_AUTH_TOKEN not configured, cannot validate stream token');
+        return { valid: false, error: 'Server configuration error' };
+    }
+
+    if (!token) {
+        return { valid: false, error: 'Stream token required' };
+    }
+
+    try {
+        const decoded = Buffer.from(token, 'base64url').toString('utf-8');
+        const parts = decoded.split('.');
+
+        if (parts.length !== 2) {
+            return { valid: false, error: 'Invalid token format' };
+        }
+
+        const [timestampStr, providedHmac] = parts;
+        const timestamp = parseInt(timestampStr, 10);
+
+        if (isNaN(timestamp)) {
+            return { valid: false, error: 'Invalid timestamp' };
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+
+        if (timestamp > now + CLOCK_SKEW_TOLERANCE_SECONDS) {
+            return { valid: false, error: 'Token not yet valid' };
+        }
+
+        if (now - timestamp > config.twilioStreamTokenExpirySeconds) {
+            console.warn(`⚠️ Stream token expired: age=${now - timestamp}s, limit=${config.twilioStreamTokenExpirySeconds}s`);
+            return { valid: false, error: 'Token expired' };
+        }
+
+        const providedBuffer = Buffer.from(providedHmac, 'utf-8');
+        const expectedBuffer = Buffer.from(signStreamToken(timestampStr, claims), 'utf-8');
+
+        if (providedBuffer.length !== expectedBuffer.length || !crypto.timingSafeEqual(providedBuffer, expectedBuffer)) {
+            return { valid: false, error: 'Invalid signature' };
+        }
+
+        return { valid: true };
+    } catch (err) {
+        console.error('❌ Failed to validate stream token:', err);
+        return { valid: false, error: 'Token validation failed' };
+    }
+}
@@ -0,0 +1,38 @@
+import twilio, { Twilio } from 'twilio';
+import RequestClient from 'twilio/lib/base/RequestClient';
+import { config } from './config';
+
+let client: Twilio | null | undefined;
+
+/**
+ * Sends every REST request to `baseUrl` instead of https://api.twilio.com (TWILIO_API_BASE_URL).
+ */
+class BaseUrlRequestClient extends RequestClient {
+  constructor(private readonly baseUrl: string) {
+    super();
+  }
+
+  request<TData>(opts: RequestClient.RequestOptions<TData>) {
+    const { pathname, search } = new URL(opts.uri);
+    return super.request<TData>({ ...opts, uri: `${this.baseUrl.replace(/\/$/, '')}${pathname}${search}` });
+  }
+}
+
+/**
+ * Shared Twilio REST client (live call updates, SMS).
+ * Returns null when TWILIO_ACCOUNT_SID / TWILIO_AUTH_TOKEN are not configured.
+ */
+export function getTwilioClient(): Twilio | null {
+  if (client !== undefined) return client;
+
+  if (!config.twilioAccountSid || !config.twilioAuthToken) {
+    console.warn('⚠️ Twilio REST client disabled (TWILIO_ACCOUNT_SID / TWILIO_AUTH_TOKEN missing)');
+    client = null;
+    return client;
+  }
+
+  client = twilio(config.twilioAccountSid, config.twilioAuthToken, {
+    httpClient: config.twilioApiBaseUrl ? new BaseUrlRequestClient(config.twilioApiBaseUrl) : undefined,
+  });
+  return client;
+}
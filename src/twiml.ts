@@ -0,0 +1,51 @@
+import { config } from './config';
+
+/**
+ * TwiML helpers shared by the incoming-call webhook, live call redirects and their callbacks.
+ */
+
+export function escapeXml(value?: string): string {
+  return (value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/** Absolute callback URL under PUBLIC_URL (Twilio signs and calls this URL) */
+export function buildCallbackUrl(pathname: string, params?: Record<string, string | undefined>): string {
+  const url = new URL(config.publicUrl);
+  url.pathname = pathname;
+  if (params) {
+    Object.entries(params).forEach(([k, v]) => {
+      if (v) url.searchParams.append(k, v);
+    });
+  }
+  return url.toString();
+}
+
+export function twimlResponse(body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+${body}
+</Response>`;
+}
+
+export function sayAndHangupTwiml(message: string): string {
+  return twimlResponse(`  <Say language="ja-JP">${escapeXml(message)}</Say>
+  <Hangup/>`);
+}
+
+const DEFAULT_VOICEMAIL_INTRO = 'ただいま電話に出ることができません。';
+
+/**
+ * Voicemail: ask the caller to leave a message and record it.
+ * The recording URL is posted to /voicemail/complete.
+ */
+export function voicemailTwiml(intro = DEFAULT_VOICEMAIL_INTRO): string {
+  return twimlResponse(`  <Say language="ja-JP">${escapeXml(intro)}発信音の後にお名前とご用件、折り返しのお電話番号をお話しください。</Say>
+  <Record maxLength="${config.voicemailMaxLengthSeconds}" playBeep="true" action="${escapeXml(buildCallbackUrl('/voicemail/complete'))}" />
+  <Say language="ja-JP">録音できませんでした。恐れ入りますが、時間をおいておかけ直しください。</Say>
+  <Hangup/>`);
+}
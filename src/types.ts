@@ -33,6 +33,20 @@ export interface RealtimeLogEvent {
   | 'twilio_media' | 'vad_event' | 'audio_delta'
   // Safeguard events
   | 'session_update_timeout' | 'speaking_failsafe'
+  // Reconnection events
+  | 'realtime_reconnect_start' | 'realtime_reconnected' | 'realtime_reconnect_failed' | 'realtime_unavailable'
+  // Call timeout events
+  | 'call_idle_prompt' | 'call_timeout' | 'call_hangup' | 'call_terminated_by_operator'
+  // Reservation consent events
+  | 'consent_awaiting' | 'consent_confirmed' | 'consent_corrected' | 'consent_declined' | 'consent_unclear'
+  // Caller language
+  | 'language_detected'
+  // Per-tenant Realtime settings (config_metadata)
+  | 'config_overrides_applied' | 'config_override_invalid'
+  // Post-call reservation recovery (src/reservationRecovery.ts)
+  | 'reservation_recovered' | 'reservation_recovery_skipped'
+  // Staff instructions (POST /calls/:callSid/instructions)
+  | 'staff_instruction_injected'
   | string;
   role?: 'user' | 'assistant' | 'system';
   text?: string;
@@ -59,9 +73,15 @@ export interface RealtimeLogEvent {
   trigger?: 'initial' | 'tool' | 'other';  // For response_create_sent
   transcript_length?: number;  // For reservation_not_created alert
   // Barge-in debounce event fields
-  reason?: string;  // For barge_in_ignored / barge_in_cancelled
+  reason?: string;  // For barge_in_ignored / barge_in_cancelled / call_timeout / call_hangup
   remaining_ms?: number;  // For barge_in_ignored
   phase?: 'greeting' | 'normal';  // For session_update_sent phase tracking
+  attempt?: number;  // For realtime_reconnected / realtime_reconnect_failed
+  intent?: string;  // For consent_* (classified reply to request_confirmation)
+  language?: string;  // For language_detected
+  overrides?: string[];  // For config_overrides_applied (config_metadata keys)
+  mode?: string;  // For staff_instruction_injected (system_message / response)
+  injected_by?: string;  // For staff_instruction_injected (dashboard user id or 'admin')
 }
 
 /**
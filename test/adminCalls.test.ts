@@ -0,0 +1,71 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Simulator, startSimulator, waitUntil } from './simulator';
+
+const USER_ID = 'user-admin';
+const STORE_NUMBER = '+815000000002';
+const CALLER_NUMBER = '+819012345671';
+const GREETING = 'お電話ありがとうございます。管理テスト店です。';
+const ADMIN_TOKEN = 'simulator-admin-token';
+
+let sim: Simulator;
+
+before(async () => {
+  sim = await startSimulator({
+    seed: {
+      profiles: [{ id: USER_ID, phone_number: STORE_NUMBER, is_subscribed: true }],
+      prompts: {
+        [USER_ID]: { system_prompt: null, config_metadata: { greeting_message: GREETING } },
+      },
+    },
+    env: { ADMIN_API_TOKEN: ADMIN_TOKEN },
+  });
+});
+
+after(async () => {
+  await sim?.close();
+});
+
+const admin = (path: string, init: RequestInit = {}, token = ADMIN_TOKEN) => fetch(`${sim.httpUrl}/admin/calls${path}`, {
+  ...init,
+  headers: { Authorization: `Bearer ${token}` },
+});
+
+describe('admin calls API', () => {
+  test('lists, inspects and terminates an active call', async () => {
+    assert.equal((await admin('', {}, 'wrong-token')).status, 401);
+
+    const call = await sim.startCall({ userId: USER_ID, toPhoneNumber: STORE_NUMBER, fromPhoneNumber: CALLER_NUMBER });
+    await sim.completeGreeting(call, GREETING);
+    sim.realtime.sendUserTranscript('明日の予約をしたいです');
+    let transcript: any[] = [];
+    for (let i = 0; i < 50 && !transcript.some((t) => t.role === 'user'); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      ({ transcript } = await (await admin(`/${call.callSid}/transcript`)).json());
+    }
+    assert.deepEqual(transcript.map((t) => [t.role, t.text]), [
+      ['assistant', GREETING],
+      ['user', '明日の予約をしたいです'],
+    ]);
+
+    const { calls } = await (await admin(`?user_id=${USER_ID}`)).json();
+    assert.equal(calls.length, 1);
+    assert.equal(calls[0].call_sid, call.callSid);
+    assert.equal(calls[0].caller_number, '+********5671');
+    assert.equal(calls[0].phase, 'normal');
+    assert.equal(typeof calls[0].media_stats.mediaCount, 'number');
+
+    const terminated = await admin(`/${call.callSid}/terminate`, { method: 'POST' });
+    assert.equal(terminated.status, 200);
+    await call.twilio.waitForClose();
+    assert.deepEqual(sim.twilioApi.callUpdates(call.callSid).map((r) => r.params), [{ Status: 'completed' }]);
+
+    const callLog = await waitUntil(
+      () => sim.storage.tables.callLogs.find((l) => l.call_sid === call.callSid),
+      'call log',
+    );
+    assert.equal(callLog.ended_by, 'operator');
+    assert.deepEqual((await (await admin('')).json()).calls, []);
+    assert.equal((await admin(`/${call.callSid}/transcript`)).status, 404);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CapacityRules, evaluateAvailability, findCapacityRulesProblem } from '../src/availability';
+import { MemoryStorage } from '../src/storage/memoryStorage';
+import { checkAvailabilityTool } from '../src/tools/checkAvailability';
+import { ToolContext } from '../src/tools/toolRegistry';
+
+// 10 seats, 90-minute stays, bookable 17:00-21:00 in 30-minute slots, closed on Tuesdays
+const rules: CapacityRules = {
+  slot_minutes: 30,
+  seats_per_slot: 10,
+  stay_minutes: 90,
+  open_time: '17:00',
+  last_order_time: '21:00',
+  closed_weekdays: [2],
+  closed_dates: ['2026-10-22'],
+};
+
+// Wednesday
+const DATE = '2026-10-21';
+
+describe('availability', () => {
+  test('exactly at capacity is bookable, one seat more is full', () => {
+    const existing = [{ requested_time: '19:00', party_size: 6 }];
+    assert.deepEqual(evaluateAvailability(rules, existing, { date: DATE, time: '19:00', partySize: 4 }), { available: true, alternatives: [] });
+
+    const full = evaluateAvailability(rules, existing, { date: DATE, time: '19:00', partySize: 5 });
+    assert.equal(full.available, false);
+    assert.equal(full.reason, 'full');
+  });
+
+  test('a party of exactly seats_per_slot fits an empty store, a larger one never does', () => {
+    assert.equal(evaluateAvailability(rules, [], { date: DATE, time: '18:00', partySize: 10 }).available, true);
+    assert.deepEqual(evaluateAvailability(rules, [], { date: DATE, time: '18:00', partySize: 11 }), {
+      available: false,
+      reason: 'party_too_large',
+      alternatives: [],
+    });
+  });
+
+  test('a stay occupies its slots up to, but not including, its end', () => {
+    // 18:00-19:30 fully booked
+    const existing = [{ requested_time: '18:00', party_size: 10 }];
+    assert.equal(evaluateAvailability(rules, existing, { date: DATE, time: '19:30', partySize: 2 }).available, true);
+    assert.equal(evaluateAvailability(rules, existing, { date: DATE, time: '19:00', partySize: 2 }).reason, 'full');
+    // Starts before the booking but would still be seated at 18:00
+    assert.equal(evaluateAvailability(rules, existing, { date: DATE, time: '17:00', partySize: 2 }).reason, 'full');
+  });
+
+  test('partially overlapping stays are counted at their peak', () => {
+    const existing = [
+      { requested_time: '18:00', party_size: 4 },
+      { requested_time: '19:00', party_size: 4 },
+    ];
+    // 18:30 overlaps both at 19:00 (8 seats taken)
+    assert.equal(evaluateAvailability(rules, existing, { date: DATE, time: '18:30', partySize: 2 }).available, true);
+    assert.equal(evaluateAvailability(rules, existing, { date: DATE, time: '18:30', partySize: 3 }).reason, 'full');
+  });
+
+  test('open time and last order are both bookable, outside them is not', () => {
+    assert.equal(evaluateAvailability(rules, [], { date: DATE, time: '17:00', partySize: 2 }).available, true);
+    assert.equal(evaluateAvailability(rules, [], { date: DATE, time: '21:00', partySize: 2 }).available, true);
+    assert.equal(evaluateAvailability(rules, [], { date: DATE, time: '16:30', partySize: 2 }).reason, 'before_open');
+    assert.equal(evaluateAvailability(rules, [], { date: DATE, time: '21:30', partySize: 2 }).reason, 'after_last_order');
+  });
+
+  test('closed weekdays and dates', () => {
+    assert.equal(evaluateAvailability(rules, [], { date: '2026-10-20', time: '18:00', partySize: 2 }).reason, 'closed_day');
+    assert.equal(evaluateAvailability(rules, [], { date: '2026-10-22', time: '18:00', partySize: 2 }).reason, 'closed_day');
+  });
+
+  test('alternatives are the closest bookable slots', () => {
+    const existing = [{ requested_time: '19:00', party_size: 10 }];
+    const result = evaluateAvailability(rules, existing, { date: DATE, time: '19:00', partySize: 2 });
+    assert.deepEqual(result.alternatives, ['17:30', '20:30', '17:00']);
+  });
+
+  test('reservations without time or party size do not take seats', () => {
+    const existing = [{ requested_time: null, party_size: 10 }, { requested_time: '19:00', party_size: null }];
+    assert.equal(evaluateAvailability(rules, existing, { date: DATE, time: '19:00', partySize: 10 }).available, true);
+  });
+
+  test('without capacity rules the request is not blocked', async () => {
+    const ctx: Pick<ToolContext, 'userId' | 'storage' | 'logEvent'> = { userId: 'user-1', storage: new MemoryStorage(), logEvent: () => {} };
+    const result = await checkAvailabilityTool.handle({ requested_date: DATE, requested_time: '19:00', party_size: 2 }, ctx as ToolContext);
+    assert.deepEqual(result, { ok: true, available: true, capacity_checked: false });
+  });
+
+  test('overnight hours are rejected and do not block the request', async () => {
+    const overnight: CapacityRules = { ...rules, open_time: '18:00', last_order_time: '01:00' };
+    assert.match(findCapacityRulesProblem(overnight) ?? '', /overnight/);
+    assert.equal(findCapacityRulesProblem(rules), undefined);
+
+    const storage = new MemoryStorage({ capacityRules: { 'user-1': overnight } });
+    const ctx: Pick<ToolContext, 'userId' | 'storage' | 'logEvent'> = { userId: 'user-1', storage, logEvent: () => {} };
+    const result = await checkAvailabilityTool.handle({ requested_date: DATE, requested_time: '23:00', party_size: 2 }, ctx as ToolContext);
+    assert.deepEqual(result, { ok: true, available: true, capacity_checked: false });
+  });
+
+  test('unavailable messages are spoken in the caller language', () => {
+    const result = { ok: true, available: false, reason: 'full', alternatives: ['17:30', '20:30'] };
+    const instructions = (language: ToolContext['language']) =>
+      checkAvailabilityTool.buildResponseInstructions!(result, { language } as ToolContext) ?? '';
+
+    assert.match(instructions('ja'), /「その時間は満席です、17時半か、20時半はいかがでしょうか。」/);
+    assert.match(instructions('en'), /「We are fully booked at that time\. Would 17:30 or 20:30 suit you\?」/);
+    assert.match(
+      checkAvailabilityTool.buildResponseInstructions!({ ...result, reason: 'closed_day', alternatives: [] }, { language: 'ko' } as ToolContext) ?? '',
+      /「그날은 정기 휴일입니다\. 다른 날짜는 어떠세요\?」/,
+    );
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  BusinessCalendar,
+  BusinessHoursPeriod,
+  checkReservationTime,
+  describeDay,
+  getDayHours,
+  getOpenStatus,
+} from '../src/businessHours';
+
+const lunchAndDinner = (weekday: number): BusinessHoursPeriod[] => [
+  { weekday, open_time: '11:30:00', close_time: '14:00:00', last_order_time: '13:30:00' },
+  { weekday, open_time: '17:00:00', close_time: '23:00:00', last_order_time: '22:30:00' },
+];
+
+// Monday closed, Tuesday-Friday and Sunday lunch + dinner, Saturday late night until 2:00
+const calendar: BusinessCalendar = {
+  hours: [
+    ...[0, 2, 3, 4, 5].flatMap(lunchAndDinner),
+    { weekday: 6, open_time: '18:00:00', close_time: '02:00:00', last_order_time: '01:00:00' },
+  ],
+  holidays: [{ date: '2026-10-21', label: '店内改装' }],
+};
+
+describe('business hours', () => {
+  test('open during a period, closed between lunch and dinner with the next opening', () => {
+    assert.equal(getOpenStatus(calendar, '2026-10-20', '12:00').open, true);
+
+    const status = getOpenStatus(calendar, '2026-10-20', '15:00');
+    assert.equal(status.open, false);
+    assert.equal(status.reason, 'outside_hours');
+    assert.deepEqual(status.nextOpen, { date: '2026-10-20', time: '17:00' });
+  });
+
+  test('regular closed day and holidays', () => {
+    const monday = getOpenStatus(calendar, '2026-10-19', '12:00');
+    assert.equal(monday.reason, 'regular_closed_day');
+    assert.deepEqual(monday.nextOpen, { date: '2026-10-20', time: '11:30' });
+
+    const holiday = getDayHours(calendar, '2026-10-21');
+    assert.equal(holiday.closedReason, 'holiday');
+    assert.equal(describeDay(holiday), '10月21日（水）は店内改装のため休業日です');
+  });
+
+  test('late-night hours of the previous day count after midnight', () => {
+    assert.equal(getOpenStatus(calendar, '2026-10-25', '01:30').open, true);
+    assert.equal(getOpenStatus(calendar, '2026-10-25', '02:00').open, false);
+  });
+
+  test('reservations must start no later than the last order', () => {
+    assert.deepEqual(checkReservationTime(calendar, '2026-10-20', '22:30'), { ok: true });
+
+    const afterLastOrder = checkReservationTime(calendar, '2026-10-20', '22:45');
+    assert.equal(afterLastOrder.ok, false);
+    assert.equal(!afterLastOrder.ok && afterLastOrder.reason, 'outside_hours');
+
+    assert.equal(checkReservationTime(calendar, '2026-10-20', '13:45').ok, false);
+    assert.equal(checkReservationTime(calendar, '2026-10-25', '00:30').ok, true);
+  });
+
+  test('date-only check rejects closed days', () => {
+    const result = checkReservationTime(calendar, '2026-10-19');
+    assert.equal(!result.ok && result.reason, 'regular_closed_day');
+    assert.deepEqual(checkReservationTime(calendar, '2026-10-20'), { ok: true });
+  });
+
+  test('describes split shifts with last orders', () => {
+    assert.equal(
+      describeDay(getDayHours(calendar, '2026-10-20')),
+      '10月20日（火）は11時半から14時（ラストオーダー13時半）、17時から23時（ラストオーダー22時半）の営業です',
+    );
+  });
+});
@@ -0,0 +1,111 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Simulator, startSimulator } from './simulator';
+
+const USER_ID = 'user-whisper';
+const STORE_NUMBER = '+815000000004';
+const GREETING = 'お電話ありがとうございます。指示テスト店です。';
+const ADMIN_TOKEN = 'simulator-admin-token';
+const OWNER_TOKEN = 'dashboard-token-whisper';
+const OTHER_STORE_TOKEN = 'dashboard-token-other-store';
+
+let sim: Simulator;
+
+before(async () => {
+  sim = await startSimulator({
+    seed: {
+      profiles: [{ id: USER_ID, phone_number: STORE_NUMBER, is_subscribed: true }],
+      prompts: {
+        [USER_ID]: { system_prompt: null, config_metadata: { greeting_message: GREETING } },
+      },
+      dashboardTokens: { [OWNER_TOKEN]: USER_ID, [OTHER_STORE_TOKEN]: 'user-other-store' },
+    },
+    env: { ADMIN_API_TOKEN: ADMIN_TOKEN },
+  });
+});
+
+after(async () => {
+  await sim?.close();
+});
+
+const inject = (callSid: string, body: unknown, token = ADMIN_TOKEN) => fetch(`${sim.httpUrl}/calls/${callSid}/instructions`, {
+  method: 'POST',
+  headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+});
+
+describe('staff instructions (whisper takeover)', () => {
+  test('injects a system message and an immediate response, with an audit record', async () => {
+    const call = await sim.startCall({ userId: USER_ID, toPhoneNumber: STORE_NUMBER, fromPhoneNumber: '+819012345672' });
+    await sim.realtime.received.waitFor((e) => e.type === 'response.create', { from: call.realtimeFrom });
+
+    assert.equal((await inject(call.callSid, { mode: 'system_message', instructions: 'x' }, 'wrong-token')).status, 401);
+    assert.equal((await inject('CA-unknown', { mode: 'system_message', instructions: 'x' })).status, 404);
+    assert.equal((await inject(call.callSid, { mode: 'shout', instructions: 'x' })).status, 400);
+    assert.equal((await inject(call.callSid, { mode: 'response', instructions: '' })).status, 400);
+    // The greeting is still playing: an immediate answer would talk over it
+    assert.equal((await inject(call.callSid, { mode: 'response', instructions: '少々お待ちください' })).status, 409);
+
+    await sim.completeGreeting(call, GREETING);
+    const from = sim.realtime.received.items.length;
+
+    const whisper = await inject(call.callSid, { mode: 'system_message', instructions: '本日は個室が満席です' });
+    assert.equal(whisper.status, 200);
+    const item = await sim.realtime.received.waitFor((e) => e.type === 'conversation.item.create' && e.item?.role === 'system', { from });
+    assert.match(item.item.content[0].text, /本日は個室が満席です/);
+
+    const takeover = await inject(call.callSid, { mode: 'response', instructions: '担当者から折り返すと伝えてください' });
+    assert.equal(takeover.status, 200);
+    const response = await sim.realtime.received.waitFor((e) => e.type === 'response.create', { from });
+    assert.match(response.response.instructions, /担当者から折り返すと伝えてください/);
+
+    const rows = sim.storage.tables.callInjections;
+    assert.deepEqual(rows.map((r) => [r.call_sid, r.user_id, r.injected_by, r.mode, r.instructions]), [
+      [call.callSid, USER_ID, 'admin', 'system_message', '本日は個室が満席です'],
+      [call.callSid, USER_ID, 'admin', 'response', '担当者から折り返すと伝えてください'],
+    ]);
+    assert.equal((await whisper.json()).injection_id, rows[0].id);
+
+    call.twilio.stop();
+  });
+
+  test('store owners can only steer the calls of their own store', async () => {
+    const call = await sim.startCall({ userId: USER_ID, toPhoneNumber: STORE_NUMBER, fromPhoneNumber: '+819012345673' });
+    await sim.completeGreeting(call, GREETING);
+    const from = sim.realtime.received.items.length;
+
+    assert.equal((await inject(call.callSid, { mode: 'system_message', instructions: 'x' }, OTHER_STORE_TOKEN)).status, 404);
+
+    const whisper = await inject(call.callSid, { mode: 'system_message', instructions: 'お子様用の椅子があります' }, OWNER_TOKEN);
+    assert.equal(whisper.status, 200);
+    await sim.realtime.received.waitFor((e) => e.type === 'conversation.item.create' && e.item?.role === 'system', { from });
+
+    const row = sim.storage.tables.callInjections.find((r) => r.call_sid === call.callSid);
+    assert.equal(row?.injected_by, USER_ID);
+    assert.equal(row?.instructions, 'お子様用の椅子があります');
+
+    call.twilio.stop();
+  });
+
+  test('an instruction that cannot be recorded is not sent to the call', async () => {
+    const call = await sim.startCall({ userId: USER_ID, toPhoneNumber: STORE_NUMBER, fromPhoneNumber: '+819012345674' });
+    await sim.completeGreeting(call, GREETING);
+    const from = sim.realtime.received.items.length;
+    const rowsBefore = sim.storage.tables.callInjections.length;
+
+    const create = sim.storage.callInjections.create;
+    sim.storage.callInjections.create = async () => { throw new Error('insert failed'); };
+    try {
+      const rejected = await inject(call.callSid, { mode: 'response', instructions: '記録できない指示' });
+      assert.equal(rejected.status, 500);
+    } finally {
+      sim.storage.callInjections.create = create;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    assert.ok(!sim.realtime.received.items.slice(from).some((e) => e.type === 'response.create'));
+    assert.equal(sim.storage.tables.callInjections.length, rowsBefore);
+
+    call.twilio.stop();
+  });
+});
@@ -0,0 +1,96 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import WebSocket from 'ws';
+import { EventLog, Simulator, startSimulator } from './simulator';
+
+const USER_ID = 'user-monitor';
+const STORE_NUMBER = '+815000000003';
+const CALLER_NUMBER = '+819012345672';
+const GREETING = 'お電話ありがとうございます。モニター店です。';
+const ADMIN_TOKEN = 'simulator-admin-token';
+
+let sim: Simulator;
+
+before(async () => {
+  sim = await startSimulator({
+    seed: {
+      profiles: [{ id: USER_ID, phone_number: STORE_NUMBER, is_subscribed: true }],
+      prompts: {
+        [USER_ID]: { system_prompt: null, config_metadata: { greeting_message: GREETING } },
+      },
+    },
+    env: { ADMIN_API_TOKEN: ADMIN_TOKEN },
+  });
+});
+
+after(async () => {
+  await sim?.close();
+});
+
+interface Monitor {
+  socket: WebSocket;
+  received: EventLog<any>;
+  closed: Promise<{ code: number; reason: string }>;
+}
+
+async function connectMonitor(streamSid: string, token: string): Promise<Monitor> {
+  const url = new URL('/monitor', sim.httpUrl.replace(/^http/, 'ws'));
+  url.searchParams.set('streamSid', streamSid);
+  url.searchParams.set('token', token);
+
+  const socket = new WebSocket(url);
+  const received = new EventLog<any>();
+  socket.on('message', (data) => received.push(JSON.parse(data.toString())));
+  const closed = new Promise<{ code: number; reason: string }>((resolve) => {
+    socket.on('close', (code, reason) => resolve({ code, reason: reason.toString() }));
+  });
+  await new Promise<void>((resolve, reject) => {
+    socket.once('open', () => resolve());
+    socket.once('error', reject);
+  });
+  return { socket, received, closed };
+}
+
+describe('call monitor', () => {
+  test('rejects an invalid token and unknown calls', async () => {
+    const call = await sim.startCall({ userId: USER_ID, toPhoneNumber: STORE_NUMBER, fromPhoneNumber: CALLER_NUMBER });
+    await sim.completeGreeting(call, GREETING);
+
+    const forged = await connectMonitor(call.twilio.streamSid, 'forged');
+    assert.equal((await forged.closed).code, 4001);
+
+    const unknown = await connectMonitor('MZunknown', ADMIN_TOKEN);
+    assert.equal((await unknown.closed).code, 4404);
+    call.twilio.stop();
+  });
+
+  test('streams both audio tracks and the transcript without touching the call', async () => {
+    const call = await sim.startCall({ userId: USER_ID, toPhoneNumber: STORE_NUMBER, fromPhoneNumber: CALLER_NUMBER });
+    await sim.completeGreeting(call, GREETING);
+
+    const monitor = await connectMonitor(call.twilio.streamSid, ADMIN_TOKEN);
+    const start = await monitor.received.waitFor((m) => m.event === 'start', { description: 'monitor start' });
+    assert.equal(start.callSid, call.callSid);
+
+    call.twilio.sendMedia(40);
+    await monitor.received.waitFor((m) => m.event === 'media' && m.track === 'inbound', { description: 'caller audio' });
+
+    sim.realtime.sendAssistantAudio({ transcript: 'ご予約のお日にちはいつでしょうか？', audioMs: 300 });
+    await monitor.received.waitFor((m) => m.event === 'media' && m.track === 'outbound', { description: 'AI audio' });
+    const transcript = await monitor.received.waitFor((m) => m.event === 'transcript', { description: 'AI transcript' });
+    assert.deepEqual([transcript.speaker, transcript.text], ['ai', 'ご予約のお日にちはいつでしょうか？']);
+
+    // Read-only: messages from the listener never reach the call
+    const realtimeCursor = sim.realtime.received.items.length;
+    const twilioCursor = call.twilio.received.items.length;
+    monitor.socket.send(JSON.stringify({ event: 'media', media: { payload: 'AAAA' } }));
+    monitor.socket.send(JSON.stringify({ event: 'clear' }));
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    assert.equal(sim.realtime.received.items.length, realtimeCursor);
+    assert.equal(call.twilio.received.items.length, twilioCursor);
+
+    call.twilio.stop();
+    await monitor.received.waitFor((m) => m.event === 'stop', { description: 'monitor stop' });
+    assert.equal((await monitor.closed).code, 1000);
+  });
+});
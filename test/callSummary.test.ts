@@ -0,0 +1,48 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatSummaryText, parseCallSummary } from '../src/callSummary';
+
+const SUMMARY = {
+  headline: '料理の味に不満',
+  category: 'クレーム',
+  sentiment: 'negative',
+  urgency: 'high',
+  follow_up_action: 'callback',
+  follow_up_note: '本日中に店長から折り返し',
+  notes: ['・昨日来店、パスタが冷めていた', ''],
+  entities: { customer_name: '佐藤', visit_date: null, visit_time: null, party_size: null, callback_number: '09012345678', topic: '料理の味' },
+};
+
+describe('call summary', () => {
+  test('parses the structured summary and derives the headline', () => {
+    const parsed = parseCallSummary(JSON.stringify(SUMMARY));
+    assert.ok('value' in parsed);
+    assert.equal(parsed.value.category, 'クレーム');
+    assert.equal(parsed.value.follow_up_action, 'callback');
+    assert.deepEqual(parsed.value.notes, ['・昨日来店、パスタが冷めていた']);
+    assert.equal(parsed.value.entities.callback_number, '09012345678');
+    assert.equal(formatSummaryText(parsed.value), '【クレーム】料理の味に不満\n・昨日来店、パスタが冷めていた');
+  });
+
+  test('a label written by the model is not doubled', () => {
+    const parsed = parseCallSummary(JSON.stringify({ ...SUMMARY, headline: '【苦情】料理の味に不満', notes: [] }));
+    assert.ok('value' in parsed);
+    assert.equal(formatSummaryText(parsed.value), '【クレーム】料理の味に不満');
+  });
+
+  test('entities are best effort', () => {
+    const parsed = parseCallSummary(JSON.stringify({ ...SUMMARY, entities: { party_size: '2', customer_name: ' ' } }));
+    assert.ok('value' in parsed);
+    assert.deepEqual(parsed.value.entities, {
+      customer_name: null, visit_date: null, visit_time: null, party_size: 2, callback_number: null, topic: null,
+    });
+  });
+
+  test('rejects output that does not match the schema', () => {
+    assert.deepEqual(parseCallSummary('【予約】明日10時来店希望'), { error: 'not JSON' });
+    assert.deepEqual(parseCallSummary(JSON.stringify({ ...SUMMARY, headline: '' })), { error: 'headline is missing' });
+    const invalid = parseCallSummary(JSON.stringify({ ...SUMMARY, category: '折返依頼' }));
+    assert.ok('error' in invalid);
+    assert.match(invalid.error, /^category must be one of/);
+  });
+});
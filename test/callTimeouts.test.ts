@@ -0,0 +1,114 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SimulatedCall, Simulator, startSimulator, waitUntil } from './simulator';
+
+const IDLE_USER_ID = 'user-idle';
+const IDLE_STORE_NUMBER = '+815000000010';
+const MAX_USER_ID = 'user-max-duration';
+const MAX_STORE_NUMBER = '+815000000011';
+const CALLER_NUMBER = '+819012345678';
+const GREETING = 'お電話ありがとうございます。タイムアウト店です。';
+
+let sim: Simulator;
+
+before(async () => {
+  sim = await startSimulator({
+    seed: {
+      profiles: [
+        { id: IDLE_USER_ID, phone_number: IDLE_STORE_NUMBER, is_subscribed: true },
+        { id: MAX_USER_ID, phone_number: MAX_STORE_NUMBER, is_subscribed: true },
+      ],
+      prompts: {
+        [IDLE_USER_ID]: {
+          system_prompt: null,
+          config_metadata: { greeting_message: GREETING, idle_timeout_seconds: 0.4 },
+        },
+        [MAX_USER_ID]: {
+          system_prompt: null,
+          config_metadata: { greeting_message: GREETING, idle_timeout_seconds: 0, max_call_duration_seconds: 1.5 },
+        },
+      },
+    },
+  });
+});
+
+after(async () => {
+  await sim?.close();
+});
+
+const waitForResponseCreate = (call: SimulatedCall, pattern: RegExp, description: string) =>
+  sim.realtime.received.waitFor(
+    (e) => e.type === 'response.create' && pattern.test(e.response?.instructions ?? ''),
+    { from: call.realtimeFrom, description },
+  );
+
+describe('call timeouts', () => {
+  test('silence: asks 「もしもし？」, then says goodbye and ends the call after playback', async () => {
+    const call = await sim.startCall({ userId: IDLE_USER_ID, toPhoneNumber: IDLE_STORE_NUMBER, fromPhoneNumber: CALLER_NUMBER });
+    await sim.completeGreeting(call, GREETING);
+
+    await waitForResponseCreate(call, /もしもし/, 'idle prompt');
+    sim.realtime.sendAssistantAudio({ transcript: 'もしもし？お電話聞こえていますでしょうか？', audioMs: 300 });
+
+    await waitForResponseCreate(call, /失礼いたします/, 'idle goodbye');
+    call.twilio.autoAckMarks = false;
+    sim.realtime.sendAssistantAudio({ transcript: 'お電話が遠いようですので、失礼いたします。', audioMs: 900 });
+    await waitUntil(() => call.twilio.pendingMarkCount > 0, 'goodbye marks');
+
+    // Not hung up until Twilio reports the goodbye as played
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    call.twilio.ackMarks();
+    await call.twilio.waitForClose();
+
+    const callLog = await waitUntil(
+      () => sim.storage.tables.callLogs.find((l) => l.call_sid === call.callSid),
+      'call log',
+    );
+    assert.deepEqual(
+      callLog.transcript.map((t) => t.role),
+      ['assistant', 'assistant', 'system', 'assistant'],
+    );
+    assert.equal(callLog.ended_by, 'timeout');
+  });
+
+  test('caller speech resets the silence countdown', async () => {
+    const call = await sim.startCall({ userId: IDLE_USER_ID, toPhoneNumber: IDLE_STORE_NUMBER, fromPhoneNumber: CALLER_NUMBER });
+    await sim.completeGreeting(call, GREETING);
+
+    await waitForResponseCreate(call, /もしもし/, 'idle prompt');
+    sim.realtime.sendSpeechStarted();
+    sim.realtime.sendSpeechStopped();
+    sim.realtime.sendUserTranscript('はい、聞こえています');
+
+    // The next silence starts over with 「もしもし？」 instead of the goodbye
+    const next = await sim.realtime.received.waitFor(
+      (e) => e.type === 'response.create' && /もしもし|失礼いたします/.test(e.response?.instructions ?? ''),
+      { from: sim.realtime.received.items.length, description: 'next idle response.create' },
+    );
+    assert.match(next.response.instructions, /もしもし/);
+    call.twilio.stop();
+  });
+
+  test('max call duration: cuts the current answer, says goodbye and ends the call', async () => {
+    const call = await sim.startCall({ userId: MAX_USER_ID, toPhoneNumber: MAX_STORE_NUMBER, fromPhoneNumber: CALLER_NUMBER });
+    await sim.completeGreeting(call, GREETING);
+
+    call.twilio.autoAckMarks = false;
+    sim.realtime.sendAssistantAudio({ transcript: '当店のコースは…', audioMs: 3000, done: false });
+
+    await waitForResponseCreate(call, /上限/, 'max duration goodbye');
+    assert.ok(sim.realtime.received.items.slice(call.realtimeFrom).some((e) => e.type === 'response.cancel'));
+    await waitUntil(() => call.twilio.received.filter((m) => m.event === 'clear').length === 1, 'clear of the cut answer');
+
+    call.twilio.autoAckMarks = true;
+    sim.realtime.sendAssistantAudio({ transcript: '通話時間の上限に達しましたので、これで失礼いたします。', audioMs: 600 });
+    await call.twilio.waitForClose();
+    assert.deepEqual(sim.twilioApi.callUpdates(call.callSid).map((r) => r.params), [{ Status: 'completed' }]);
+
+    const callLog = await waitUntil(
+      () => sim.storage.tables.callLogs.find((l) => l.call_sid === call.callSid),
+      'call log',
+    );
+    assert.ok(callLog.transcript.some((t) => t.role === 'system' && /上限/.test(t.text)));
+  });
+});
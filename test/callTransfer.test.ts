@@ -0,0 +1,79 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Simulator, startSimulator, waitUntil } from './simulator';
+
+const USER_ID = 'user-transfer';
+const STORE_NUMBER = '+815000000030';
+const CALLER_NUMBER = '+819012345630';
+const STAFF_NUMBER = '+819098765430';
+const GREETING = 'お電話ありがとうございます。転送テスト店です。';
+
+let sim: Simulator;
+
+before(async () => {
+  sim = await startSimulator({
+    seed: {
+      profiles: [{ id: USER_ID, phone_number: STORE_NUMBER, is_subscribed: true }],
+      prompts: {
+        [USER_ID]: { system_prompt: null, config_metadata: { greeting_message: GREETING, transfer_phone_number: STAFF_NUMBER } },
+      },
+    },
+    env: { TRANSFER_DIAL_TIMEOUT_SECONDS: '15' },
+  });
+});
+
+after(async () => {
+  await sim?.close();
+});
+
+/** Absolute callback URL in TwiML -> path + query the engine serves */
+const callbackPath = (twiml: string, pattern: RegExp) => {
+  const url = twiml.match(pattern)?.[1];
+  assert.ok(url, `callback URL matching ${pattern}`);
+  const { pathname, search } = new URL(url.replace(/&amp;/g, '&'));
+  return pathname + search;
+};
+
+describe('transfer to staff', () => {
+  test('redirects the call to the staff with a whisper and records the transfer on the call log', async () => {
+    const call = await sim.startCall({ userId: USER_ID, toPhoneNumber: STORE_NUMBER, fromPhoneNumber: CALLER_NUMBER });
+    await sim.completeGreeting(call, GREETING);
+
+    sim.realtime.sendUserTranscript('店長さんと話したいです');
+    sim.realtime.sendFunctionCall('transfer_to_staff', { reason: 'manager_request', summary: '店長と話したいとのこと' });
+    await call.twilio.waitForClose();
+
+    const [update] = sim.twilioApi.callUpdates(call.callSid);
+    const twiml = update.params.Twiml;
+    assert.match(twiml, /<Say language="ja-JP">担当者にお繋ぎします。少々お待ちください。<\/Say>/);
+    assert.match(twiml, /<Dial timeout="15" action="http:\/\/127\.0\.0\.1\/transfer\/status">/);
+    assert.match(twiml, new RegExp(`<Number url="[^"]+">\\${STAFF_NUMBER}</Number>`));
+
+    // The staff member hears the summary before the call is bridged
+    const whisper = await sim.postTwilioWebhook(callbackPath(twiml, /<Number url="([^"]+)"/), { CallSid: 'CAstaffleg' });
+    assert.equal(whisper.status, 200);
+    assert.match(await whisper.text(), /<Say language="ja-JP">AI受付からの転送です。用件は、店長と話したいとのこと。<\/Say>/);
+
+    const callLog = await waitUntil(() => sim.storage.tables.callLogs.find((l) => l.call_sid === call.callSid), 'call log');
+    assert.equal(callLog.status, 'transferred');
+    assert.equal(callLog.transfer_reason, 'manager_request');
+    assert.equal(callLog.transfer_turn, 2); // greeting + caller utterance
+    assert.ok(callLog.transferred_at && !Number.isNaN(Date.parse(callLog.transferred_at)));
+  });
+
+  test('falls back to voicemail when the staff does not answer', async () => {
+    const noAnswer = await sim.postTwilioWebhook('/transfer/status', { CallSid: 'CAnoanswer', DialCallStatus: 'no-answer' });
+    assert.equal(noAnswer.status, 200);
+    const twiml = await noAnswer.text();
+    assert.match(twiml, /<Record maxLength="\d+" playBeep="true" action="http:\/\/127\.0\.0\.1\/voicemail\/complete" \/>/);
+
+    const busy = await sim.postTwilioWebhook('/transfer/status', { CallSid: 'CAbusy', DialCallStatus: 'busy' });
+    assert.match(await busy.text(), /<Record /);
+
+    // The staff answered: the call ends when the bridged call does
+    const completed = await sim.postTwilioWebhook('/transfer/status', { CallSid: 'CAanswered', DialCallStatus: 'completed' });
+    const hangup = await completed.text();
+    assert.match(hangup, /<Hangup\/>/);
+    assert.doesNotMatch(hangup, /<Record /);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ConfigError,
+  parseFlagSetting,
+  parseNumberSetting,
+  RealtimeTuning,
+  resolveRealtimeTuning,
+} from '../src/configSchema';
+
+const DEFAULTS: RealtimeTuning = {
+  model: 'gpt-realtime',
+  voice: 'marin',
+  vadThreshold: 0.8,
+  vadSilenceDurationMs: 700,
+  bargeInDebounceMs: 1000,
+  bargeInMinRemainMs: 2000,
+};
+
+describe('config schema', () => {
+  test('numbers are parsed strictly', () => {
+    assert.deepEqual(parseNumberSetting('0.8', { min: 0, max: 1 }), { value: 0.8 });
+    assert.deepEqual(parseNumberSetting(' 700 ', { integer: true }), { value: 700 });
+    assert.ok('error' in parseNumberSetting('0,8'));
+    assert.ok('error' in parseNumberSetting('700ms', { integer: true }));
+    assert.ok('error' in parseNumberSetting(''));
+    assert.ok('error' in parseNumberSetting('1.5', { integer: true }));
+    assert.ok('error' in parseNumberSetting('1.2', { min: 0, max: 1 }));
+  });
+
+  test('flags are "1" or "0"', () => {
+    assert.deepEqual(parseFlagSetting('1'), { value: true });
+    assert.deepEqual(parseFlagSetting('0'), { value: false });
+    assert.ok('error' in parseFlagSetting('true'));
+  });
+
+  test('ConfigError lists every problem', () => {
+    const error = new ConfigError(['PUBLIC_URL is required', 'VAD_THRESHOLD must be <= 1 (got 8)']);
+    assert.match(error.message, /PUBLIC_URL is required\n.*VAD_THRESHOLD must be <= 1/);
+  });
+});
+
+describe('per-tenant realtime tuning', () => {
+  test('no config_metadata keeps the defaults', () => {
+    assert.deepEqual(resolveRealtimeTuning(DEFAULTS, null), { tuning: DEFAULTS, overridden: [], errors: [] });
+  });
+
+  test('valid overrides replace the defaults', () => {
+    const { tuning, overridden, errors } = resolveRealtimeTuning(DEFAULTS, {
+      realtime_model: 'gpt-realtime-mini',
+      voice: 'cedar',
+      vad_threshold: '0.9',
+      vad_silence_duration_ms: 900,
+      barge_in_debounce_ms: 1500,
+    });
+    assert.deepEqual(tuning, {
+      model: 'gpt-realtime-mini',
+      voice: 'cedar',
+      vadThreshold: 0.9,
+      vadSilenceDurationMs: 900,
+      bargeInDebounceMs: 1500,
+      bargeInMinRemainMs: 2000,
+    });
+    assert.deepEqual(overridden, ['realtime_model', 'voice', 'vad_threshold', 'vad_silence_duration_ms', 'barge_in_debounce_ms']);
+    assert.deepEqual(errors, []);
+  });
+
+  test('invalid overrides are reported and ignored', () => {
+    const { tuning, overridden, errors } = resolveRealtimeTuning(DEFAULTS, {
+      voice: 'robot',
+      vad_threshold: 'high',
+      realtime_model: 'gpt realtime&x=1',
+      barge_in_debounce_ms: '',
+    });
+    assert.deepEqual(tuning, DEFAULTS);
+    assert.deepEqual(overridden, []);
+    assert.equal(errors.length, 3);
+    assert.match(errors[0], /^config_metadata\.realtime_model /);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ConsentStateMachine, parseClassification } from '../src/consent';
+
+const ANSWERS = { customer_name: '山田太郎', party_size: 2 };
+
+describe('consent state machine', () => {
+  test('idle -> awaiting -> confirmed -> finalized', () => {
+    const consent = new ConsentStateMachine();
+    assert.equal(consent.state, 'idle');
+    assert.equal(consent.canFinalize(), false);
+
+    const request = consent.requestConfirmation('2名様ですね。', ANSWERS);
+    assert.equal(consent.state, 'awaiting');
+    assert.equal(consent.canFinalize(), false);
+
+    assert.equal(consent.applyReply(request.id, 'はい', { intent: 'confirm', corrections: [] }), 'confirm');
+    assert.equal(consent.state, 'confirmed');
+    assert.equal(consent.canFinalize(), true);
+
+    consent.markFinalized('res-1');
+    assert.equal(consent.state, 'finalized');
+    assert.equal(consent.canFinalize(), true);
+    assert.deepEqual(consent.audit.map(e => [e.type, e.state]), [
+      ['requested', 'awaiting'],
+      ['reply', 'confirmed'],
+      ['finalized', 'finalized'],
+    ]);
+  });
+
+  test('a confirmation with corrections goes back to idle', () => {
+    const consent = new ConsentStateMachine();
+    const request = consent.requestConfirmation('19時に2名様ですね。', ANSWERS);
+    const intent = consent.applyReply(request.id, 'はい、でも時間は8時で', {
+      intent: 'confirm',
+      corrections: [{ field: 'requested_time', value: '20:00' }],
+    });
+    assert.equal(intent, 'correct');
+    assert.equal(consent.state, 'idle');
+    assert.equal(consent.request, undefined);
+    assert.deepEqual(consent.audit[1].corrections, [{ field: 'requested_time', value: '20:00' }]);
+  });
+
+  test('unclear keeps waiting, decline resets', () => {
+    const consent = new ConsentStateMachine();
+    const request = consent.requestConfirmation('2名様ですね。', ANSWERS);
+    assert.equal(consent.applyReply(request.id, 'えっと', { intent: 'unclear', corrections: [] }), 'unclear');
+    assert.equal(consent.state, 'awaiting');
+    assert.equal(consent.applyReply(request.id, 'やっぱりやめます', { intent: 'decline', corrections: [] }), 'decline');
+    assert.equal(consent.state, 'idle');
+  });
+
+  test('replies to an older confirmation are ignored', () => {
+    const consent = new ConsentStateMachine();
+    const first = consent.requestConfirmation('19時ですね。', ANSWERS);
+    consent.requestConfirmation('20時ですね。', ANSWERS);
+    assert.equal(consent.applyReply(first.id, 'はい', { intent: 'confirm', corrections: [] }), undefined);
+    assert.equal(consent.state, 'awaiting');
+  });
+
+  test('malformed classifier output is unclear', () => {
+    assert.deepEqual(parseClassification('{"intent":"confirm","corrections":[]}'), { intent: 'confirm', corrections: [] });
+    assert.deepEqual(
+      parseClassification('{"intent":"correct","corrections":[{"field":"party_size","value":3}]}'),
+      { intent: 'correct', corrections: [{ field: 'party_size', value: '3' }] },
+    );
+    assert.deepEqual(parseClassification('{"intent":"maybe"}'), { intent: 'unclear', corrections: [] });
+    assert.deepEqual(parseClassification('not json'), { intent: 'unclear', corrections: [] });
+    assert.deepEqual(parseClassification(null), { intent: 'unclear', corrections: [] });
+  });
+});
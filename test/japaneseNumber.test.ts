@@ -0,0 +1,51 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { kanjiToNumber, parseJapaneseNumber, parsePartySize } from '../src/japaneseNumber';
+
+describe('japaneseNumber', () => {
+  test('kanji numerals', () => {
+    assert.equal(kanjiToNumber('三'), 3);
+    assert.equal(kanjiToNumber('十'), 10);
+    assert.equal(kanjiToNumber('十二'), 12);
+    assert.equal(kanjiToNumber('二十五'), 25);
+    assert.equal(kanjiToNumber('百二十'), 120);
+    assert.equal(kanjiToNumber('二〇'), 20);
+    assert.equal(kanjiToNumber('三万'), 30000);
+    assert.equal(kanjiToNumber('三名'), null);
+  });
+
+  test('numbers with counters and full-width digits', () => {
+    assert.equal(parseJapaneseNumber(4), 4);
+    assert.equal(parseJapaneseNumber('5'), 5);
+    assert.equal(parseJapaneseNumber('３名'), 3);
+    assert.equal(parseJapaneseNumber('三名'), 3);
+    assert.equal(parseJapaneseNumber('十二名様'), 12);
+    assert.equal(parseJapaneseNumber('二人'), 2);
+    assert.equal(parseJapaneseNumber('4席'), 4);
+    assert.equal(parseJapaneseNumber('ふたり'), 2);
+    assert.equal(parseJapaneseNumber('一人です'), 1);
+  });
+
+  test('words containing kanji digits are not numbers', () => {
+    assert.equal(parseJapaneseNumber('一緒に'), null);
+    assert.equal(parseJapaneseNumber('未定'), null);
+    assert.equal(parseJapaneseNumber(''), null);
+  });
+
+  test('several counted people are summed, unrelated numbers are ambiguous', () => {
+    assert.equal(parseJapaneseNumber('大人2名と子供1名'), 3);
+    assert.equal(parseJapaneseNumber('3歳と5歳'), null);
+  });
+
+  test('party size with adult / child breakdown', () => {
+    assert.deepEqual(parsePartySize('大人2名と子供1名'), { total: 3, adults: 2, children: 1 });
+    assert.deepEqual(parsePartySize('大人二人、子ども一人'), { total: 3, adults: 2, children: 1 });
+    assert.deepEqual(parsePartySize('大人３名'), { total: 3, adults: 3, children: undefined });
+    assert.deepEqual(parsePartySize('4名（うち子供1名）'), { total: 4, adults: 3, children: 1 });
+    assert.deepEqual(parsePartySize('お子様連れで4名'), { total: 4 });
+    assert.deepEqual(parsePartySize('三名様'), { total: 3 });
+    assert.deepEqual(parsePartySize(2), { total: 2 });
+    assert.equal(parsePartySize('0名'), null);
+    assert.equal(parsePartySize('未定'), null);
+  });
+});
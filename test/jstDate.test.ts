@@ -0,0 +1,127 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { jstNow, normalizeDateTime, parseJapaneseDate, parseJapaneseTime } from '../src/jstDate';
+
+// Monday 2026-10-19 12:00 JST
+const NOW = new Date('2026-10-19T03:00:00Z');
+const TODAY = '2026-10-19';
+
+describe('jstDate', () => {
+  test('jstNow uses Japan time regardless of the server timezone', () => {
+    assert.deepEqual(jstNow(NOW), { date: TODAY, time: '12:00' });
+    assert.deepEqual(jstNow(new Date('2026-10-19T15:30:00Z')), { date: '2026-10-20', time: '00:30' });
+  });
+
+  test('relative days', () => {
+    assert.equal(parseJapaneseDate('今日', TODAY), '2026-10-19');
+    assert.equal(parseJapaneseDate('明日', TODAY), '2026-10-20');
+    assert.equal(parseJapaneseDate('あさって', TODAY), '2026-10-21');
+    assert.equal(parseJapaneseDate('明後日', TODAY), '2026-10-21');
+    assert.equal(parseJapaneseDate('しあさって', TODAY), '2026-10-22');
+    assert.equal(parseJapaneseDate('3日後', TODAY), '2026-10-22');
+  });
+
+  test('weekdays: weeks start on Monday, a bare weekday is the next occurrence', () => {
+    assert.equal(parseJapaneseDate('今週金曜', TODAY), '2026-10-23');
+    assert.equal(parseJapaneseDate('来週の金曜日', TODAY), '2026-10-30');
+    assert.equal(parseJapaneseDate('再来週の月曜日', TODAY), '2026-11-02');
+    assert.equal(parseJapaneseDate('金曜日', TODAY), '2026-10-23');
+    assert.equal(parseJapaneseDate('月曜', TODAY), '2026-10-19');
+    // From a Sunday, 来週 is the week starting the next day
+    assert.equal(parseJapaneseDate('来週金曜', '2026-10-25'), '2026-10-30');
+  });
+
+  test('calendar dates', () => {
+    assert.equal(parseJapaneseDate('2026/11/3', TODAY), '2026-11-03');
+    assert.equal(parseJapaneseDate('2026-10-25', TODAY), '2026-10-25');
+    assert.equal(parseJapaneseDate('１０月２５日', TODAY), '2026-10-25');
+    assert.equal(parseJapaneseDate('25日', TODAY), '2026-10-25');
+    assert.equal(parseJapaneseDate('5日', TODAY), '2026-11-05');
+    assert.equal(parseJapaneseDate('2月30日', TODAY), null);
+    assert.equal(parseJapaneseDate('そのうち', TODAY), null);
+  });
+
+  test('dates without a year roll over only within the horizon', () => {
+    assert.equal(parseJapaneseDate('1月5日', '2026-12-20', 60), '2027-01-05');
+    // Yesterday stays in the past (next year would be beyond the horizon)
+    assert.equal(parseJapaneseDate('10月18日', TODAY, 60), '2026-10-18');
+  });
+
+  test('times', () => {
+    assert.equal(parseJapaneseTime('19:30'), '19:30');
+    assert.equal(parseJapaneseTime('19時半'), '19:30');
+    assert.equal(parseJapaneseTime('19時15分'), '19:15');
+    assert.equal(parseJapaneseTime('１９時'), '19:00');
+    assert.equal(parseJapaneseTime('夜7時'), '19:00');
+    assert.equal(parseJapaneseTime('夕方6時半'), '18:30');
+    assert.equal(parseJapaneseTime('午後3時'), '15:00');
+    assert.equal(parseJapaneseTime('午前11時'), '11:00');
+    assert.equal(parseJapaneseTime('昼1時'), '13:00');
+    assert.equal(parseJapaneseTime('正午'), '12:00');
+    assert.equal(parseJapaneseTime('25時'), null);
+    assert.equal(parseJapaneseTime('夕方'), null);
+  });
+
+  test('periods of the day, including midnight and the small hours', () => {
+    assert.equal(parseJapaneseTime('夜12時'), '00:00');
+    assert.equal(parseJapaneseTime('晩12時'), '00:00');
+    assert.equal(parseJapaneseTime('深夜0時'), '00:00');
+    assert.equal(parseJapaneseTime('深夜1時'), '01:00');
+    assert.equal(parseJapaneseTime('夜1時半'), '01:30');
+    assert.equal(parseJapaneseTime('深夜11時'), '23:00');
+    assert.equal(parseJapaneseTime('晩9時'), '21:00');
+    assert.equal(parseJapaneseTime('朝9時'), '09:00');
+    assert.equal(parseJapaneseTime('朝12時'), null);
+    assert.equal(parseJapaneseTime('午前12時'), '00:00');
+    assert.equal(parseJapaneseTime('午前13時'), null);
+    assert.equal(parseJapaneseTime('昼12時'), '12:00');
+  });
+
+  test('normalizeDateTime resolves relative expressions', () => {
+    assert.deepEqual(
+      normalizeDateTime({ date: '明日', time: '夜7時' }, { horizonDays: 60, now: NOW }),
+      { date: '2026-10-20', time: '19:00', invalid_fields: [] },
+    );
+  });
+
+  test('normalizeDateTime: midnight and the small hours belong to the night of the given date', () => {
+    assert.deepEqual(
+      normalizeDateTime({ date: '今日', time: '夜12時' }, { horizonDays: 60, now: NOW }),
+      { date: '2026-10-20', time: '00:00', invalid_fields: [] },
+    );
+    assert.deepEqual(
+      normalizeDateTime({ date: '明日', time: '深夜1時' }, { horizonDays: 60, now: NOW }),
+      { date: '2026-10-21', time: '01:00', invalid_fields: [] },
+    );
+  });
+
+  test('normalizeDateTime: a bare weekday of today whose time has passed is next week', () => {
+    // Monday 12:00
+    assert.deepEqual(
+      normalizeDateTime({ date: '月曜', time: '11:00' }, { horizonDays: 60, now: NOW }),
+      { date: '2026-10-26', time: '11:00', invalid_fields: [] },
+    );
+    assert.deepEqual(
+      normalizeDateTime({ date: '月曜日', time: '19:00' }, { horizonDays: 60, now: NOW }),
+      { date: TODAY, time: '19:00', invalid_fields: [] },
+    );
+    // 今週 / 今日 are explicit: still reported as past
+    assert.equal(normalizeDateTime({ date: '今週月曜', time: '11:00' }, { horizonDays: 60, now: NOW }).invalid_fields[0].reason, 'past');
+  });
+
+  test('normalizeDateTime reports past and out-of-horizon values', () => {
+    const past = normalizeDateTime({ date: '2026-10-18', time: '19:00' }, { horizonDays: 60, now: NOW });
+    assert.deepEqual(past.invalid_fields.map(f => [f.field, f.reason]), [['date', 'past']]);
+
+    const earlierToday = normalizeDateTime({ date: '今日', time: '11:00' }, { horizonDays: 60, now: NOW });
+    assert.deepEqual(earlierToday.invalid_fields.map(f => [f.field, f.reason]), [['time', 'past']]);
+    assert.equal(normalizeDateTime({ date: '今日', time: '13:00' }, { horizonDays: 60, now: NOW }).invalid_fields.length, 0);
+
+    const tooFar = normalizeDateTime({ date: '2027-01-01' }, { horizonDays: 60, now: NOW });
+    assert.equal(tooFar.invalid_fields[0].reason, 'beyond_horizon');
+    assert.match(tooFar.invalid_fields[0].message, /12月18日/);
+
+    const unknown = normalizeDateTime({ date: 'そのうち', time: 'いつでも' }, { horizonDays: 60, now: NOW });
+    assert.deepEqual(unknown.invalid_fields.map(f => f.reason), ['unparseable', 'unparseable']);
+  });
+});
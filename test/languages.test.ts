@@ -0,0 +1,31 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildLanguageInstruction, detectLanguage, normalizeLanguage } from '../src/languages';
+
+describe('languages', () => {
+  test('detects the caller language from one utterance', () => {
+    assert.equal(detectLanguage('明日の7時に予約したいです'), 'ja');
+    assert.equal(detectLanguage('Hi, I would like to book a table for two.'), 'en');
+    assert.equal(detectLanguage('你好，我想订明天晚上的位子'), 'zh');
+    assert.equal(detectLanguage('내일 저녁 예약하고 싶어요'), 'ko');
+  });
+
+  test('ambiguous utterances do not decide the language', () => {
+    assert.equal(detectLanguage('OK'), undefined);
+    assert.equal(detectLanguage('19:00'), undefined);
+    // Kanji only: could be Japanese or Chinese
+    assert.equal(detectLanguage('明日七時二名'), undefined);
+  });
+
+  test('primary_language codes', () => {
+    assert.equal(normalizeLanguage('en-US'), 'en');
+    assert.equal(normalizeLanguage('zh_TW'), 'zh');
+    assert.equal(normalizeLanguage(undefined), 'ja');
+    assert.equal(normalizeLanguage('fr'), 'ja');
+  });
+
+  test('only non-Japanese callers get a language block', () => {
+    assert.equal(buildLanguageInstruction('ja'), '');
+    assert.match(buildLanguageInstruction('ko'), /韓国語で行うこと/);
+  });
+});
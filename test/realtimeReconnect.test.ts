@@ -0,0 +1,112 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SimulatedCall, Simulator, startSimulator, waitUntil } from './simulator';
+
+const USER_ID = 'user-reconnect';
+const STORE_NUMBER = '+815000000001';
+const CALLER_NUMBER = '+819012345679';
+const GREETING = 'お電話ありがとうございます。再接続テスト店です。';
+
+let sim: Simulator;
+
+before(async () => {
+  sim = await startSimulator({
+    seed: {
+      profiles: [{ id: USER_ID, phone_number: STORE_NUMBER, is_subscribed: true }],
+      prompts: { [USER_ID]: { system_prompt: null, config_metadata: { greeting_message: GREETING } } },
+    },
+    env: {
+      REALTIME_RECONNECT_MAX_ATTEMPTS: '2',
+      REALTIME_RECONNECT_BASE_DELAY_MS: '50',
+      REALTIME_HANDSHAKE_TIMEOUT_MS: '300',
+    },
+  });
+});
+
+after(async () => {
+  await sim?.close();
+});
+
+/** Past the greeting, with one caller turn and one AI turn in the transcript */
+async function startCallMidConversation(): Promise<SimulatedCall> {
+  const call = await sim.startCall({ userId: USER_ID, toPhoneNumber: STORE_NUMBER, fromPhoneNumber: CALLER_NUMBER });
+  await sim.completeGreeting(call, GREETING);
+
+  sim.realtime.sendUserTranscript('予約をお願いします');
+  sim.realtime.sendAssistantAudio({ transcript: 'かしこまりました。お名前をお伺いできますか？', audioMs: 400 });
+  // The final mark is sent after response.done was handled
+  await waitUntil(() => call.twilio.received.filter((m) => m.event === 'mark').some((m) => /:ms:400:/.test(m.mark!.name)), 'AI turn');
+  return call;
+}
+
+describe('realtime reconnection', () => {
+  test('restores the session and replays the conversation after a dropped connection', async () => {
+    const call = await startCallMidConversation();
+    const from = sim.realtime.received.items.length;
+    const connections = sim.realtime.connectionCount;
+    const audioBefore = call.twilio.receivedAudioMs;
+
+    sim.realtime.dropConnection();
+
+    // Filler (「少々お待ちください」) keeps the caller from hearing dead air
+    await waitUntil(() => call.twilio.receivedAudioMs > audioBefore, 'filler audio');
+
+    const update = await sim.realtime.received.waitFor((e) => e.type === 'session.update', { from, description: 'session.update on the new session' });
+    assert.equal(update.session.turn_detection.create_response, true);
+    assert.equal(sim.realtime.connectionCount, connections + 1);
+
+    const resume = await sim.realtime.received.waitFor(
+      (e) => e.type === 'response.create',
+      { from, description: 'response.create after replay' },
+    );
+    assert.match(resume.response.instructions, /お待たせいたしました/);
+
+    const replayed = sim.realtime.received.items
+      .slice(from, sim.realtime.received.items.indexOf(resume))
+      .filter((e) => e.type === 'conversation.item.create' && e.item.type === 'message')
+      .map((e) => [e.item.role, e.item.content[0].text]);
+    assert.deepEqual(replayed, [
+      ['assistant', GREETING],
+      ['user', '予約をお願いします'],
+      ['assistant', 'かしこまりました。お名前をお伺いできますか？'],
+    ]);
+
+    call.twilio.stop();
+  });
+
+  test('gives up on a connection attempt whose upgrade never completes and retries', async () => {
+    const call = await startCallMidConversation();
+    const from = sim.realtime.received.items.length;
+    const connections = sim.realtime.connectionCount;
+
+    sim.realtime.stallConnections = 1;
+    sim.realtime.dropConnection();
+
+    // Attempt 1 hangs in the handshake and times out, attempt 2 restores the session
+    const update = await sim.realtime.received.waitFor((e) => e.type === 'session.update', { from, timeoutMs: 5000, description: 'session.update on the new session' });
+    assert.equal(update.session.turn_detection.create_response, true);
+    assert.equal(sim.realtime.connectionCount, connections + 1);
+    assert.equal(sim.realtime.stallConnections, 0);
+    await sim.realtime.received.waitFor((e) => e.type === 'response.create', { from, description: 'response.create after replay' });
+
+    call.twilio.stop();
+  });
+
+  test('ends the AI conversation instead of leaving dead air when reconnection keeps failing', async () => {
+    const call = await startCallMidConversation();
+
+    sim.realtime.refuseConnections = 2;
+    sim.realtime.dropConnection();
+
+    // The call is redirected to voicemail, which ends the Media Stream
+    await call.twilio.waitForClose();
+    const updates = sim.twilioApi.callUpdates(call.callSid);
+    assert.equal(updates.length, 1);
+    assert.match(updates[0].params.Twiml, /<Record /);
+    assert.match(updates[0].params.Twiml, /ただいまシステムに不具合が発生しております/);
+
+    const callLog = await waitUntil(() => sim.storage.tables.callLogs.find((l) => l.call_sid === call.callSid), 'call log');
+    assert.ok(callLog.transcript.some((t) => t.role === 'system' && /接続が復旧しなかった/.test(t.text)));
+    assert.equal(callLog.ended_by, 'error');
+  });
+});
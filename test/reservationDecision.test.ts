@@ -0,0 +1,146 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ReservationRecord } from '../src/storage';
+import { Simulator, startSimulator } from './simulator';
+
+const USER_ID = 'user-decision';
+const STORE_NUMBER = '+815000000060';
+const OWNER_TOKEN = 'dashboard-token-decision';
+const OTHER_STORE_TOKEN = 'dashboard-token-decision-other';
+
+let sim: Simulator;
+let seq = 0;
+
+before(async () => {
+  sim = await startSimulator({
+    seed: {
+      profiles: [{ id: USER_ID, phone_number: STORE_NUMBER, is_subscribed: true }],
+      prompts: {
+        [USER_ID]: { system_prompt: null, config_metadata: { store_name: '判定テスト店' } },
+      },
+      dashboardTokens: { [OWNER_TOKEN]: USER_ID, [OTHER_STORE_TOKEN]: 'user-other-store' },
+    },
+  });
+});
+
+after(async () => {
+  await sim?.close();
+});
+
+/** Pending reservation made by phone */
+const createReservation = async (overrides: Partial<ReservationRecord> = {}) => {
+  const { id } = await sim.storage.reservations.create({
+    user_id: USER_ID,
+    call_sid: `CAdecision${++seq}`,
+    customer_phone: `+81901234566${seq}`,
+    customer_name: '山田',
+    requested_date: '2026-10-21',
+    requested_time: '19:00',
+    party_size: 2,
+    status: 'pending',
+    answers: {},
+    source: 'phone_call_realtime_tool',
+    ...overrides,
+  });
+  return id;
+};
+
+const decide = (id: string, body: unknown, token: string | null = OWNER_TOKEN) => fetch(`${sim.httpUrl}/reservations/${id}/decision`, {
+  method: 'POST',
+  headers: { ...(token ? { Authorization: `Bearer ${token}` } : {}), 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+});
+
+const smsTo = (to: string) => sim.twilioApi.requests.filter((r) => r.path.endsWith('/Messages.json') && r.params.To === to);
+
+describe('POST /reservations/:id/decision', () => {
+  test('approves a pending reservation and texts the caller', async () => {
+    const id = await createReservation();
+    const reservation = sim.storage.tables.reservations.find((r) => r.id === id)!;
+
+    const res = await decide(id, { decision: 'approved', message: '窓側のお席をご用意します' });
+    assert.equal(res.status, 200);
+    const body = await res.json();
+    assert.deepEqual({ ...body, decided_at: undefined }, { ok: true, id, status: 'approved', decided_at: undefined, sms: 'sent' });
+
+    const row = sim.storage.tables.reservations.find((r) => r.id === id)!;
+    assert.equal(row.status, 'approved');
+    assert.equal(row.decision_message, '窓側のお席をご用意します');
+    assert.equal(row.decided_at, body.decided_at);
+
+    const [sms] = smsTo(reservation.customer_phone);
+    assert.equal(sms.params.From, STORE_NUMBER);
+    assert.match(sms.params.Body, /^【判定テスト店】ご予約が確定しました。\n受付番号: [0-9A-F]{8}\n日時: 2026-10-21 19:00\n人数: 2名\n\n窓側のお席をご用意します\n\nご来店をお待ちしております。$/);
+    assert.equal(row.sms_body_sent, sms.params.Body);
+
+    // Already decided
+    const again = await decide(id, { decision: 'rejected' });
+    assert.equal(again.status, 409);
+    assert.equal((await again.json()).status, 'approved');
+    assert.equal(smsTo(reservation.customer_phone).length, 1);
+  });
+
+  test('rejects unauthenticated, invalid and unknown requests', async () => {
+    const id = await createReservation();
+
+    assert.equal((await decide(id, { decision: 'approved' }, null)).status, 401);
+    assert.equal((await decide(id, { decision: 'approved' }, 'wrong-token')).status, 401);
+    assert.equal((await decide(id, { decision: 'maybe' })).status, 400);
+    assert.equal((await decide(id, { decision: 'approved', message: 'あ'.repeat(301) })).status, 400);
+    assert.equal((await decide('2f1c6b7e-0000-4000-8000-000000000000', { decision: 'approved' })).status, 404);
+
+    // Not a UUID: unknown as well, without querying (Postgres fails such a lookup with 22P02)
+    const { reservations } = sim.storage;
+    const findById = reservations.findById;
+    reservations.findById = async (reservationId) => {
+      if (!/^[0-9a-f-]{36}$/.test(reservationId)) throw Object.assign(new Error('invalid input syntax for type uuid'), { code: '22P02' });
+      return findById(reservationId);
+    };
+    try {
+      assert.equal((await decide('not-a-uuid', { decision: 'approved' })).status, 404);
+    } finally {
+      reservations.findById = findById;
+    }
+
+    // Another store's dashboard user
+    assert.equal((await decide(id, { decision: 'approved' }, OTHER_STORE_TOKEN)).status, 403);
+    assert.equal(sim.storage.tables.reservations.find((r) => r.id === id)?.status, 'pending');
+  });
+
+  test('a decision that loses the race to a concurrent one is refused', async () => {
+    const id = await createReservation();
+    const { reservations } = sim.storage;
+    const decideOnce = reservations.decide;
+    // Another dashboard tab rejects it between the lookup and the conditional update
+    reservations.decide = async (...args) => {
+      await decideOnce(id, 'rejected', null, new Date().toISOString());
+      return decideOnce(...args);
+    };
+    try {
+      const res = await decide(id, { decision: 'approved' });
+      assert.equal(res.status, 409);
+      assert.equal((await res.json()).error, 'Reservation was decided concurrently');
+    } finally {
+      reservations.decide = decideOnce;
+    }
+    assert.equal(sim.storage.tables.reservations.find((r) => r.id === id)?.status, 'rejected');
+  });
+
+  test('reports the decision SMS status', async () => {
+    const anonymous = await createReservation({ customer_phone: 'Unknown' });
+    assert.equal((await (await decide(anonymous, { decision: 'rejected' })).json()).sms, 'skipped');
+
+    const id = await createReservation();
+    sim.twilioApi.failMessages = true;
+    try {
+      const res = await decide(id, { decision: 'rejected' });
+      assert.equal(res.status, 200);
+      assert.equal((await res.json()).sms, 'failed');
+    } finally {
+      sim.twilioApi.failMessages = false;
+    }
+    const row = sim.storage.tables.reservations.find((r) => r.id === id);
+    assert.equal(row?.status, 'rejected');
+    assert.equal(row?.sms_sent_at, undefined);
+  });
+});
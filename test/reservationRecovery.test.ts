@@ -0,0 +1,162 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { addDays, jstNow } from '../src/jstDate';
+import { buildRecoverySchema, parseRecoveredReservation } from '../src/reservationRecovery';
+import { ReservationField } from '../src/types';
+import { Simulator, startSimulator, waitUntil } from './simulator';
+
+const USER_ID = 'user-recovery';
+const STORE_NUMBER = '+815000000005';
+const GREETING = 'お電話ありがとうございます。復元テスト店です。';
+const METRICS_TOKEN = 'simulator-metrics-token';
+
+const FIELDS: ReservationField[] = [
+  { field_key: 'customer_name', label: 'お名前', field_type: 'text', required: true, display_order: 1, enabled: true },
+  { field_key: 'party_size', label: '人数', field_type: 'number', required: true, display_order: 2, enabled: true },
+  { field_key: 'seat', label: '席', field_type: 'select', options: ['テーブル', 'カウンター'], required: false, display_order: 3, enabled: true },
+  { field_key: 'note', label: '備考', field_type: 'text', required: false, display_order: 4, enabled: false },
+];
+
+describe('reservation recovery extraction', () => {
+  test('the schema has one nullable answer per enabled field', () => {
+    const schema = buildRecoverySchema(FIELDS) as any;
+    assert.deepEqual(schema.properties.answers.required, ['customer_name', 'party_size', 'seat']);
+    assert.deepEqual(schema.properties.answers.properties.seat.enum, ['テーブル', 'カウンター', null]);
+  });
+
+  test('keeps the answers of enabled fields only', () => {
+    const parsed = parseRecoveredReservation(JSON.stringify({
+      reservation_requested: true,
+      confirmed: true,
+      evidence: ' はい、お願いします ',
+      answers: { customer_name: '山田太郎', party_size: 2, seat: null, note: '誕生日', unknown: 'x' },
+    }), FIELDS);
+    assert.deepEqual(parsed, {
+      requested: true,
+      confirmed: true,
+      evidence: 'はい、お願いします',
+      answers: { customer_name: '山田太郎', party_size: '2' },
+    });
+    assert.equal(parseRecoveredReservation('not json', FIELDS), null);
+  });
+});
+
+describe('reservation recovery after the call', () => {
+  let sim: Simulator;
+
+  before(async () => {
+    sim = await startSimulator({
+      seed: {
+        profiles: [{ id: USER_ID, phone_number: STORE_NUMBER, is_subscribed: true }],
+        prompts: {
+          [USER_ID]: { system_prompt: null, config_metadata: { greeting_message: GREETING } },
+        },
+      },
+      env: { METRICS_TOKEN },
+    });
+  });
+
+  after(async () => {
+    await sim?.close();
+  });
+
+  const callWithoutFinalize = async (callerNumber: string, callSid?: string) => {
+    const call = await sim.startCall({ userId: USER_ID, toPhoneNumber: STORE_NUMBER, fromPhoneNumber: callerNumber, callSid });
+    await sim.completeGreeting(call, GREETING);
+    sim.realtime.sendUserTranscript('明日の夜7時に2名で予約したいです。山田です。');
+    sim.realtime.sendAssistantAudio({ transcript: '山田様、明日19時に2名様ですね。この内容で店舗に送信してよろしいでしょうか？', audioMs: 300 });
+    sim.realtime.sendUserTranscript('はい、お願いします');
+    // Let the transcripts reach the session before the caller hangs up
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    call.twilio.stop();
+    return waitUntil(() => sim.storage.tables.callLogs.find((l) => l.call_sid === call.callSid), 'call log');
+  };
+
+  test('a confirmed request the model never submitted is saved for review', async () => {
+    sim.realtime.reservationRecovery = {
+      reservation_requested: true,
+      confirmed: true,
+      evidence: 'はい、お願いします',
+      answers: { customer_name: '山田', party_size: '2名', requested_date: '明日', requested_time: '夜7時' },
+    };
+    try {
+      const callLog = await callWithoutFinalize('+819012345673');
+      const reservation = await waitUntil(
+        () => sim.storage.tables.reservations.find((r) => r.call_sid === callLog.call_sid),
+        'recovered reservation',
+      );
+      assert.equal(reservation.source, 'phone_call_realtime_fallback');
+      assert.equal(reservation.needs_review, true);
+      assert.equal(reservation.status, 'pending');
+      assert.equal(reservation.call_log_id, callLog.id);
+      assert.equal(reservation.party_size, 2);
+      assert.equal(reservation.requested_date, addDays(jstNow().date, 1));
+      assert.equal(reservation.requested_time, '19:00');
+
+      const extraction = sim.realtime.completionRequests.find((r) => r.response_format?.json_schema?.name === 'reservation_recovery');
+      assert.match(extraction.messages[1].content, /はい、お願いします/);
+    } finally {
+      sim.realtime.reservationRecovery = { reservation_requested: false, confirmed: false, evidence: null, answers: {} };
+    }
+  });
+
+  test('nothing is saved when the caller did not agree or a required field is missing', async () => {
+    for (const extraction of [
+      { reservation_requested: true, confirmed: false, evidence: null, answers: { customer_name: '山田', party_size: '2' } },
+      { reservation_requested: true, confirmed: true, evidence: 'はい', answers: { customer_name: '山田', party_size: null } },
+    ]) {
+      sim.realtime.reservationRecovery = extraction;
+      const requestsBefore = sim.realtime.completionRequests.length;
+      const callLog = await callWithoutFinalize('+819012345674');
+      await waitUntil(
+        () => sim.realtime.completionRequests.slice(requestsBefore).some((r) => r.response_format?.json_schema?.name === 'reservation_recovery'),
+        'recovery extraction',
+      );
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      assert.equal(sim.storage.tables.reservations.some((r) => r.call_sid === callLog.call_sid), false);
+    }
+  });
+
+  test('a reservation already saved for the call is counted as a duplicate', async () => {
+    const recoveryCount = async (outcome: string) => {
+      const body = await (await fetch(`${sim.httpUrl}/metrics`, { headers: { Authorization: `Bearer ${METRICS_TOKEN}` } })).text();
+      const line = body.split('\n').find((l) => l.startsWith(`call_engine_reservation_recovery_total{outcome="${outcome}"} `));
+      return line === undefined ? 0 : Number(line.split(' ')[1]);
+    };
+    const duplicatesBefore = await recoveryCount('duplicate');
+
+    // finalize_reservation saved it while the recovery was reading the transcript
+    const callSid = 'CArecovery-duplicate';
+    await sim.storage.reservations.create({
+      user_id: USER_ID,
+      call_sid: callSid,
+      customer_phone: '+819012345675',
+      customer_name: '山田',
+      requested_date: null,
+      requested_time: null,
+      party_size: 2,
+      status: 'pending',
+      answers: {},
+      source: 'phone_call_realtime_tool',
+    });
+    sim.realtime.reservationRecovery = {
+      reservation_requested: true,
+      confirmed: true,
+      evidence: 'はい、お願いします',
+      answers: { customer_name: '山田', party_size: '2名', requested_date: '明日', requested_time: '夜7時' },
+    };
+    try {
+      const requestsBefore = sim.realtime.completionRequests.length;
+      await callWithoutFinalize('+819012345675', callSid);
+      await waitUntil(
+        () => sim.realtime.completionRequests.slice(requestsBefore).some((r) => r.response_format?.json_schema?.name === 'reservation_recovery'),
+        'recovery extraction',
+      );
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      assert.equal(await recoveryCount('duplicate'), duplicatesBefore + 1);
+    } finally {
+      sim.realtime.reservationRecovery = { reservation_requested: false, confirmed: false, evidence: null, answers: {} };
+    }
+    assert.equal(sim.storage.tables.reservations.filter((r) => r.call_sid === callSid).length, 1);
+  });
+});
@@ -0,0 +1,115 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SimulatedCall, Simulator, startSimulator, waitUntil } from './simulator';
+
+const USER_ID = 'user-sms';
+const STORE_NUMBER = '+815000000050';
+const GREETING = 'お電話ありがとうございます。SMSテスト店です。';
+
+let sim: Simulator;
+
+before(async () => {
+  sim = await startSimulator({
+    seed: {
+      profiles: [{ id: USER_ID, phone_number: STORE_NUMBER, is_subscribed: true }],
+      prompts: {
+        [USER_ID]: { system_prompt: null, config_metadata: { greeting_message: GREETING, store_name: 'SMSテスト店' } },
+      },
+    },
+    env: { ENABLE_RESERVATION_SMS: '1' },
+  });
+});
+
+after(async () => {
+  await sim?.close();
+});
+
+const ANSWERS = { customer_name: '山田太郎', party_size: 2, requested_date: '明日', requested_time: '19:00' };
+
+/** Read-back, consent and finalize_reservation; resolves with the tool output */
+async function finalizeReservation(call: SimulatedCall): Promise<Record<string, any>> {
+  await sim.completeGreeting(call, GREETING);
+  sim.realtime.sendUserTranscript('明日の19時に2名で、山田太郎です');
+  const confirmId = sim.realtime.sendFunctionCall('request_confirmation', { summary: '山田太郎様、明日19時に2名様ですね。', answers: ANSWERS });
+  await sim.realtime.waitForFunctionOutput(confirmId, call.realtimeFrom);
+  sim.realtime.sendAssistantAudio({ transcript: '山田太郎様、明日19時に2名様ですね。この内容で店舗に送信してよろしいでしょうか？', audioMs: 300 });
+  sim.realtime.sendUserTranscript('はい、お願いします');
+  await sim.realtime.received.waitFor(
+    (e) => e.type === 'response.create' && /finalize_reservation/.test(e.response?.instructions ?? ''),
+    { from: call.realtimeFrom, description: 'finalize prompt after consent' },
+  );
+  const finalizeId = sim.realtime.sendFunctionCall('finalize_reservation', { answers: ANSWERS, confirmed: true });
+  return sim.realtime.waitForFunctionOutput(finalizeId, call.realtimeFrom);
+}
+
+const messagesTo = (to: string) => sim.twilioApi.requests.filter((r) => r.path.endsWith('/Messages.json') && r.params.To === to);
+
+describe('reservation receipt SMS', () => {
+  test('texts one receipt per call and records it on the reservation', async () => {
+    const callerNumber = '+819012345650';
+    const call = await sim.startCall({ userId: USER_ID, toPhoneNumber: STORE_NUMBER, fromPhoneNumber: callerNumber });
+    const output = await finalizeReservation(call);
+    assert.equal(output.ok, true);
+
+    const sms = await sim.twilioApi.requests.waitFor((r) => r.path.endsWith('/Messages.json') && r.params.To === callerNumber, { description: 'receipt SMS' });
+    assert.equal(sms.params.From, STORE_NUMBER);
+    assert.match(sms.params.Body, /^【SMSテスト店】ご予約リクエストを受け付けました。\n受付番号: [0-9A-F]{8}\n/);
+    assert.match(sms.params.Body, /※まだ予約は確定していません。/);
+
+    const reservation = await waitUntil(
+      () => sim.storage.tables.reservations.find((r) => r.call_sid === call.callSid && r.sms_body_sent),
+      'sms_body_sent',
+    );
+    assert.equal(reservation.sms_body_sent, sms.params.Body);
+    assert.ok(reservation.sms_sent_at && !Number.isNaN(Date.parse(reservation.sms_sent_at)));
+
+    // A second finalize for the call (retried tool call) is deduped and sends nothing
+    const retryId = sim.realtime.sendFunctionCall('finalize_reservation', { answers: ANSWERS, confirmed: true });
+    assert.equal((await sim.realtime.waitForFunctionOutput(retryId, call.realtimeFrom)).deduped, true);
+
+    // Another process sending the receipt for the same call_sid loses the claim
+    const { sendReservationReceipt } = await import('../src/sms');
+    await sendReservationReceipt(sim.storage, { reservationId: reservation.id, callSid: call.callSid, to: callerNumber, from: STORE_NUMBER, answers: {} });
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    assert.equal(messagesTo(callerNumber).length, 1);
+    call.twilio.stop();
+  });
+
+  test('a failed send releases the claim so that the receipt can be sent again', async () => {
+    const callerNumber = '+819012345651';
+    sim.twilioApi.failMessages = true;
+    try {
+      const call = await sim.startCall({ userId: USER_ID, toPhoneNumber: STORE_NUMBER, fromPhoneNumber: callerNumber });
+      assert.equal((await finalizeReservation(call)).ok, true);
+      await sim.twilioApi.requests.waitFor((r) => r.path.endsWith('/Messages.json') && r.params.To === callerNumber, { description: 'failed receipt SMS' });
+
+      const reservation = await waitUntil(
+        () => sim.storage.tables.reservations.find((r) => r.call_sid === call.callSid && r.sms_sent_at === null),
+        'released sms_sent_at',
+      );
+      assert.equal(reservation.sms_body_sent, undefined);
+      call.twilio.stop();
+
+      sim.twilioApi.failMessages = false;
+      const { sendReservationReceipt } = await import('../src/sms');
+      await sendReservationReceipt(sim.storage, { reservationId: reservation.id, callSid: call.callSid, to: callerNumber, from: STORE_NUMBER, answers: {} });
+      assert.equal(messagesTo(callerNumber).length, 2);
+      assert.ok(sim.storage.tables.reservations.find((r) => r.call_sid === call.callSid)?.sms_sent_at);
+    } finally {
+      sim.twilioApi.failMessages = false;
+    }
+  });
+
+  test('web demo reservations send no SMS', async () => {
+    const messagesBefore = sim.twilioApi.requests.filter((r) => r.path.endsWith('/Messages.json')).length;
+    const call = await sim.startWebDemoCall(USER_ID);
+    assert.equal((await finalizeReservation(call)).ok, true);
+
+    await waitUntil(() => sim.storage.tables.reservations.find((r) => r.call_sid === call.callSid), 'web demo reservation');
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    assert.equal(sim.twilioApi.requests.filter((r) => r.path.endsWith('/Messages.json')).length, messagesBefore);
+    assert.equal(sim.storage.tables.reservations.find((r) => r.call_sid === call.callSid)?.sms_sent_at, undefined);
+    call.twilio.stop();
+    await waitUntil(() => sim.storage.tables.callLogs.find((l) => l.call_sid === call.callSid), 'web demo call log');
+  });
+});
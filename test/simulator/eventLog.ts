@@ -0,0 +1,61 @@
+import { EventEmitter } from 'events';
+
+const DEFAULT_WAIT_MS = 3000;
+
+/**
+ * Append-only list of received messages that tests can wait on.
+ */
+export class EventLog<T> {
+  readonly items: T[] = [];
+  private readonly emitter = new EventEmitter();
+
+  push(item: T): void {
+    this.items.push(item);
+    this.emitter.emit('item', item);
+  }
+
+  /** Call the listener for every item received from now on */
+  onItem(listener: (item: T) => void): void {
+    this.emitter.on('item', listener);
+  }
+
+  /** Items matching the predicate received so far */
+  filter(predicate: (item: T) => boolean): T[] {
+    return this.items.filter(predicate);
+  }
+
+  /**
+   * Resolve with the first item matching the predicate, starting at index `from`
+   * (use `items.length` as a cursor to only match items received after that point).
+   */
+  waitFor(predicate: (item: T) => boolean, options: { from?: number; timeoutMs?: number; description?: string } = {}): Promise<T> {
+    const existing = this.items.slice(options.from ?? 0).find(predicate);
+    if (existing) return Promise.resolve(existing);
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.emitter.off('item', onItem);
+        reject(new Error(`Timed out waiting for ${options.description ?? 'event'}`));
+      }, options.timeoutMs ?? DEFAULT_WAIT_MS);
+
+      const onItem = (item: T) => {
+        if (!predicate(item)) return;
+        clearTimeout(timer);
+        this.emitter.off('item', onItem);
+        resolve(item);
+      };
+      this.emitter.on('item', onItem);
+    });
+  }
+}
+
+/** Poll until the check returns a value (used for asynchronous DB writes) */
+export async function waitUntil<T>(check: () => T | undefined | null, description: string, timeoutMs = DEFAULT_WAIT_MS): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const value = check();
+    if (value) return value;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  throw new Error(`Timed out waiting for ${description}`);
+}
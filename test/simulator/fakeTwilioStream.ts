@@ -0,0 +1,153 @@
+import WebSocket from 'ws';
+import { EventLog } from './eventLog';
+
+const MULAW_BYTES_PER_MS = 8;
+/** Twilio sends 20 ms frames */
+const FRAME_MS = 20;
+
+/** Messages the engine sends to Twilio over the Media Stream */
+export interface TwilioOutboundMessage {
+  event: 'media' | 'mark' | 'clear';
+  streamSid: string;
+  media?: { payload: string };
+  mark?: { name: string };
+}
+
+export interface StreamStartParams {
+  callSid: string;
+  toPhoneNumber: string;
+  fromPhoneNumber: string;
+  userId: string;
+  streamToken: string;
+}
+
+/**
+ * Plays the Twilio side of a Media Stream against /twilio-media:
+ * sends start / media / mark / stop and records media, mark and clear messages from the engine.
+ */
+export class FakeTwilioStream {
+  readonly received = new EventLog<TwilioOutboundMessage>();
+  readonly streamSid: string;
+  /**
+   * Echo marks back immediately, as if playback finished instantly.
+   * Turn off to keep audio "playing" (e.g. to test barge-in), then call ackMarks().
+   */
+  autoAckMarks = true;
+
+  private socket?: WebSocket;
+  private pendingMarks: string[] = [];
+  private closed?: Promise<{ code: number; reason: string }>;
+  private sequenceNumber = 0;
+
+  constructor(private readonly url: string, streamSid = `MZ${Date.now()}${Math.floor(Math.random() * 1000)}`) {
+    this.streamSid = streamSid;
+  }
+
+  async connect(): Promise<void> {
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+    this.closed = new Promise((resolve) => {
+      socket.on('close', (code, reason) => resolve({ code, reason: reason.toString() }));
+    });
+    socket.on('message', (data) => this.handleMessage(JSON.parse(data.toString())));
+    await new Promise<void>((resolve, reject) => {
+      socket.once('open', () => resolve());
+      socket.once('error', reject);
+    });
+  }
+
+  start(params: StreamStartParams): void {
+    this.sendJson({
+      event: 'start',
+      sequenceNumber: String(++this.sequenceNumber),
+      streamSid: this.streamSid,
+      start: {
+        streamSid: this.streamSid,
+        callSid: params.callSid,
+        accountSid: 'ACsimulator',
+        tracks: ['inbound'],
+        mediaFormat: { encoding: 'audio/x-mulaw', sampleRate: 8000, channels: 1 },
+        customParameters: {
+          toPhoneNumber: params.toPhoneNumber,
+          fromPhoneNumber: params.fromPhoneNumber,
+          userId: params.userId,
+          streamToken: params.streamToken,
+        },
+      },
+    });
+  }
+
+  /** Send caller audio (µ-law silence) in 20 ms frames */
+  sendMedia(ms: number): void {
+    for (let sent = 0; sent < ms; sent += FRAME_MS) {
+      this.sendJson({
+        event: 'media',
+        sequenceNumber: String(++this.sequenceNumber),
+        streamSid: this.streamSid,
+        media: {
+          track: 'inbound',
+          chunk: String(this.sequenceNumber),
+          timestamp: String(sent),
+          payload: Buffer.alloc(FRAME_MS * MULAW_BYTES_PER_MS, 0xff).toString('base64'),
+        },
+      });
+    }
+  }
+
+  /** Marks held back while autoAckMarks is off (not yet "played") */
+  get pendingMarkCount(): number {
+    return this.pendingMarks.length;
+  }
+
+  /** Acknowledge held-back marks in order (all of them by default), i.e. play the audio up to that point */
+  ackMarks(count = this.pendingMarks.length): void {
+    const marks = this.pendingMarks.splice(0, count);
+    marks.forEach((name) => this.sendMark(name));
+  }
+
+  stop(): void {
+    this.sendJson({ event: 'stop', sequenceNumber: String(++this.sequenceNumber), streamSid: this.streamSid, stop: {} });
+  }
+
+  /** Resolves when the engine (or close()) closes the socket */
+  waitForClose(): Promise<{ code: number; reason: string }> {
+    if (!this.closed) throw new Error('Not connected');
+    return this.closed;
+  }
+
+  close(): void {
+    this.socket?.close();
+  }
+
+  /** Total ms of audio the engine sent to the caller */
+  get receivedAudioMs(): number {
+    return this.received
+      .filter((m) => m.event === 'media')
+      .reduce((total, m) => total + Buffer.from(m.media!.payload, 'base64').length / MULAW_BYTES_PER_MS, 0);
+  }
+
+  private handleMessage(message: TwilioOutboundMessage): void {
+    this.received.push(message);
+    if (message.event === 'mark' && message.mark) {
+      if (this.autoAckMarks) {
+        this.sendMark(message.mark.name);
+      } else {
+        this.pendingMarks.push(message.mark.name);
+      }
+    }
+    if (message.event === 'clear') {
+      // Twilio drops buffered audio and returns the pending marks right away
+      this.ackMarks();
+    }
+  }
+
+  private sendMark(name: string): void {
+    this.sendJson({ event: 'mark', sequenceNumber: String(++this.sequenceNumber), streamSid: this.streamSid, mark: { name } });
+  }
+
+  private sendJson(message: unknown): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+}
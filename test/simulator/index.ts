@@ -0,0 +1,212 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import type { MemoryStorage, MemoryStorageSeed } from '../../src/storage';
+import { FakeTwilioStream } from './fakeTwilioStream';
+import { MockRealtimeServer } from './mockRealtimeServer';
+import { MockSmtpServer } from './mockSmtpServer';
+import { MockTwilioApi } from './mockTwilioApi';
+
+export { EventLog, waitUntil } from './eventLog';
+export { FakeTwilioStream } from './fakeTwilioStream';
+export { MockRealtimeServer } from './mockRealtimeServer';
+export { MockSmtpServer, ReceivedMail } from './mockSmtpServer';
+export { MockTwilioApi, TwilioApiRequest } from './mockTwilioApi';
+
+export interface Simulator {
+  realtime: MockRealtimeServer;
+  /** Twilio REST API (hang up, voicemail redirect, SMS) */
+  twilioApi: MockTwilioApi;
+  /** SMTP server receiving the store notification emails */
+  smtp: MockSmtpServer;
+  /** The in-memory storage the engine writes to */
+  storage: MemoryStorage;
+  /** http://127.0.0.1:<port> of the engine (HTTP endpoints) */
+  httpUrl: string;
+  /** Open a Media Stream to /twilio-media without sending `start` */
+  connectTwilio(): Promise<FakeTwilioStream>;
+  /** Open a Media Stream for a new call and send `start` (with a valid stream token) */
+  startCall(params: SimulatedCallParams): Promise<SimulatedCall>;
+  /** Open a web demo session (/web-demo-media, with a valid web demo token) and send `start` */
+  startWebDemoCall(userId: string): Promise<SimulatedCall>;
+  /** POST form params to a Twilio webhook with a valid X-Twilio-Signature (`path` may include a query string) */
+  postTwilioWebhook(path: string, params: Record<string, string>): Promise<Response>;
+  /** Answer the greeting request and play it to the end, so that the call enters the normal phase */
+  completeGreeting(call: SimulatedCall, greeting: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface SimulatedCallParams {
+  userId: string;
+  toPhoneNumber: string;
+  fromPhoneNumber: string;
+  callSid?: string;
+}
+
+export interface SimulatedCall {
+  twilio: FakeTwilioStream;
+  callSid: string;
+  /** Index of the first realtime event of this call (cursor for MockRealtimeServer.received.waitFor) */
+  realtimeFrom: number;
+}
+
+export interface SimulatorOptions {
+  seed?: MemoryStorageSeed;
+  /** Extra environment variables (read by src/config.ts) */
+  env?: Record<string, string>;
+}
+
+/**
+ * Boot the engine in-process against the mock OpenAI / Twilio REST / SMTP servers and in-memory storage.
+ * src/ is imported only after the environment is prepared, because config is read at import time:
+ * call this once per test file (each node --test file runs in its own process).
+ */
+export async function startSimulator(options: SimulatorOptions = {}): Promise<Simulator> {
+  // The engine logs every event to stdout, which node --test uses for reporting (SIMULATOR_VERBOSE=1 to keep it)
+  if (process.env.SIMULATOR_VERBOSE !== '1') {
+    console.log = console.info = console.debug = () => {};
+  }
+
+  const realtime = new MockRealtimeServer();
+  await realtime.start();
+  const twilioApi = new MockTwilioApi();
+  await twilioApi.start();
+  const smtp = new MockSmtpServer();
+  await smtp.start();
+
+  const logDir = fs.mkdtempSync(path.join(os.tmpdir(), 'call-simulator-'));
+  // Sessions keep writing NDJSON logs while they wind down, so remove the directory only on exit
+  process.on('exit', () => fs.rmSync(logDir, { recursive: true, force: true }));
+  Object.assign(process.env, {
+    PUBLIC_URL: 'http://127.0.0.1',
+    WEB_APP_URL: 'http://127.0.0.1:3000',
+    OPENAI_API_KEY: 'sk-simulator',
+    OPENAI_REALTIME_URL: realtime.realtimeUrl,
+    OPENAI_BASE_URL: realtime.baseUrl,
+    STORAGE_BACKEND: 'memory',
+    TWILIO_AUTH_TOKEN: 'simulator-auth-token',
+    TWILIO_ACCOUNT_SID: 'ACsimulator',
+    TWILIO_API_BASE_URL: twilioApi.baseUrl,
+    WEB_DEMO_SHARED_SECRET: 'simulator-web-demo-secret',
+    SMTP_HOST: '127.0.0.1',
+    SMTP_PORT: String(smtp.port),
+    LOG_DIR: logDir,
+    ENABLE_RESERVATION_SMS: '0',
+    ...options.env,
+  });
+
+  let engine;
+  try {
+    engine = {
+      ...(await import('../../src/server')),
+      ...(await import('../../src/storage')),
+      ...(await import('../../src/twilioAuth')),
+      ...(await import('../../src/webDemoAuth')),
+    };
+  } catch (err) {
+    await realtime.stop();
+    await twilioApi.stop();
+    await smtp.stop();
+    throw err;
+  }
+  const { server, wss, webDemoWss, monitorWss, storage, generateStreamToken, generateWebDemoToken } = engine;
+
+  const memoryStorage = storage as MemoryStorage;
+  Object.assign(memoryStorage.tables, JSON.parse(JSON.stringify(options.seed ?? {})));
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  const twilioStreams: FakeTwilioStream[] = [];
+  const callStreams = new Map<string, FakeTwilioStream>();
+  let callSeq = 0;
+
+  // Like Twilio, end the Media Stream once the call was hung up or redirected to other TwiML
+  twilioApi.requests.onItem((request) => {
+    const callSid = request.path.match(/\/Calls\/([^/]+)\.json$/)?.[1];
+    const twilio = callSid ? callStreams.get(callSid) : undefined;
+    if (twilio && (request.params.Status === 'completed' || request.params.Twiml)) {
+      twilio.stop();
+      twilio.close();
+    }
+  });
+
+  const connectTwilio = async () => {
+    const twilio = new FakeTwilioStream(`ws://127.0.0.1:${port}/twilio-media`);
+    twilioStreams.push(twilio);
+    await twilio.connect();
+    return twilio;
+  };
+
+  return {
+    realtime,
+    twilioApi,
+    smtp,
+    storage: memoryStorage,
+    httpUrl: `http://127.0.0.1:${port}`,
+    connectTwilio,
+
+    async startCall(params) {
+      const callSid = params.callSid ?? `CAsimulator${++callSeq}`;
+      const twilio = await connectTwilio();
+      callStreams.set(callSid, twilio);
+
+      const realtimeFrom = realtime.received.items.length;
+      twilio.start({
+        callSid,
+        toPhoneNumber: params.toPhoneNumber,
+        fromPhoneNumber: params.fromPhoneNumber,
+        userId: params.userId,
+        streamToken: generateStreamToken({ ...params, callSid }),
+      });
+      return { twilio, callSid, realtimeFrom };
+    },
+
+    postTwilioWebhook(path, params) {
+      // Twilio signs the public URL followed by every param name and value, sorted by name
+      const signed = Object.keys(params).sort().reduce((data, key) => data + key + params[key], new URL(path, process.env.PUBLIC_URL).toString());
+      return fetch(`http://127.0.0.1:${port}${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'X-Twilio-Signature': crypto.createHmac('sha1', process.env.TWILIO_AUTH_TOKEN ?? '').update(signed).digest('base64'),
+        },
+        body: new URLSearchParams(params).toString(),
+      });
+    },
+
+    async startWebDemoCall(userId) {
+      const callSid = `CAwebdemo${++callSeq}`;
+      const twilio = new FakeTwilioStream(`ws://127.0.0.1:${port}/web-demo-media?token=${generateWebDemoToken(userId)}`);
+      twilioStreams.push(twilio);
+      await twilio.connect();
+
+      const realtimeFrom = realtime.received.items.length;
+      // The session takes the user from the token and has no phone numbers
+      twilio.start({ callSid, toPhoneNumber: '', fromPhoneNumber: '', userId: '', streamToken: '' });
+      return { twilio, callSid, realtimeFrom };
+    },
+
+    async completeGreeting(call, greeting) {
+      await realtime.received.waitFor((e) => e.type === 'response.create', { from: call.realtimeFrom, description: 'greeting response.create' });
+      realtime.sendAssistantAudio({ transcript: greeting, audioMs: 600 });
+      await realtime.received.waitFor(
+        (e) => e.type === 'session.update' && e.session.turn_detection.create_response === true,
+        { from: call.realtimeFrom, description: 'normal phase session.update' },
+      );
+    },
+
+    async close() {
+      twilioStreams.forEach((twilio) => twilio.close());
+      wss.clients.forEach((client) => client.terminate());
+      webDemoWss.clients.forEach((client) => client.terminate());
+      monitorWss.clients.forEach((client) => client.terminate());
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      await realtime.stop();
+      await twilioApi.stop();
+      await smtp.stop();
+    },
+  };
+}
@@ -0,0 +1,262 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { EventLog } from './eventLog';
+
+/** µ-law silence, 8 bytes per millisecond (8 kHz) */
+const MULAW_BYTES_PER_MS = 8;
+const MULAW_SILENCE = 0xff;
+
+export interface RealtimeClientEvent {
+  type: string;
+  [key: string]: any;
+}
+
+export interface AssistantAudioOptions {
+  /** Spoken text reported in response.done (assistant transcript) */
+  transcript: string;
+  /** Total audio length in ms */
+  audioMs: number;
+  /** Size of each response.audio.delta in ms */
+  chunkMs?: number;
+  /** Send response.done after the audio (default true) */
+  done?: boolean;
+}
+
+/**
+ * Stand-in for the OpenAI APIs used by a call:
+ * - WebSocket /v1/realtime: records client events and emits scripted server events
+ * - POST /v1/chat/completions: returns `consentClassification` (consent reply classification), `reservationRecovery`
+ *   (post-call reservation extraction) or `callSummary` (structured call summary)
+ * - POST /v1/audio/speech: returns silent 24kHz PCM (reconnect filler)
+ */
+export class MockRealtimeServer {
+  /** Events sent by the engine (session.update, response.create, conversation.item.create, ...) */
+  readonly received = new EventLog<RealtimeClientEvent>();
+  /** Bodies of chat completion requests */
+  readonly completionRequests: any[] = [];
+  /** Structured summary returned for the call summary request */
+  callSummary: Record<string, unknown> = {
+    headline: '明日19時2名来店希望',
+    category: '予約',
+    sentiment: 'positive',
+    urgency: 'medium',
+    follow_up_action: 'confirm_reservation',
+    follow_up_note: '予約リクエストの承認が必要',
+    notes: ['明日19時・2名で予約確定が必要'],
+    entities: { customer_name: '山田太郎', visit_date: '明日', visit_time: '19時', party_size: 2, callback_number: null, topic: null },
+  };
+  /** Extraction returned for the post-call reservation recovery (default: no reservation in the call) */
+  reservationRecovery: Record<string, unknown> = { reservation_requested: false, confirmed: false, evidence: null, answers: {} };
+  /** Classification returned for the caller's reply to request_confirmation */
+  consentClassification: { intent: string; corrections: { field: string; value: string }[] } = { intent: 'confirm', corrections: [] };
+  /** Number of upcoming WebSocket connections to reject (simulates an outage) */
+  refuseConnections = 0;
+  /** Number of upcoming WebSocket connections to accept at TCP level but never upgrade (simulates a hung endpoint) */
+  stallConnections = 0;
+  /** Number of accepted WebSocket connections */
+  connectionCount = 0;
+  /** ?model= of each accepted connection */
+  readonly connectionModels: (string | null)[] = [];
+
+  private readonly httpServer: http.Server;
+  private readonly wss: WebSocketServer;
+  private socket?: WebSocket;
+  private seq = 0;
+
+  constructor() {
+    this.httpServer = http.createServer((req, res) => this.handleHttp(req, res));
+    this.wss = new WebSocketServer({
+      server: this.httpServer,
+      path: '/v1/realtime',
+      verifyClient: (info, callback) => {
+        if (this.stallConnections > 0) {
+          this.stallConnections--;
+          // Never answer the upgrade; drop the socket once the client gives up
+          info.req.socket.once('end', () => info.req.socket.destroy());
+          return;
+        }
+        if (this.refuseConnections > 0) {
+          this.refuseConnections--;
+          callback(false, 503, 'Service Unavailable');
+          return;
+        }
+        callback(true);
+      },
+    });
+    this.wss.on('connection', (socket, req) => {
+      this.socket = socket;
+      this.connectionCount++;
+      this.connectionModels.push(new URL(req.url ?? '', 'http://localhost').searchParams.get('model'));
+      socket.on('message', (data) => this.handleClientEvent(JSON.parse(data.toString())));
+    });
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) => this.httpServer.listen(0, '127.0.0.1', resolve));
+  }
+
+  async stop(): Promise<void> {
+    this.wss.clients.forEach((client) => client.terminate());
+    await new Promise<void>((resolve) => this.wss.close(() => resolve()));
+    await new Promise<void>((resolve) => this.httpServer.close(() => resolve()));
+  }
+
+  private get origin(): string {
+    const { port } = this.httpServer.address() as AddressInfo;
+    return `127.0.0.1:${port}`;
+  }
+
+  /** OPENAI_REALTIME_URL */
+  get realtimeUrl(): string {
+    return `ws://${this.origin}/v1/realtime`;
+  }
+
+  /** OPENAI_BASE_URL */
+  get baseUrl(): string {
+    return `http://${this.origin}/v1`;
+  }
+
+  send(event: RealtimeClientEvent): void {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+      throw new Error('No realtime session is connected');
+    }
+    this.socket.send(JSON.stringify({ event_id: this.nextId('event'), ...event }));
+  }
+
+  /**
+   * Stream an assistant audio response: output_item.added, audio deltas and (optionally) response.done.
+   * Returns the assistant item id (target of conversation.item.truncate).
+   */
+  sendAssistantAudio(options: AssistantAudioOptions): string {
+    const responseId = this.nextId('resp');
+    const itemId = this.nextId('item');
+    const chunkMs = options.chunkMs ?? 100;
+
+    this.send({ type: 'response.created', response: { id: responseId, status: 'in_progress' } });
+    this.send({
+      type: 'response.output_item.added',
+      response_id: responseId,
+      item: { id: itemId, type: 'message', role: 'assistant', content: [] },
+    });
+    for (let sent = 0; sent < options.audioMs; sent += chunkMs) {
+      const ms = Math.min(chunkMs, options.audioMs - sent);
+      this.send({
+        type: 'response.audio.delta',
+        response_id: responseId,
+        item_id: itemId,
+        delta: Buffer.alloc(ms * MULAW_BYTES_PER_MS, MULAW_SILENCE).toString('base64'),
+      });
+    }
+    if (options.done !== false) {
+      this.send({
+        type: 'response.done',
+        response: {
+          id: responseId,
+          status: 'completed',
+          output: [{
+            id: itemId,
+            type: 'message',
+            role: 'assistant',
+            content: [{ type: 'audio', transcript: options.transcript }],
+          }],
+        },
+      });
+    }
+    return itemId;
+  }
+
+  /** Drop the current realtime connection (as if the network or the API failed) */
+  dropConnection(): void {
+    this.socket?.terminate();
+    this.socket = undefined;
+  }
+
+  /** response.done carrying a single function call. Returns the call_id. */
+  sendFunctionCall(name: string, args: Record<string, unknown>): string {
+    const callId = this.nextId('call');
+    this.send({
+      type: 'response.done',
+      response: {
+        id: this.nextId('resp'),
+        status: 'completed',
+        output: [{ id: this.nextId('item'), type: 'function_call', name, call_id: callId, arguments: JSON.stringify(args) }],
+      },
+    });
+    return callId;
+  }
+
+  /** Final transcription of a caller utterance */
+  sendUserTranscript(text: string): void {
+    this.send({
+      type: 'conversation.item.input_audio_transcription.completed',
+      item_id: this.nextId('item'),
+      content_index: 0,
+      transcript: text,
+    });
+  }
+
+  sendSpeechStarted(): void {
+    this.send({ type: 'input_audio_buffer.speech_started', audio_start_ms: 0, item_id: this.nextId('item') });
+  }
+
+  sendSpeechStopped(): void {
+    this.send({ type: 'input_audio_buffer.speech_stopped', audio_end_ms: 0, item_id: this.nextId('item') });
+  }
+
+  /** function_call_output sent back by the engine for a call_id (parsed output) */
+  async waitForFunctionOutput(callId: string, from?: number): Promise<Record<string, any>> {
+    const event = await this.received.waitFor(
+      (e) => e.type === 'conversation.item.create' && e.item?.type === 'function_call_output' && e.item.call_id === callId,
+      { from, description: `function_call_output for ${callId}` },
+    );
+    return JSON.parse(event.item.output);
+  }
+
+  private handleClientEvent(event: RealtimeClientEvent): void {
+    this.received.push(event);
+    // The real API acknowledges every session.update
+    if (event.type === 'session.update') {
+      this.send({ type: 'session.updated', session: event.session });
+    }
+  }
+
+  private handleHttp(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => {
+      if (req.method === 'POST' && req.url === '/v1/chat/completions') {
+        const request = JSON.parse(body || '{}');
+        this.completionRequests.push(request);
+        const schemaName = request.response_format?.json_schema?.name;
+        const content = JSON.stringify(
+          schemaName === 'consent_classification' ? this.consentClassification
+            : schemaName === 'reservation_recovery' ? this.reservationRecovery
+              : this.callSummary,
+        );
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+          id: this.nextId('chatcmpl'),
+          object: 'chat.completion',
+          created: Math.floor(Date.now() / 1000),
+          model: request.model,
+          choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+        }));
+        return;
+      }
+      if (req.method === 'POST' && req.url === '/v1/audio/speech') {
+        // 0.5s of 16-bit silence at 24kHz
+        res.writeHead(200, { 'Content-Type': 'audio/pcm' });
+        res.end(Buffer.alloc(24000));
+        return;
+      }
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { message: `Not mocked: ${req.method} ${req.url}` } }));
+    });
+  }
+
+  private nextId(prefix: string): string {
+    this.seq++;
+    return `${prefix}_${this.seq}`;
+  }
+}
@@ -0,0 +1,128 @@
+import net from 'net';
+import { AddressInfo } from 'net';
+import { EventLog } from './eventLog';
+
+export interface ReceivedMail {
+  from: string;
+  to: string[];
+  /** Decoded Subject header */
+  subject: string;
+  /** Decoded text body */
+  text: string;
+}
+
+/** quoted-printable (body) / Q-encoding (headers, where "_" is a space) -> UTF-8 */
+const decodeQuotedPrintable = (value: string, underscoreIsSpace = false): string => {
+  const bytes: number[] = [];
+  const input = value.replace(/=\r?\n/g, '');
+  for (let i = 0; i < input.length; i++) {
+    if (input[i] === '=' && /^[0-9A-F]{2}$/i.test(input.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(input.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else if (underscoreIsSpace && input[i] === '_') {
+      bytes.push(0x20);
+    } else {
+      bytes.push(...Buffer.from(input[i]));
+    }
+  }
+  return Buffer.from(bytes).toString('utf-8');
+};
+
+/** RFC 2047 encoded words (=?UTF-8?B?...?=), adjacent words joined without the whitespace between them */
+const decodeHeader = (value: string): string => value
+  .replace(/\?=\s+=\?/g, '?==?')
+  .replace(/=\?utf-8\?([BQ])\?([^?]*)\?=/gi, (_, encoding: string, text: string) => (
+    encoding.toUpperCase() === 'B' ? Buffer.from(text, 'base64').toString('utf-8') : decodeQuotedPrintable(text, true)
+  ));
+
+const parseMessage = (data: string): { subject: string; text: string } => {
+  const separator = data.indexOf('\r\n\r\n');
+  const headers = new Map<string, string>();
+  for (const line of data.slice(0, separator).replace(/\r\n[ \t]+/g, ' ').split('\r\n')) {
+    const colon = line.indexOf(':');
+    headers.set(line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim());
+  }
+  const body = data.slice(separator + 4);
+  const encoding = headers.get('content-transfer-encoding')?.toLowerCase();
+  const text = encoding === 'base64' ? Buffer.from(body.replace(/\s+/g, ''), 'base64').toString('utf-8')
+    : encoding === 'quoted-printable' ? decodeQuotedPrintable(body)
+      : body;
+  return { subject: decodeHeader(headers.get('subject') ?? ''), text: text.replace(/\r\n/g, '\n').trimEnd() };
+};
+
+/**
+ * Minimal SMTP server for the notification emails (SMTP_HOST / SMTP_PORT): plain text, no AUTH or STARTTLS.
+ */
+export class MockSmtpServer {
+  /** Mails the engine sent */
+  readonly mails = new EventLog<ReceivedMail>();
+
+  private readonly server = net.createServer((socket) => this.handleConnection(socket));
+  private readonly sockets = new Set<net.Socket>();
+
+  get port(): number {
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+  }
+
+  async stop(): Promise<void> {
+    this.sockets.forEach((socket) => socket.destroy());
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  private handleConnection(socket: net.Socket) {
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+    socket.setEncoding('utf-8');
+
+    let buffer = '';
+    let envelope: { from: string; to: string[] } = { from: '', to: [] };
+    let readingData = false;
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      while (buffer) {
+        if (readingData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) return;
+          // Undo dot-stuffing
+          const data = buffer.slice(0, end).replace(/^\.\./gm, '.');
+          buffer = buffer.slice(end + 5);
+          readingData = false;
+          this.mails.push({ ...envelope, ...parseMessage(data) });
+          envelope = { from: '', to: [] };
+          reply('250 OK: queued');
+          continue;
+        }
+
+        const newline = buffer.indexOf('\r\n');
+        if (newline === -1) return;
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        const command = line.slice(0, 4).toUpperCase();
+        if (command === 'EHLO' || command === 'HELO') {
+          reply('250 simulator');
+        } else if (command === 'MAIL') {
+          envelope.from = line.match(/<([^>]*)>/)?.[1] ?? '';
+          reply('250 OK');
+        } else if (command === 'RCPT') {
+          envelope.to.push(line.match(/<([^>]*)>/)?.[1] ?? '');
+          reply('250 OK');
+        } else if (command === 'DATA') {
+          readingData = true;
+          reply('354 End data with <CR><LF>.<CR><LF>');
+        } else if (command === 'QUIT') {
+          reply('221 Bye');
+          socket.end();
+        } else {
+          reply('250 OK');
+        }
+      }
+    });
+    reply('220 simulator ESMTP');
+  }
+}
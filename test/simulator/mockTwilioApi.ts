@@ -0,0 +1,75 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { EventLog } from './eventLog';
+
+export interface TwilioApiRequest {
+  method: string;
+  /** e.g. /2010-04-01/Accounts/ACsimulator/Calls/CAsimulator1.json */
+  path: string;
+  /** Form parameters of the request body (Twiml, Status, To, Body, ...) */
+  params: Record<string, string>;
+}
+
+/**
+ * Stand-in for the Twilio REST API (TWILIO_API_BASE_URL):
+ * - POST .../Calls/{CallSid}.json: live call updates (hang up, redirect to voicemail / staff)
+ * - POST .../Messages.json: SMS
+ */
+export class MockTwilioApi {
+  /** Requests made by the engine */
+  readonly requests = new EventLog<TwilioApiRequest>();
+  /** Reject SMS with a Twilio error (e.g. to test a failed receipt) */
+  failMessages = false;
+
+  private readonly httpServer = http.createServer((req, res) => this.handleHttp(req, res));
+  private seq = 0;
+
+  get baseUrl(): string {
+    const { port } = this.httpServer.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) => this.httpServer.listen(0, '127.0.0.1', resolve));
+  }
+
+  async stop(): Promise<void> {
+    this.httpServer.closeAllConnections();
+    await new Promise<void>((resolve) => this.httpServer.close(() => resolve()));
+  }
+
+  /** Requests that updated the given call */
+  callUpdates(callSid: string): TwilioApiRequest[] {
+    return this.requests.filter((r) => r.path.endsWith(`/Calls/${callSid}.json`));
+  }
+
+  private handleHttp(req: http.IncomingMessage, res: http.ServerResponse) {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => {
+      const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+      const params = Object.fromEntries(new URLSearchParams(body));
+      this.requests.push({ method: req.method ?? 'GET', path, params });
+
+      const call = path.match(/\/Calls\/([^/]+)\.json$/);
+      if (req.method === 'POST' && call) {
+        this.sendJson(res, 200, { sid: call[1], status: params.Status ?? 'in-progress' });
+        return;
+      }
+      if (req.method === 'POST' && path.endsWith('/Messages.json') && this.failMessages) {
+        this.sendJson(res, 400, { code: 21610, message: 'Attempt to send to unsubscribed recipient', status: 400 });
+        return;
+      }
+      if (req.method === 'POST' && path.endsWith('/Messages.json')) {
+        this.sendJson(res, 201, { sid: `SMsimulator${++this.seq}`, to: params.To, status: 'queued' });
+        return;
+      }
+      this.sendJson(res, 404, { code: 20404, message: 'The requested resource was not found', status: 404 });
+    });
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,97 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Simulator, startSimulator, waitUntil } from './simulator';
+
+const USER_ID = 'user-message';
+const STORE_NUMBER = '+815000000040';
+const CALLER_NUMBER = '+819012345640';
+const STORE_EMAIL = 'store@example.com';
+const GREETING = 'お電話ありがとうございます。伝言テスト店です。';
+
+let sim: Simulator;
+
+before(async () => {
+  sim = await startSimulator({
+    seed: {
+      profiles: [{ id: USER_ID, phone_number: STORE_NUMBER, is_subscribed: true }],
+      prompts: {
+        [USER_ID]: { system_prompt: null, config_metadata: { greeting_message: GREETING } },
+      },
+      notificationSettings: [{ user_id: USER_ID, notify_email_enabled: true, notify_emails: [STORE_EMAIL] }],
+    },
+  });
+});
+
+after(async () => {
+  await sim?.close();
+});
+
+describe('take_message', () => {
+  test('records one callback request per call, notifies the store and flags the call log', async () => {
+    const call = await sim.startCall({ userId: USER_ID, toPhoneNumber: STORE_NUMBER, fromPhoneNumber: CALLER_NUMBER });
+    await sim.completeGreeting(call, GREETING);
+    sim.realtime.sendUserTranscript('貸切の相談をしたいので、折り返しお願いできますか。佐藤です。');
+
+    const args = { caller_name: '佐藤', topic: '貸切の相談', category: 'inquiry' };
+    const firstId = sim.realtime.sendFunctionCall('take_message', args);
+    const first = await sim.realtime.waitForFunctionOutput(firstId, call.realtimeFrom);
+    assert.equal(first.ok, true);
+    assert.equal(first.deduped, false);
+
+    // The model calls it again: the message is not recorded twice
+    const secondId = sim.realtime.sendFunctionCall('take_message', { ...args, topic: '貸切の相談（再）' });
+    assert.deepEqual(await sim.realtime.waitForFunctionOutput(secondId, call.realtimeFrom), { ok: true, deduped: true });
+
+    const requests = sim.storage.tables.callbackRequests.filter((r) => r.call_sid === call.callSid);
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0].id, first.callback_request_id);
+    assert.equal(requests[0].user_id, USER_ID);
+    assert.equal(requests[0].caller_name, '佐藤');
+    // No number was spoken: the caller ID is used
+    assert.equal(requests[0].callback_number, CALLER_NUMBER);
+    assert.equal(requests[0].topic, '貸切の相談');
+    assert.equal(requests[0].category, 'inquiry');
+    assert.equal(requests[0].status, 'pending');
+
+    // Callback template, not the reservation one
+    const mail = await sim.smtp.mails.waitFor((m) => m.to.includes(STORE_EMAIL), { description: 'callback notification email' });
+    assert.equal(mail.subject, '【AiLuna】折り返しのご依頼がありました');
+    assert.match(mail.text, /^【折り返し依頼】/);
+    assert.match(mail.text, /お名前: 佐藤\n折り返し先: \+819012345640\n用件: 貸切の相談\n区分: 問い合わせ/);
+    assert.doesNotMatch(mail.text, /予約リクエスト/);
+    assert.equal(sim.smtp.mails.items.length, 1);
+
+    call.twilio.stop();
+    const callLog = await waitUntil(() => sim.storage.tables.callLogs.find((l) => l.call_sid === call.callSid), 'call log');
+    assert.equal(callLog.needs_callback, true);
+    await waitUntil(
+      () => sim.storage.tables.callbackRequests.find((r) => r.call_sid === call.callSid && r.call_log_id === callLog.id),
+      'callback request linked to the call log',
+    );
+  });
+
+  test('/voicemail/complete stores the recording on the call log', async () => {
+    const callSid = 'CAvoicemail';
+    await sim.storage.callLogs.create({
+      user_id: USER_ID,
+      call_sid: callSid,
+      caller_number: CALLER_NUMBER,
+      recipient_number: STORE_NUMBER,
+      transcript: [],
+      summary: '要約なし',
+      status: 'completed',
+      duration_seconds: 30,
+      created_at: new Date().toISOString(),
+    });
+
+    // Nothing was recorded (caller hung up at the beep)
+    const empty = await sim.postTwilioWebhook('/voicemail/complete', { CallSid: callSid, RecordingUrl: 'https://api.twilio.com/empty', RecordingDuration: '0' });
+    assert.equal(empty.status, 200);
+    assert.equal(sim.storage.tables.callLogs.find((l) => l.call_sid === callSid)?.voicemail_recording_url ?? null, null);
+
+    const recordingUrl = 'https://api.twilio.com/2010-04-01/Accounts/ACsimulator/Recordings/REsimulator';
+    const res = await sim.postTwilioWebhook('/voicemail/complete', { CallSid: callSid, RecordingUrl: recordingUrl, RecordingDuration: '12' });
+    assert.match(await res.text(), /<Say language="ja-JP">メッセージを承りました。担当者より折り返しご連絡いたします。<\/Say>\s*<Hangup\/>/);
+    assert.equal(sim.storage.tables.callLogs.find((l) => l.call_sid === callSid)?.voicemail_recording_url, recordingUrl);
+  });
+});
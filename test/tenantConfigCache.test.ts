@@ -0,0 +1,74 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Simulator, startSimulator } from './simulator';
+
+const USER_ID = 'user-cache';
+const STORE_NUMBER = '+815000000001';
+const CALLER_NUMBER = '+819012345670';
+const ADMIN_TOKEN = 'simulator-admin-token';
+
+let sim: Simulator;
+let promptLoads = 0;
+
+before(async () => {
+  sim = await startSimulator({
+    seed: {
+      profiles: [{ id: USER_ID, phone_number: STORE_NUMBER, is_subscribed: true }],
+      prompts: {
+        [USER_ID]: { system_prompt: null, config_metadata: { greeting_message: '最初の挨拶です。' } },
+      },
+    },
+    env: { ADMIN_API_TOKEN: ADMIN_TOKEN },
+  });
+
+  // Count the database reads behind the cache
+  const getPromptSettings = sim.storage.tenantConfig.getPromptSettings.bind(sim.storage.tenantConfig);
+  sim.storage.tenantConfig.getPromptSettings = (userId) => {
+    promptLoads++;
+    return getPromptSettings(userId);
+  };
+});
+
+after(async () => {
+  await sim?.close();
+});
+
+/** Start a call and return the greeting the session asked the model to say */
+async function greetingOfNewCall(): Promise<string> {
+  const call = await sim.startCall({ userId: USER_ID, toPhoneNumber: STORE_NUMBER, fromPhoneNumber: CALLER_NUMBER });
+  const greeting = await sim.realtime.received.waitFor(
+    (e) => e.type === 'response.create',
+    { from: call.realtimeFrom, description: 'greeting response.create' },
+  );
+  call.twilio.stop();
+  return greeting.response.instructions;
+}
+
+const invalidate = (body: object, token = ADMIN_TOKEN) => fetch(`${sim.httpUrl}/admin/tenant-config/invalidate`, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+  body: JSON.stringify(body),
+});
+
+describe('tenant config cache', () => {
+  test('calls reuse the cached config until it is invalidated', async () => {
+    assert.match(await greetingOfNewCall(), /最初の挨拶です。/);
+    assert.match(await greetingOfNewCall(), /最初の挨拶です。/);
+    assert.equal(promptLoads, 1);
+
+    // Changed from the dashboard: still cached until invalidated
+    sim.storage.tables.prompts[USER_ID].config_metadata = { greeting_message: '新しい挨拶です。' };
+    assert.match(await greetingOfNewCall(), /最初の挨拶です。/);
+
+    const rejected = await invalidate({ user_id: USER_ID }, 'wrong-token');
+    assert.equal(rejected.status, 401);
+
+    // Supabase Database Webhook payload
+    const response = await invalidate({ type: 'UPDATE', table: 'user_prompts', record: { user_id: USER_ID } });
+    assert.equal(response.status, 200);
+    assert.equal((await response.json()).ok, true);
+
+    assert.match(await greetingOfNewCall(), /新しい挨拶です。/);
+    assert.equal(promptLoads, 2);
+  });
+});
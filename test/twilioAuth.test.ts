@@ -0,0 +1,89 @@
+import crypto from 'crypto';
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Simulator, startSimulator } from './simulator';
+
+const USER_ID = 'user-twilio-auth';
+const STORE_NUMBER = '+815000000020';
+const CALLER_NUMBER = '+819012345620';
+// Same values as the simulator environment (PUBLIC_URL / TWILIO_AUTH_TOKEN)
+const PUBLIC_URL = 'http://127.0.0.1';
+const AUTH_TOKEN = 'simulator-auth-token';
+
+let sim: Simulator;
+
+before(async () => {
+  sim = await startSimulator({
+    seed: {
+      profiles: [{ id: USER_ID, phone_number: STORE_NUMBER, is_subscribed: true }],
+    },
+  });
+});
+
+after(async () => {
+  await sim?.close();
+});
+
+/** X-Twilio-Signature: base64(HMAC-SHA1(auth token, URL + params sorted by name, each as name + value)) */
+const sign = (path: string, params: Record<string, string>) => {
+  const data = Object.keys(params).sort().reduce((acc, key) => acc + key + params[key], PUBLIC_URL + path);
+  return crypto.createHmac('sha1', AUTH_TOKEN).update(data).digest('base64');
+};
+
+const postIncomingCall = (params: Record<string, string>, signature?: string) => fetch(`${sim.httpUrl}/incoming-call-realtime`, {
+  method: 'POST',
+  headers: {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    ...(signature ? { 'X-Twilio-Signature': signature } : {}),
+  },
+  body: new URLSearchParams(params).toString(),
+});
+
+/** Stream token issued `ageSeconds` ago: base64url(timestamp.HMAC-SHA256 over the timestamp and the stream parameters) */
+const streamToken = (claims: { callSid: string; userId: string; toPhoneNumber: string; fromPhoneNumber: string }, ageSeconds: number) => {
+  const issuedAt = String(Math.floor(Date.now() / 1000) - ageSeconds);
+  const hmac = crypto
+    .createHmac('sha256', AUTH_TOKEN)
+    .update(`${issuedAt}.${claims.callSid}.${claims.userId}.${claims.toPhoneNumber}.${claims.fromPhoneNumber}`)
+    .digest('hex');
+  return Buffer.from(`${issuedAt}.${hmac}`).toString('base64url');
+};
+
+const INCOMING_CALL = { CallSid: 'CAsigned', From: CALLER_NUMBER, To: STORE_NUMBER };
+
+describe('Twilio request authentication', () => {
+  test('rejects webhooks without a valid X-Twilio-Signature', async () => {
+    for (const signature of [undefined, 'forged', sign('/incoming-call-realtime', { ...INCOMING_CALL, To: '+815000000099' })]) {
+      const res = await postIncomingCall(INCOMING_CALL, signature);
+      assert.equal(res.status, 403);
+      assert.match(await res.text(), /<Reject reason="rejected"\/>/);
+    }
+  });
+
+  test('accepts a webhook signed over PUBLIC_URL + path and the sorted params', async () => {
+    const res = await postIncomingCall(INCOMING_CALL, sign('/incoming-call-realtime', INCOMING_CALL));
+    assert.equal(res.status, 200);
+    const twiml = await res.text();
+    assert.match(twiml, /<Stream url="ws:\/\/127\.0\.0\.1\/twilio-media">/);
+    assert.match(twiml, new RegExp(`<Parameter name="userId" value="${USER_ID}" />`));
+    assert.match(twiml, /<Parameter name="streamToken" value="[A-Za-z0-9_-]+" \/>/);
+  });
+
+  test('refuses an expired stream token', async () => {
+    const claims = { callSid: 'CAexpired', userId: USER_ID, toPhoneNumber: STORE_NUMBER, fromPhoneNumber: CALLER_NUMBER };
+
+    // A fresh token built the same way is accepted
+    const realtimeFrom = sim.realtime.received.items.length;
+    const fresh = await sim.connectTwilio();
+    fresh.start({ ...claims, callSid: 'CAfresh', streamToken: streamToken({ ...claims, callSid: 'CAfresh' }, 0) });
+    await sim.realtime.received.waitFor((e) => e.type === 'session.update', { from: realtimeFrom, description: 'session.update' });
+    fresh.stop();
+
+    // Correctly signed, but issued longer ago than TWILIO_STREAM_TOKEN_EXPIRY_SECONDS (60s)
+    const twilio = await sim.connectTwilio();
+    twilio.start({ ...claims, streamToken: streamToken(claims, 120) });
+
+    const { code } = await twilio.waitForClose();
+    assert.equal(code, 1008);
+  });
+});